@@ -1,4 +1,59 @@
 /**
+ * 
+ * Global Option: --profile (alias: --cluster)
+ *
+ * Description
+ *   Selects the network profile used by every command: RPC URL, websocket URL, program ID, commitment and default keypair.
+ *   Built-in profiles are mainnet, devnet and localnet. Profiles in openbook.config.json (or the file in OPENBOOK_CONFIG)
+ *   override built-in ones or add custom ones. Defaults to the config file's defaultProfile, or mainnet.
+ *
+ * Example
+ *   npx ts-node cli.ts listMarkets --cluster devnet
+ * 
+ * 
+ * Global Option: --output
+ *
+ * Description
+ *   Selects the output format: table (default, human-readable), json or csv. In json and csv mode each command
+ *   writes its structured result to stdout and all logging goes to stderr. The result schema of every command
+ *   is documented in its command file and listed in the README.
+ *
+ * Example
+ *   npx ts-node cli.ts getOOA --owner <OWNER_PUBKEY> --output json
+ * 
+ * 
+ * Global Option: --dry-run
+ *
+ * Description
+ *   Simulates the transaction of deposit, withdraw, settleAll, limitOrder, pegOrder, placeOrders, amendOrder, cancelOrder, createOOA, closeOOA and setDelegate instead of sending it.
+ *   Prints the decoded instructions, accounts touched, compute units used, program logs and any mapped OpenBook error.
+ *
+ * Example
+ *   npx ts-node cli.ts cancelOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --orderId <ORDER_ID> --dry-run
+ * 
+ * 
+ * Global Options: --signer, --export, --nonceAccount
+ *
+ * Description
+ *   Offline signing for write commands. With `--signer <PUBKEY> --export <FILE>`, the command builds its transaction
+ *   without a keypair and writes it unsigned (base64) to FILE. `--nonceAccount` uses a durable nonce so the
+ *   transaction does not expire. Sign it with signTx on the offline machine and send it with broadcastTx.
+ *
+ * Example
+ *   npx ts-node cli.ts cancelOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --orderId <ORDER_ID> --signer <OWNER_PUBKEY> --export cancel.tx --nonceAccount <NONCE_PUBKEY>
+ * 
+ * 
+ * Risk Guardrails: openbook.risk.json (--force)
+ *
+ * Description
+ *   limitOrder, pegOrder, placeOrders and amendOrder check new orders against the risk rules in openbook.risk.json
+ *   (or the file in OPENBOOK_RISK_CONFIG) before signing: allowed markets, maximum order size and notional, maximum
+ *   deviation from the mid price and maximum open notional per OpenOrders account. Orders that breach a rule are
+ *   rejected unless `--force` is given. Without the file, no rules apply.
+ *
+ * Example
+ *   npx ts-node cli.ts limitOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --side bid --price 100 --size 1 --force
+ * 
  * 
  * CLI Command: listMarkets
  *
@@ -17,19 +72,122 @@
  *   npx ts-node cli.ts listMarkets
  * 
  * 
+ * CLI Command: marketInfo
+ *
+ * Description
+ * Displays the full market configuration in human units: lot sizes, decimals, minimum order size, price tick,
+ * fees, oracles, expiry, authorities, vaults, deposit and fee totals and the event sequence number.
+ *
+ * Example
+ * npx ts-node cli.ts marketInfo <MARKET_PUBLIC_KEY> --output json
+ *
+ * Parameters
+ * --market (Required): Public key of the market.
+ * 
+ * 
  * CLI Command: marketData
  * 
  * Description
  * Monitors the order book for a specified market, displaying real-time updates on best bid/ask prices or the full order book liquidity.
+ * Updates are streamed over websocket subscriptions, with a polling fallback when websockets are unavailable.
  *
  * Example
  * npx ts-node cli.ts marketData <MARKET_PUBLIC_KEY> --bestbidask
  * npx ts-node cli.ts marketData <MARKET_PUBLIC_KEY> --book
+ * npx ts-node cli.ts marketData <MARKET_PUBLIC_KEY> --diff
+ * npx ts-node cli.ts marketData <MARKET_PUBLIC_KEY> --l3 --owner <WALLET_PUBLIC_KEY>
  *  
  * Parameters
  * --market (Required): Public key of the market to monitor.
  * --bestbidask (Optional): Monitor and display the best bid/ask prices.
  * --book (Optional): Display the full order book liquidity.
+ * --diff (Optional): Stream L2 diffs (price level, old size, new size) instead of redrawing the book.
+ * --l3 (Optional): Display every individual order with owner, client order ID, time in force and queue position.
+ * --depth (Optional, default: 10): Number of price levels per side shown by --book and --l3.
+ * --openOrders, --owner (Optional): OpenOrders accounts or wallet whose orders are highlighted in the L3 view.
+ * 
+ * 
+ * CLI Command: trades
+ *
+ * Description
+ * Prints a live trade tape (time, side, price, size, maker, taker) from the market's event heap, streamed over websockets.
+ *
+ * Example
+ * npx ts-node cli.ts trades <MARKET_PUBLIC_KEY>
+ * npx ts-node cli.ts trades <MARKET_PUBLIC_KEY> --owner <WALLET_PUBLIC_KEY>
+ *
+ * Parameters
+ * --market (Required): Public key of the market to watch.
+ * --owner (Optional): Only show events of this wallet's OpenOrders accounts on the market.
+ * --openOrders (Optional): Only show events of these OpenOrders accounts. Can be repeated.
+ * --fillsOnly (Optional): Hide out events.
+ * 
+ * 
+ * CLI Command: record
+ *
+ * Description
+ * Records L2 snapshots, L2 diffs and fill/out events of one or more markets, with timestamps and slots, to rotating NDJSON files.
+ *
+ * Example
+ * npx ts-node cli.ts record <MARKET_PUBLIC_KEY> [<MARKET_PUBLIC_KEY> ...] --outDir recordings --duration 3600
+ *
+ * Parameters
+ * --market (Required): Public key(s) of the market(s) to record.
+ * --outDir (Optional, default: recordings): Directory of the recording files.
+ * --prefix (Optional, default: openbook): File name prefix.
+ * --maxFileSizeMb (Optional, default: 100): Start a new file when the current one reaches this size.
+ * --rotateMinutes (Optional, default: 60): Start a new file after this many minutes.
+ * --snapshotInterval (Optional, default: 60): Seconds between full book snapshots.
+ * --duration (Optional): Stop recording after this many seconds.
+ * 
+ * 
+ * CLI Command: replay
+ *
+ * Description
+ * Plays a recording back through the marketData display at a configurable speed.
+ *
+ * Example
+ * npx ts-node cli.ts replay <FILE> --book --speed 10
+ *
+ * Parameters
+ * --file (Required): Recording file to play back.
+ * --market (Optional): Market to display (default: the first recorded market).
+ * --speed (Optional, default: 1): Playback speed multiplier. 0 replays without delays.
+ * --bestbidask, --book, --diff (Optional): Views, as in marketData. Defaults to --book.
+ * --depth (Optional, default: 10): Number of price levels per side shown by --book.
+ * 
+ * 
+ * CLI Command: candles
+ *
+ * Description
+ * Builds 1m/5m/1h OHLCV candles with volume and trade count from market fills: live from the event heap,
+ * from the fill logs of recent market transactions (--history) or from a recording (--recording).
+ *
+ * Example
+ * npx ts-node cli.ts candles <MARKET_PUBLIC_KEY> --interval 5m --history --output csv
+ *
+ * Parameters
+ * --market (Required): Public key of the market.
+ * --interval (Optional, default: 1m): Candle interval, one of 1m, 5m or 1h.
+ * --history (Optional): Build candles from the market's recent transactions and exit.
+ * --limit (Optional, default: 1000): Number of recent market transactions scanned with --history.
+ * --recording (Optional): Build candles from a recording file and exit.
+ * 
+ * 
+ * CLI Command: dashboard
+ *
+ * Description
+ * Displays a refreshing table of several markets with best bid, best ask, spread (bps), mid, top-N depth per side
+ * and the last trade. All markets are refreshed over one connection with batched account fetches.
+ *
+ * Example
+ * npx ts-node cli.ts dashboard --watchlist watchlist.txt --depth 10
+ *
+ * Parameters
+ * --markets (Optional): Public keys of the markets to display.
+ * --watchlist (Optional): File with market public keys, one per line (# starts a comment line).
+ * --depth (Optional, default: 5): Number of price levels summed for the depth columns.
+ * --refresh (Optional, default: 1000): Refresh interval in milliseconds.
  * 
  * 
  * CLI Command: createOOA  
@@ -44,6 +202,7 @@
  * --market (Required): Public key of the market where the OpenOrders account will be created.
  * --ownerKeypair (Required): Path to the keypair file of the owner.
  * --name (Optional, default: "default"): Name of the OpenOrders account.
+ * --delegate (Optional): Public key of a delegate that may place and cancel orders on the account.
  * 
  * 
  * CLI Command: getOOA
@@ -60,23 +219,58 @@
  * --market (Optional): Public key of the market to filter OpenOrders accounts.
  * 
  * 
+ * CLI Command: getIndexer
+ * 
+ * Description
+ * Decodes the OpenOrdersIndexer of an owner and lists the OpenOrders accounts it tracks. Flags accounts where
+ * the indexer and findAllOpenOrders disagree, listed accounts that no longer exist or belong to another wallet,
+ * and existing accounts of the owner that the indexer does not track.
+ *
+ * Example
+ * npx ts-node cli.ts getIndexer <OWNER_PUBLIC_KEY>
+ *
+ * Parameters
+ * --owner (Required): Public key of the owner of the indexer.
+ * 
+ * 
  * CLI Command: closeOOA
  * 
  * Description
  * - If --openOrders is provided, closes the specified OpenOrders account.
  * - If --market is provided, closes all OpenOrders accounts for that market.
  * - If --closeIndexer is provided, closes the OpenOrders indexer (only after all OpenOrders are closed).
+ * - If --teardown is provided, cancels all orders, settles the funds, closes every OpenOrders account and then
+ *   the indexer, printing the rent recovered per step. A rerun resumes an interrupted teardown.
  *
  * Example
  * npx ts-node cli.ts closeOOA --ownerKeypair <KEYPAIR_PATH> --openOrders <OPEN_ORDERS_PUBKEY>
  * npx ts-node cli.ts closeOOA --ownerKeypair <KEYPAIR_PATH> --market <MARKET_PUBKEY>
  * npx ts-node cli.ts closeOOA --ownerKeypair <KEYPAIR_PATH> --closeIndexer
+ * npx ts-node cli.ts closeOOA --ownerKeypair <KEYPAIR_PATH> --teardown
  *
  * Parameters:
  * --ownerKeypair (Required): Path to the keypair file of the OpenOrders account owner.
  * --market (Optional): Public key of the market (required if closing all OpenOrders accounts for a market).
  * --openOrders (Optional): Public key of a specific OpenOrders account to close.
- * --closeIndexer (Optional): If set, closes the OpenOrders indexer.
+ * --closeIndexer (Optional): If set, closes the OpenOrders indexer once it tracks no accounts.
+ * --teardown (Optional): Cancel, settle and close all OpenOrders accounts, then close the indexer.
+ * 
+ * 
+ * CLI Command: setDelegate
+ * 
+ * Description
+ * Sets or removes the delegate of an OpenOrders account. A delegate can place and cancel orders with
+ * --delegateKeypair, but cannot close the account or change its delegate.
+ *
+ * Example
+ * npx ts-node cli.ts setDelegate --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --delegate <DELEGATE_PUBKEY>
+ * npx ts-node cli.ts setDelegate --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --remove
+ *
+ * Parameters
+ * --openOrders (Required): Public key of the OpenOrders account.
+ * --ownerKeypair (Required): Path to the keypair file of the account owner.
+ * --delegate (Optional): Public key of the new delegate.
+ * --remove (Optional): Remove the current delegate. Either --delegate or --remove is required.
  * 
  * 
  * CLI Command: deposit
@@ -84,6 +278,8 @@
  * Description
  * Deposits funds into an OpenOrders account for a specified market on OpenBook DEX. 
  * This allows users to provide liquidity for trading by adding base and quote token amounts.
+ * Missing token accounts are created and wallet balances are checked before the transaction is built.
+ * SOL is wrapped for wrapped SOL markets in the same transaction.
  *
  * Example
  * npx ts-node cli.ts deposit --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_FILE_PATH> --baseAmount <BASE_AMOUNT> --quoteAmount <QUOTE_AMOUNT>
@@ -94,6 +290,7 @@
  * --ownerKeypair (Required): Path to the keypair file of the account owner.
  * --baseAmount (Required): Amount of base tokens (e.g., SOL, USDC) to deposit.
  * --quoteAmount (Required): Amount of quote tokens to deposit.
+ * --keepWsol (Optional): Keep a wSOL account created for the deposit open.
  * 
  * 
  * CLI Command: balance	  
@@ -109,6 +306,21 @@
  * --market: The public key of the market.
  *  
  * 
+ * CLI Command: portfolio
+ *
+ * Description
+ * Displays every OpenOrders account of a wallet, loaded in batch: market, free and locked balances, open order
+ * count and notional and unsettled referrer rebates, followed by totals per token with optional USD values.
+ *
+ * Example
+ * npx ts-node cli.ts portfolio <WALLET_PUBLIC_KEY> --usd
+ *
+ * Parameters
+ * --wallet (Required): Public key of the wallet.
+ * --usd (Optional): Value the token totals in USD.
+ * --priceSource (Optional, default: "jupiter"): jupiter, or a JSON file mapping mints to USD prices.
+ * 
+ * 
  * CLI Command: withdraw
  * 
  * Description
@@ -121,23 +333,108 @@
  * --market (Required): Public key of the market where the OpenOrders account is located.
  * --openOrders (Required): Public key of the OpenOrders account.
  * --ownerKeypair (Required): Path to the keypair file of the account owner.
+ * --unwrap (Optional): Close the wSOL account after the withdrawal, unwrapping it to SOL.
+ * 
+ * 
+ * CLI Command: settleAll
+ *
+ * Description
+ * Settles the free balances of every OpenOrders account of the owner in as few transactions as possible.
+ * Empty accounts are skipped and missing token accounts are created. Reports the swept amount per token.
+ *
+ * Example
+ * npx ts-node cli.ts settleAll --ownerKeypair <KEYPAIR_PATH> --minAmount 0.01
+ *
+ * Parameters
+ * --ownerKeypair (Required): Path to the keypair file of the account owner.
+ * --market (Optional): Only settle the OpenOrders accounts of this market.
+ * --minAmount (Optional, default: 0): Skip accounts whose free base and quote are both below this amount.
+ * 
+ * 
+ * CLI Command: quote
+ *
+ * Description
+ * Estimates a taker order against the current book: average and worst fill price, slippage vs mid in bps, taker fee,
+ * levels and orders consumed, and whether it would exceed the limit of 16 matched orders per order placement.
+ *
+ * Example
+ * npx ts-node cli.ts quote <MARKET_PUBLIC_KEY> --side bid --size 10
+ *
+ * Parameters
+ * --market (Required): Public key of the market.
+ * --side (Required): bid (buy) or ask (sell).
+ * --size (Optional): Base amount to buy or sell.
+ * --quoteAmount (Optional): Quote amount to spend or receive, before fees. Either --size or --quoteAmount is required.
  * 
  * 
  * CLI Command: limitOrder
  * 
  * Description
- * Places a limit order on OpenBook by specifying the market, order parameters, and OpenOrders account.
+ * Places an order on OpenBook by specifying the market, order parameters, and OpenOrders account.
  *
  * Example
  * npx ts-node cli.ts limitOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --side bid --price 100 --size 1
+ * npx ts-node cli.ts limitOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --side bid --size 1 --orderType market --maxQuote 105
  *  
  * Parameters
  * --market (Required): Public key of the market where the order will be placed.
  * --openOrders (Required): Public key of the OpenOrders account.
  * --ownerKeypair (Required): Path to the keypair file of the order owner.
  * --side (Required): Order side, either 'bid' (buy) or 'ask' (sell).
- * --price (Required): Order price in UI units.
+ * --price (Required unless --orderType market): Order price in UI units.
  * --size (Required): Order size in UI units.
+ * --orderType (Optional, default: "limit"): limit, market, immediateOrCancel, fillOrKill, postOnly or postOnlySlide.
+ * --maxQuote (Optional): Maximum quote amount in UI units (fees included) a bid may spend.
+ * --clientOrderId (Optional): Client order ID to attach to the order (default: current time in ms).
+ * --expiry (Optional): Good-till time, either a duration (e.g. 30m), a unix timestamp or an ISO date. At most 65535 seconds from now.
+ * --selfTrade (Optional, default: "decrementTake"): decrementTake, cancelProvide or abortTransaction.
+ * --force (Optional): Place the order even if it breaches the risk rules.
+ * --delegateKeypair (Optional): Path to the keypair file of the account delegate, signing instead of the owner.
+ * --owner (Required with --delegateKeypair): Public key of the OpenOrders account owner.
+ * 
+ * 
+ * CLI Command: pegOrder
+ * 
+ * Description
+ * Places an oracle-pegged order that rests at the oracle price plus an offset, bounded by a peg limit.
+ *
+ * Example
+ * npx ts-node cli.ts pegOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --side bid --priceOffset -0.05 --pegLimit 105 --size 1
+ *  
+ * Parameters
+ * --market (Required): Public key of the market where the order will be placed.
+ * --openOrders (Required): Public key of the OpenOrders account.
+ * --ownerKeypair (Required): Path to the keypair file of the order owner.
+ * --side (Required): Order side, either 'bid' (buy) or 'ask' (sell).
+ * --priceOffset (Required): Offset from the oracle price in UI units (negative = below the oracle).
+ * --pegLimit (Required): Worst price in UI units the pegged order may reach.
+ * --size (Required): Order size in UI units.
+ * --timeInForce (Optional, default: 0): Seconds until the order expires, at most 65535. 0 means no expiry.
+ * --orderType (Optional, default: "limit"): Either limit or postOnly.
+ * --force (Optional): Place the order even if it breaches the risk rules.
+ * 
+ * 
+ * CLI Command: placeOrders
+ * 
+ * Description
+ * Places a ladder of orders from a JSON/CSV file or a grid spec, using batch place-order instructions
+ * packed into as few transactions as possible.
+ *
+ * Example
+ * npx ts-node cli.ts placeOrders --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --file orders.csv
+ * npx ts-node cli.ts placeOrders --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --side bid --startPrice 100 --endPrice 95 --levels 6 --sizePerLevel 0.5
+ *  
+ * Parameters
+ * --market (Required): Public key of the market where the orders will be placed.
+ * --openOrders (Required): Public key of the OpenOrders account.
+ * --ownerKeypair (Required): Path to the keypair file of the order owner.
+ * --file (Optional): JSON or CSV file with orders (side, price, size and optional expiry).
+ * --side, --startPrice, --endPrice, --levels, --sizePerLevel (Optional): Grid spec, used when no file is given.
+ * --orderType (Optional, default: "postOnly"): limit, postOnly or postOnlySlide.
+ * --expiry (Optional): Default good-till time for orders without their own expiry.
+ * --ordersPerInstruction (Optional, default: 5): Maximum number of orders per batch instruction.
+ * --replace (Optional): Cancel all resting orders of the account before placing the ladder.
+ * --force (Optional): Place the orders even if they breach the risk rules.
  * 
  * 
  * CLI Command: getOrder
@@ -173,37 +470,185 @@
  * --side (Optional): `bid` or `ask` (cancels only orders on that side).
  * --limit (Optional): Maximum number of orders to cancel (only used when `orderId` is not provided).
  * --ownerKeypair (Required): Path to the keypair file of the order owner.
+ * --delegateKeypair (Optional): Path to the keypair file of the account delegate, signing instead of the owner.
+ * --owner (Required with --delegateKeypair): Public key of the OpenOrders account owner.
+ * 
+ * 
+ * CLI Command: amendOrder
+ * 
+ * Description
+ * Cancels an order by `orderId` or `clientOrderId` and places its replacement with a new price and/or size in the same transaction.
+ *
+ * Example
+ * npx ts-node cli.ts amendOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --orderId <ORDER_ID> --price 101
+ *  
+ * Parameters
+ * --market (Required): Public key of the market where the order exists.
+ * --openOrders (Required): Public key of the OpenOrders account holding the order.
+ * --ownerKeypair (Required): Path to the keypair file of the order owner.
+ * --orderId (Optional): Order ID of the order to amend.
+ * --clientOrderId (Optional): Client order ID of the order to amend.
+ * --price (Optional): New order price in UI units (default: unchanged).
+ * --size (Optional): New order size in UI units (default: unchanged).
+ * --orderType (Optional, default: "limit"): Order type of the replacement.
+ * --newClientOrderId (Optional): Client order ID of the replacement (default: the original one).
+ * --expiry (Optional): Good-till time of the replacement.
+ * --selfTrade (Optional, default: "decrementTake"): Self-trade behavior of the replacement.
+ * --force (Optional): Place the replacement even if it breaches the risk rules.
+ * 
+ * 
+ * CLI Command: signTx
+ * 
+ * Description
+ * Signs a transaction exported with --signer/--export. Works without network access.
+ *
+ * Example
+ * npx ts-node cli.ts signTx --file cancel.tx --keypair <KEYPAIR_PATH>
+ *  
+ * Parameters
+ * --file (Required): File containing the base64 encoded transaction.
+ * --keypair (Required): Path to the keypair file of a required signer.
+ * --outFile (Optional): File to write the signed transaction to (default: overwrite --file).
+ * 
+ * 
+ * CLI Command: broadcastTx
+ * 
+ * Description
+ * Broadcasts a transaction signed with signTx and waits for its confirmation.
+ *
+ * Example
+ * npx ts-node cli.ts broadcastTx --file cancel.tx
+ *  
+ * Parameters
+ * --file (Required): File containing the base64 encoded signed transaction.
+ * 
+ * 
+ * CLI Command: rpcHealth
+ * 
+ * Description
+ * Benchmarks latency, errors and slot lag of every RPC endpoint of the active profile.
+ *
+ * Example
+ * npx ts-node cli.ts rpcHealth --samples 10
+ *  
+ * Parameters
+ * --samples (Optional, default: 5): Number of requests per endpoint.
+ * --url (Optional): Endpoint(s) to benchmark instead of the profile's endpoints.
  */
 
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
+import { setActiveProfile } from './utils/config';
+import logger from './utils/logger';
+import { OUTPUT_FORMATS, setOutputFormat } from './utils/output';
 
 import listMarkets from './commands/listMarkets';
+import marketInfo from './commands/marketInfo';
 import marketData from './commands/marketData';
+import trades from './commands/trades';
+import record from './commands/record';
+import replay from './commands/replay';
+import candles from './commands/candles';
+import dashboard from './commands/dashboard';
 import createOOA from './commands/createOOA';
 import getOOA from './commands/getOOA';
+import getIndexer from './commands/getIndexer';
 import closeOOA from './commands/closeOOA';
+import setDelegate from './commands/setDelegate';
 import withdraw from './commands/withdraw';
+import settleAll from './commands/settleAll';
 import deposit from './commands/deposit';
 import balance from './commands/balance';
+import portfolio from './commands/portfolio';
+import quote from './commands/quote';
 import placeLimitOrder from './commands/placeLimitOrder';
+import placePegOrder from './commands/placePegOrder';
+import placeOrders from './commands/placeOrders';
 import getOrder from './commands/getOrder';
 import cancelOrder from './commands/cancelOrder';
+import amendOrder from './commands/amendOrder';
+import signTx from './commands/signTx';
+import broadcastTx from './commands/broadcastTx';
+import rpcHealth from './commands/rpcHealth';
 
 yargs(hideBin(process.argv))
   .scriptName('openbook-cli')
   .usage('$0 <command> [options]')
   .command(listMarkets)
+  .command(marketInfo)
   .command(marketData)
+  .command(trades)
+  .command(record)
+  .command(replay)
+  .command(candles)
+  .command(dashboard)
   .command(createOOA)
   .command(getOOA)
+  .command(getIndexer)
   .command(closeOOA)
+  .command(setDelegate)
   .command(withdraw)
+  .command(settleAll)
   .command(deposit)
   .command(balance)
+  .command(portfolio)
+  .command(quote)
   .command(placeLimitOrder)
+  .command(placePegOrder)
+  .command(placeOrders)
   .command(getOrder)
   .command(cancelOrder)
+  .command(amendOrder)
+  .command(signTx)
+  .command(broadcastTx)
+  .command(rpcHealth)
+  .option('profile', {
+    alias: 'cluster',
+    type: 'string',
+    global: true,
+    description: 'Network profile: mainnet, devnet, localnet or a profile from openbook.config.json',
+  })
+  .option('output', {
+    type: 'string',
+    choices: OUTPUT_FORMATS,
+    default: 'table' as const,
+    global: true,
+    description: 'Output format: human-readable table, or one structured result on stdout as json or csv (logs go to stderr)',
+  })
+  .middleware((argv) => {
+    // Select the output format first, so that even early logs go to the right stream
+    setOutputFormat(argv.output);
+
+    // Select the network profile before any command builds a connection
+    try {
+      const profile = setActiveProfile(argv.profile);
+      logger.debug(`Using profile ${profile.name}: ${profile.rpcUrl}`);
+    } catch (error) {
+      // Middleware errors bypass .fail(), so report them the same way here
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }, true)
+  .option('dry-run', {
+    type: 'boolean',
+    global: true,
+    description: 'Simulate state-changing commands and print the result without sending any transaction',
+  })
+  .option('signer', {
+    type: 'string',
+    global: true,
+    description: 'Public key of the owner when its keypair is offline (requires --export)',
+  })
+  .option('export', {
+    type: 'string',
+    global: true,
+    description: 'Write the unsigned transaction to this file instead of sending it',
+  })
+  .option('nonceAccount', {
+    type: 'string',
+    global: true,
+    description: 'Durable nonce account for exported transactions (authority must be the signer)',
+  })
   .demandCommand(1, 'Please provide a valid command.')
   .help()
   .alias('help', 'h')
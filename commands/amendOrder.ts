@@ -0,0 +1,318 @@
+/**
+ * CLI Command: amendOrder
+ *
+ * Description
+ * Atomically replaces a resting order: the original order is cancelled and its replacement placed in the
+ * same transaction, so the quote never leaves the book and only one confirmation is needed.
+ * Price and size default to those of the original order; at least one of them must change.
+ *
+ * Example Usage
+ * npx ts-node cli.ts amendOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --orderId <ORDER_ID> --price 101
+ * npx ts-node cli.ts amendOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --clientOrderId 42 --price 101 --size 2
+ *
+ * Parameters
+ * --market (Required): Public key of the market where the order exists.
+ * --openOrders (Required): Public key of the OpenOrders account holding the order.
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the order owner.
+ * --orderId (Optional): Order ID of the order to amend.
+ * --clientOrderId (Optional): Client order ID of the order to amend.
+ * --price (Optional): New order price in UI units.
+ * --size (Optional): New order size in UI units.
+ * --orderType (Optional, default: "limit"): Order type of the replacement.
+ * --newClientOrderId (Optional): Client order ID of the replacement. Defaults to the original one.
+ * --expiry (Optional): Good-till time of the replacement.
+ * --selfTrade (Optional, default: "decrementTake"): Self-trade behavior of the replacement.
+ * --force (Optional): Place the replacement even if it breaches the risk rules in openbook.risk.json.
+ * --dry-run (Optional): Simulate the cancel and replacement and print the result without sending them.
+ */
+
+import { CommandModule } from 'yargs';
+import {
+  createConnection,
+  createClient,
+  loadPublicKey,
+  sendWithRetry,
+  getDynamicPriorityFee
+} from '../utils/helper';
+import { getAssociatedTokenAddress } from '@solana/spl-token';
+import { Connection } from '@solana/web3.js';
+import { AnchorProvider, Wallet, BN } from '@coral-xyz/anchor';
+import { Market, type PlaceOrderArgs as OpenBookPlaceOrderArgs } from '@openbook-dex/openbook-v2';
+import logger from '../utils/logger';
+import { DEFAULTS } from '../utils/config';
+import { emitResult } from '../utils/output';
+import { checkOwnerArgs, exportTransaction, loadOwner, type OwnerArgs } from '../utils/offline';
+import { getOpenBookErrorCode, getOpenBookErrorMessage, handleOpenBookError } from '../utils/error';
+import {
+  ORDER_TYPE_CHOICES,
+  SELF_TRADE_CHOICES,
+  type OrderTypeName,
+  type SelfTradeName,
+  computeOrderLots,
+  parseClientOrderId,
+  parseExpiry,
+  toPlaceOrderType,
+  toSelfTradeBehavior,
+} from '../utils/order';
+import { enforceRiskRules } from '../utils/risk';
+import { simulateInstructions } from '../utils/simulate';
+
+/**
+ * Interface defining the arguments for the amendOrder command.
+ */
+interface CLIAmendOrderArgs extends OwnerArgs {
+  market: string;
+  openOrders: string;
+  orderId?: string;
+  clientOrderId?: string;
+  price?: number;
+  size?: number;
+  orderType: OrderTypeName;
+  newClientOrderId?: string;
+  expiry?: string;
+  selfTrade: SelfTradeName;
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output. Price and size are those of the replacement order.
+ */
+interface AmendOrderResult {
+  signature: string;
+  cancelledOrderId: string;
+  side: 'bid' | 'ask';
+  price: number;
+  size: number;
+  clientOrderId: string;
+}
+
+/**
+ * CLI command to cancel and replace an order in a single transaction.
+ */
+const amendOrder: CommandModule<{}, CLIAmendOrderArgs> = {
+  command: 'amendOrder',
+  describe: 'Cancel an order and place its replacement in the same transaction',
+  builder: (yargs) =>
+    yargs
+      .option('market', { type: 'string', demandOption: true, description: 'Market public key' })
+      .option('openOrders', { type: 'string', demandOption: true, description: 'OpenOrders account public key' })
+      .option('ownerKeypair', { type: 'string', description: 'Path to owner keypair file (omit with --signer)' })
+      .option('orderId', { type: 'string', description: 'Order ID of the order to amend' })
+      .option('clientOrderId', { type: 'string', description: 'Client order ID of the order to amend' })
+      .option('price', { type: 'number', description: 'New order price in UI units' })
+      .option('size', { type: 'number', description: 'New order size in UI units' })
+      .option('orderType', {
+        type: 'string',
+        choices: ORDER_TYPE_CHOICES,
+        default: 'limit' as OrderTypeName,
+        description: 'Order type of the replacement'
+      })
+      .option('newClientOrderId', {
+        type: 'string',
+        description: 'Client order ID of the replacement (default: the original one)'
+      })
+      .option('expiry', {
+        type: 'string',
+        description: 'Good-till time of the replacement: duration (e.g. 30m, 2h), unix timestamp or ISO date'
+      })
+      .option('selfTrade', {
+        type: 'string',
+        choices: SELF_TRADE_CHOICES,
+        default: 'decrementTake' as SelfTradeName,
+        description: 'Behavior when the replacement would match against your own orders'
+      })
+      .option('force', {
+        type: 'boolean',
+        description: 'Place the replacement even if it breaches the risk rules'
+      })
+      .check((argv) => {
+        if (!argv.orderId === !argv.clientOrderId) {
+          throw new Error('Specify exactly one of --orderId or --clientOrderId.');
+        }
+        if (argv.price === undefined && argv.size === undefined) {
+          throw new Error('Provide a new --price and/or --size.');
+        }
+        return checkOwnerArgs(argv);
+      }),
+  handler: async (argv) => {
+    // Initialize Solana connection and load keypair
+    const connection: Connection = createConnection();
+    const owner = loadOwner(argv);
+    const wallet = new Wallet(owner);
+    const provider = new AnchorProvider(connection, wallet, { commitment: 'confirmed' });
+
+    // Create OpenBook client
+    const client = createClient(provider);
+
+    // Load public keys for market and OpenOrders accounts
+    const marketPubkey = loadPublicKey(argv.market);
+    const openOrdersPubkey = loadPublicKey(argv.openOrders);
+
+    try {
+      logger.info(`Using wallet: ${owner.publicKey.toBase58()}`);
+      logger.info(`Market: ${marketPubkey.toBase58()}`);
+      logger.info(`OpenOrders Account: ${openOrdersPubkey.toBase58()}`);
+
+      // Load the market together with its order book to read the original order size
+      logger.info('Loading market and order book...');
+      const market = await Market.load(client, marketPubkey);
+      await market.loadOrderBook();
+
+      logger.info('Deserializing OpenOrders account...');
+      const openOrdersAccount = await client.deserializeOpenOrderAccount(openOrdersPubkey);
+      if (!openOrdersAccount) {
+        throw new Error('OpenOrders account not found.');
+      }
+
+      // Check if OpenOrders belongs to the specified market
+      if (openOrdersAccount.market.toString() !== marketPubkey.toString()) {
+        throw new Error('OpenOrders account does not belong to the specified market.');
+      }
+
+      // Locate the original order in the account's order slots
+      const orderId = argv.orderId ? new BN(argv.orderId) : undefined;
+      const clientOrderId = argv.clientOrderId ? parseClientOrderId(argv.clientOrderId) : undefined;
+      const slot = openOrdersAccount.openOrders.find(
+        (openOrder) =>
+          !openOrder.isFree &&
+          (orderId ? openOrder.id.eq(orderId) : openOrder.clientId.eq(clientOrderId!))
+      );
+      if (!slot) {
+        const reference = argv.orderId ? `ID ${argv.orderId}` : `client ID ${argv.clientOrderId}`;
+        throw new Error(`No open order with ${reference}. OpenBook Error (302): ${getOpenBookErrorMessage(302)}`);
+      }
+
+      // Oracle-pegged orders have no fixed price to amend
+      if (slot.sideAndTree > 1) {
+        throw new Error('amendOrder only supports fixed-price orders. Use cancelOrder and pegOrder for pegged orders.');
+      }
+      const side: 'bid' | 'ask' = slot.sideAndTree === 0 ? 'bid' : 'ask';
+
+      const bookSide = side === 'bid' ? market.bids : market.asks;
+      let originalSizeLots: BN | undefined;
+      for (const order of bookSide?.fixedItems() ?? []) {
+        if (order.leafNode.key.eq(slot.id)) {
+          originalSizeLots = order.sizeLots;
+          break;
+        }
+      }
+      if (!originalSizeLots) {
+        throw new Error(
+          `Order ${slot.id.toString()} is no longer on the book. OpenBook Error (302): ${getOpenBookErrorMessage(302)}`
+        );
+      }
+
+      const originalPrice = market.priceLotsToUi(slot.lockedPrice);
+      const originalSize = market.baseLotsToUi(originalSizeLots);
+      const newPrice = argv.price ?? originalPrice;
+      const newSize = argv.size ?? originalSize;
+
+      logger.info(`Original order: ${side.toUpperCase()} ${originalSize} @ ${originalPrice} (ID: ${slot.id.toString()})`);
+      logger.info(`Replacement:    ${side.toUpperCase()} ${newSize} @ ${newPrice} (${argv.orderType})`);
+
+      // The cancelled order no longer counts towards the account's open notional
+      await enforceRiskRules(
+        market,
+        openOrdersAccount,
+        [{ side, size: newSize, price: newPrice }],
+        argv.force,
+        { replacedNotional: originalPrice * originalSize }
+      );
+
+      // Cancel by the resolved order ID so only this exact order is replaced
+      const [cancelIx] = await client.cancelOrderByIdIx(
+        openOrdersPubkey,
+        openOrdersAccount,
+        market.account,
+        slot.id
+      );
+
+      // Convert the replacement's UI values to lots
+      const { priceLots, maxBaseLots, maxQuoteLotsIncludingFees } = computeOrderLots(
+        market,
+        side,
+        argv.orderType,
+        newSize,
+        newPrice
+      );
+
+      const userTokenAccount = await getAssociatedTokenAddress(
+        side === 'bid' ? market.account.quoteMint : market.account.baseMint,
+        owner.publicKey
+      );
+
+      const newClientOrderId = argv.newClientOrderId ? parseClientOrderId(argv.newClientOrderId) : slot.clientId;
+      const args: OpenBookPlaceOrderArgs = {
+        side: side === 'bid' ? { bid: {} } : { ask: {} },
+        priceLots,
+        maxBaseLots,
+        maxQuoteLotsIncludingFees,
+        clientOrderId: newClientOrderId,
+        orderType: toPlaceOrderType(argv.orderType),
+        expiryTimestamp: argv.expiry ? parseExpiry(argv.expiry) : new BN(0),
+        selfTradeBehavior: toSelfTradeBehavior(argv.selfTrade),
+        limit: DEFAULTS.ORDER_LIMIT,
+      };
+
+      const [placeOrderIx] = await client.placeOrderIx(
+        openOrdersPubkey,
+        marketPubkey,
+        market.account,
+        userTokenAccount,
+        args,
+        []
+      );
+
+      // Fetch dynamic priority fee
+      const finalPriorityFee = await getDynamicPriorityFee(connection);
+
+      if (argv.dryRun) {
+        const simulation = await simulateInstructions(
+          client,
+          connection,
+          owner.publicKey,
+          [cancelIx, placeOrderIx],
+          finalPriorityFee
+        );
+        if (!simulation.success) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (argv.export) {
+        await exportTransaction(connection, owner.publicKey, [cancelIx, placeOrderIx], finalPriorityFee, argv.export, argv.nonceAccount);
+        return;
+      }
+
+      // Cancel and replace in a single transaction
+      const signature = await sendWithRetry(provider, connection, [cancelIx, placeOrderIx], finalPriorityFee);
+
+      logger.info(`Order amended successfully. Transaction Signature: ${signature}`);
+      logger.info(`  Client Order ID: ${newClientOrderId.toString()}`);
+
+      const result: AmendOrderResult = {
+        signature,
+        cancelledOrderId: slot.id.toString(),
+        side,
+        price: newPrice,
+        size: newSize,
+        clientOrderId: newClientOrderId.toString(),
+      };
+      emitResult(result);
+    } catch (error) {
+      logger.error(`Error occurred while amending order: ${error instanceof Error ? error.message : error}`);
+      handleOpenBookError(error);
+
+      // The original order can disappear between reading the book and landing the transaction
+      if (getOpenBookErrorCode(error) === 302) {
+        logger.error('The original order was filled or cancelled before the amendment landed. Nothing was replaced.');
+      }
+
+      process.exit(1);
+    }
+  },
+};
+
+export default amendOrder;
@@ -14,6 +14,7 @@ import { CommandModule } from 'yargs';
 import { createConnection, createProvider, createClient, loadPublicKey, createStubWallet } from '../utils/helper';
 import { Market, OpenOrders } from '@openbook-dex/openbook-v2'; 
 import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
 
 // Define CLI argument types
 interface BalanceArgs {
@@ -21,6 +22,14 @@ interface BalanceArgs {
   market: string;
 }
 
+// Result schema in json/csv output
+interface BalanceResult {
+  openOrders: string;
+  market: string;
+  baseBalance: number;
+  quoteBalance: number;
+}
+
 // Define the CLI command structure
 const balance: CommandModule<{}, BalanceArgs> = {
   command: 'balance',
@@ -75,6 +84,14 @@ const balance: CommandModule<{}, BalanceArgs> = {
       logger.info('Balances:');
       logger.info(`  Base Token Balance: ${baseBalanceUi}`);
       logger.info(`  Quote Token Balance: ${quoteBalanceUi}`);
+
+      const result: BalanceResult = {
+        openOrders: openOrdersPubkey.toBase58(),
+        market: marketPubkey.toBase58(),
+        baseBalance: baseBalanceUi,
+        quoteBalance: quoteBalanceUi,
+      };
+      emitResult(result);
     } catch (error) {
       // Handle errors and exit if fetching balances fails
       logger.error(`Error fetching balances: ${(error as Error).message}`);
@@ -0,0 +1,96 @@
+/**
+ * CLI Command: broadcastTx
+ *
+ * Description
+ * Broadcasts a transaction signed with `signTx` and waits for its confirmation.
+ *
+ * Example Usage
+ * npx ts-node cli.ts broadcastTx --file order.tx
+ *
+ * Parameters
+ * --file (Required): File containing the base64 encoded signed transaction.
+ */
+
+import { CommandModule } from 'yargs';
+import { Connection } from '@solana/web3.js';
+import { createConnection, confirmTransactionWithPolling } from '../utils/helper';
+import { readTransactionFile } from '../utils/offline';
+import { handleOpenBookError } from '../utils/error';
+import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
+
+/**
+ * Interface defining the arguments for the broadcastTx command.
+ */
+interface BroadcastTxArgs {
+  file: string;
+}
+
+/**
+ * Result schema in json/csv output.
+ */
+interface BroadcastTxResult {
+  signature: string;
+}
+
+/**
+ * CLI command to broadcast a signed transaction.
+ */
+const broadcastTx: CommandModule<{}, BroadcastTxArgs> = {
+  command: 'broadcastTx',
+  describe: 'Broadcast a signed transaction',
+  builder: (yargs) =>
+    yargs.option('file', {
+      type: 'string',
+      demandOption: true,
+      description: 'File containing the base64 encoded signed transaction'
+    }),
+  handler: async (argv) => {
+    const connection: Connection = createConnection();
+
+    try {
+      const transaction = readTransactionFile(argv.file);
+
+      // Refuse to send transactions that still lack a signature
+      const { numRequiredSignatures } = transaction.message.header;
+      const missing = transaction.message.staticAccountKeys
+        .slice(0, numRequiredSignatures)
+        .filter((_, index) => transaction.signatures[index].every((byte) => byte === 0));
+      if (missing.length > 0) {
+        throw new Error(`Transaction is missing signatures from: ${missing.map((key) => key.toBase58()).join(', ')}`);
+      }
+
+      logger.info('Broadcasting transaction...');
+      const signature = await connection.sendRawTransaction(transaction.serialize(), {
+        skipPreflight: false,
+        preflightCommitment: 'confirmed',
+      });
+      logger.info(`Transaction sent: ${signature}`);
+
+      const confirmed = await confirmTransactionWithPolling(connection, signature);
+      if (!confirmed) {
+        throw new Error(`Transaction ${signature} was not confirmed. Check it on Solana Explorer before retrying.`);
+      }
+
+      // A confirmed transaction can still have failed on-chain
+      const status = await connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+      if (status.value?.err) {
+        throw Object.assign(new Error(`Transaction ${signature} failed: ${JSON.stringify(status.value.err)}`), {
+          txid: signature,
+          err: status.value.err,
+        });
+      }
+
+      logger.info(`Transaction ${signature} successfully confirmed.`);
+
+      const result: BroadcastTxResult = { signature };
+      emitResult(result);
+    } catch (error) {
+      logger.error(`Error occurred while broadcasting transaction: ${error instanceof Error ? error.message : error}`);
+      handleOpenBookError(error);
+      process.exit(1);
+    }
+  },
+};
+
+export default broadcastTx;
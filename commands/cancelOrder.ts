@@ -14,14 +14,16 @@
  * --clientOrderId (Optional): Client-specified order ID.
  * --side (Optional): `bid` or `ask` (cancels only orders on that side).
  * --limit (Optional): Maximum number of orders to cancel (only used when `orderId` is not provided).
- * --ownerKeypair (Required): Path to the keypair file of the order owner.
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the order owner.
+ * --delegateKeypair (Optional): Path to the keypair file of the account delegate, signing instead of the owner.
+ * --owner (Required with --delegateKeypair): Public key of the OpenOrders account owner.
+ * --dry-run (Optional): Simulate the cancellation and print the result without sending it.
  */
 
 import { CommandModule } from 'yargs';
 import {
   createConnection,
   createClient,
-  loadKeypair,
   loadPublicKey,
   sendWithRetry,
   getDynamicPriorityFee
@@ -30,19 +32,37 @@ import { PublicKey, Connection, TransactionInstruction } from '@solana/web3.js';
 import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
 import { OpenBookV2Client, Market, OpenOrders } from '@openbook-dex/openbook-v2';
 import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
+import { exportTransaction } from '../utils/offline';
+import {
+  checkDelegateArgs,
+  explainPermissionError,
+  loadSigner,
+  replaceSigner,
+  verifyDelegate,
+  type DelegateArgs,
+} from '../utils/delegate';
+import { simulateInstructions } from '../utils/simulate';
 import { BN } from '@coral-xyz/anchor';
 
 /**
  * Interface defining the required arguments for the cancelOrder command.
  */
-interface CLICancelOrderArgs {
+interface CLICancelOrderArgs extends DelegateArgs {
   market: string;
   openOrders: string;
-  ownerKeypair: string;
   orderId?: string;
   clientOrderId?: string;
   side?: 'bid' | 'ask';
   limit?: number;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output.
+ */
+interface CancelOrderResult {
+  signature: string;
 }
 
 /**
@@ -55,7 +75,9 @@ const cancelOrder: CommandModule<{}, CLICancelOrderArgs> = {
     yargs
       .option('market', { type: 'string', demandOption: true, description: 'Market public key' })
       .option('openOrders', { type: 'string', demandOption: true, description: 'OpenOrders account public key' })
-      .option('ownerKeypair', { type: 'string', demandOption: true, description: 'Path to owner keypair file' })
+      .option('ownerKeypair', { type: 'string', description: 'Path to owner keypair file (omit with --signer)' })
+      .option('delegateKeypair', { type: 'string', description: 'Path to delegate keypair file (signs instead of the owner)' })
+      .option('owner', { type: 'string', description: 'Owner public key (required with --delegateKeypair)' })
       .option('orderId', { type: 'string', description: 'Order ID to cancel' })
       .option('clientOrderId', { type: 'string', description: 'Client-specified order ID to cancel' })
       .option('side', {
@@ -68,13 +90,13 @@ const cancelOrder: CommandModule<{}, CLICancelOrderArgs> = {
         if (argv.orderId && argv.clientOrderId) {
           throw new Error('Specify either --orderId or --clientOrderId, but not both.');
         }
-        return true;
+        return checkDelegateArgs(argv);
       }),
   handler: async (argv) => {
     // Initialize Solana connection and load keypair
     const connection: Connection = createConnection();
-    const owner = loadKeypair(argv.ownerKeypair);
-    const wallet = new Wallet(owner);
+    const signer = loadSigner(argv);
+    const wallet = new Wallet(signer);
     const provider = new AnchorProvider(connection, wallet, { commitment: 'confirmed' });
 
     // Create OpenBook client
@@ -85,7 +107,7 @@ const cancelOrder: CommandModule<{}, CLICancelOrderArgs> = {
     const openOrdersPubkey = loadPublicKey(argv.openOrders);
 
     try {
-      logger.info(`Using wallet: ${owner.publicKey.toBase58()}`);
+      logger.info(`Using wallet: ${signer.publicKey.toBase58()}`);
       logger.info(`Market: ${marketPubkey.toBase58()}`);
       logger.info(`OpenOrders Account: ${openOrdersPubkey.toBase58()}`);
 
@@ -104,6 +126,7 @@ const cancelOrder: CommandModule<{}, CLICancelOrderArgs> = {
       if (openOrdersAccount.market.toString() !== marketPubkey.toString()) {
         throw new Error('OpenOrders account does not belong to the specified market.');
       }
+      verifyDelegate(argv, openOrdersAccount, signer.publicKey);
 
       // Prepare transaction instruction for order cancellation
       let cancelIx: TransactionInstruction;
@@ -140,15 +163,35 @@ const cancelOrder: CommandModule<{}, CLICancelOrderArgs> = {
         );
       }
 
+      // The SDK names the owner as signer, which a delegate has to replace
+      replaceSigner(cancelIx, openOrdersAccount.owner, signer.publicKey);
+
       // Fetch dynamic priority fee
       const finalPriorityFee = await getDynamicPriorityFee(connection);
 
+      if (argv.dryRun) {
+        const simulation = await simulateInstructions(client, connection, signer.publicKey, [cancelIx], finalPriorityFee);
+        if (!simulation.success) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (argv.export) {
+        await exportTransaction(connection, signer.publicKey, [cancelIx], finalPriorityFee, argv.export, argv.nonceAccount);
+        return;
+      }
+
       // Execute transaction with retry logic
       const signature = await sendWithRetry(provider, connection, [cancelIx], finalPriorityFee);
 
       logger.info(`Order cancellation successful. Transaction Signature: ${signature}`);
+
+      const result: CancelOrderResult = { signature };
+      emitResult(result);
     } catch (error) {
-      logger.error('Error occurred while canceling order:', error instanceof Error ? error.message : error);
+      logger.error(`Error occurred while canceling order: ${error instanceof Error ? error.message : error}`);
+      explainPermissionError(error);
       process.exit(1);
     }
   },
@@ -0,0 +1,226 @@
+/**
+ * CLI Command: candles
+ *
+ * Description
+ * Builds OHLCV candles (open, high, low, close, volume and trade count) of a market from its fills.
+ * In live mode (default), fills are streamed from the market's event heap and the open candle is updated as
+ * trades happen; a candle is reported as closed once its interval has passed.
+ * With --history, candles are built from the fill logs of the market's most recent transactions instead.
+ * With --recording, they are built from the fill events of a recording made with `record`, without RPC access.
+ * Intervals without fills have no candle.
+ *
+ * Example Usage
+ * npx ts-node cli.ts candles <MARKET_PUBLIC_KEY> --interval 1m
+ * npx ts-node cli.ts candles <MARKET_PUBLIC_KEY> --interval 1h --history --limit 5000 --output csv
+ * npx ts-node cli.ts candles <MARKET_PUBLIC_KEY> --interval 5m --recording recordings/<FILE>.ndjson --output json
+ *
+ * Parameters
+ * --market (Required): Public key of the market.
+ * --interval (Optional, default: 1m): Candle interval, one of 1m, 5m or 1h.
+ * --history (Optional): Build candles from the market's recent transactions and exit.
+ * --limit (Optional, default: 1000): Number of recent market transactions scanned with --history.
+ * --recording (Optional): Build candles from a recording file and exit.
+ */
+
+import { CommandModule } from 'yargs';
+import { createConnection, createProvider, createClient, loadPublicKey, createStubWallet } from '../utils/helper';
+import { Market } from '@openbook-dex/openbook-v2';
+import logger from '../utils/logger';
+import { emitResult, isTableOutput } from '../utils/output';
+import { fetchFillHistory, watchEventHeap, type TapeEvent } from '../utils/trades';
+import { readRecording } from '../utils/recording';
+import { addFill, aggregateCandles, CANDLE_INTERVALS, type Candle, type CandleInterval } from '../utils/candles';
+
+// Number of candles kept on screen in live mode
+const LIVE_ROWS = 20;
+
+/**
+ * Interface defining the arguments for the candles command.
+ */
+interface CandlesArgs {
+  market: string;
+  interval: CandleInterval;
+  history?: boolean;
+  limit: number;
+  recording?: string;
+}
+
+/**
+ * Result schema in json/csv output: one result per candle.
+ * In live mode, the open candle is emitted again (closed: false) after every fill, and a final time with
+ * closed: true once its interval has passed.
+ */
+type CandleResult = Candle & { market: string; interval: CandleInterval; closed: boolean };
+
+/**
+ * Prints the candle table header.
+ */
+function printHeader(): void {
+  console.log(
+    `${'Open Time'.padEnd(24)} | ${'Open'.padEnd(12)} | ${'High'.padEnd(12)} | ${'Low'.padEnd(12)} | ` +
+      `${'Close'.padEnd(12)} | ${'Volume'.padEnd(15)} | ${'Trades'.padEnd(6)} | Status`
+  );
+  console.log('-'.repeat(125));
+}
+
+/**
+ * Prints a candle row.
+ */
+function printCandle(candle: CandleResult): void {
+  console.log(
+    `${candle.openTime.padEnd(24)} | ${candle.open.toFixed(4).padEnd(12)} | ${candle.high.toFixed(4).padEnd(12)} | ` +
+      `${candle.low.toFixed(4).padEnd(12)} | ${candle.close.toFixed(4).padEnd(12)} | ` +
+      `${candle.volume.toFixed(4).padEnd(15)} | ${String(candle.trades).padEnd(6)} | ${candle.closed ? 'CLOSED' : 'OPEN'}`
+  );
+}
+
+/**
+ * CLI command to build OHLCV candles from market fills.
+ */
+const candles: CommandModule<{}, CandlesArgs> = {
+  command: 'candles <market>',
+  describe: 'Build OHLCV candles from market fills',
+  builder: (yargs) =>
+    yargs
+      .positional('market', {
+        type: 'string',
+        demandOption: true,
+        description: 'Market public key',
+      })
+      .option('interval', {
+        type: 'string',
+        choices: Object.keys(CANDLE_INTERVALS) as CandleInterval[],
+        default: '1m' as CandleInterval,
+        description: 'Candle interval',
+      })
+      .option('history', {
+        type: 'boolean',
+        description: "Build candles from the market's recent transactions and exit",
+      })
+      .option('limit', {
+        type: 'number',
+        default: 1000,
+        description: 'Number of recent market transactions scanned with --history',
+      })
+      .option('recording', {
+        type: 'string',
+        description: 'Build candles from a recording file and exit',
+      })
+      .conflicts('history', 'recording')
+      .check((argv) => {
+        if (!Number.isInteger(argv.limit) || argv.limit <= 0) {
+          throw new Error('--limit must be a positive integer.');
+        }
+        return true;
+      }),
+  handler: async (argv) => {
+    const marketPubkey = loadPublicKey(argv.market);
+    const toResult = (candle: Candle, closed: boolean): CandleResult => ({
+      market: marketPubkey.toBase58(),
+      interval: argv.interval,
+      ...candle,
+      closed,
+    });
+
+    try {
+      // Offline and historical modes: aggregate all fills at once
+      if (argv.recording || argv.history) {
+        let fills: TapeEvent[] = [];
+        if (argv.recording) {
+          logger.info(`Reading fills of market ${marketPubkey.toBase58()} from ${argv.recording}...`);
+          for await (const entry of readRecording(argv.recording)) {
+            if (entry.type === 'event' && entry.market === marketPubkey.toBase58()) {
+              fills.push(entry.event);
+            }
+          }
+        } else {
+          const connection = createConnection();
+          const client = createClient(createProvider(connection, createStubWallet()));
+          logger.info(`Loading market: ${marketPubkey.toBase58()}...`);
+          const market = await Market.load(client, marketPubkey);
+          fills = await fetchFillHistory(connection, market, argv.limit);
+        }
+
+        // Every candle but the one of the current interval is complete
+        const now = Date.now();
+        const results = aggregateCandles(fills, argv.interval).map((candle) =>
+          toResult(candle, Date.parse(candle.closeTime) <= now)
+        );
+        logger.info(`Built ${results.length} candle(s) from ${fills.filter((fill) => fill.type === 'fill').length} fill(s).`);
+
+        if (isTableOutput()) {
+          printHeader();
+        }
+        for (const result of results) {
+          emitResult(result);
+          if (isTableOutput()) {
+            printCandle(result);
+          }
+        }
+        return;
+      }
+
+      // Live mode: stream fills from the event heap
+      const connection = createConnection();
+      const client = createClient(createProvider(connection, createStubWallet()));
+      logger.info(`Loading market: ${marketPubkey.toBase58()}...`);
+      const market = await Market.load(client, marketPubkey);
+      await market.loadEventHeap();
+
+      const rows: CandleResult[] = [];
+      let current: Candle | null = null;
+      let currentClosed = false;
+
+      const publish = (candle: Candle, closed: boolean) => {
+        const result = toResult(candle, closed);
+        emitResult(result);
+        if (isTableOutput()) {
+          // Replace the row of the same candle, or append a new one
+          if (rows.length > 0 && rows[rows.length - 1].openTime === result.openTime) {
+            rows[rows.length - 1] = result;
+          } else {
+            rows.push(result);
+            rows.splice(0, rows.length - LIVE_ROWS);
+          }
+          console.clear();
+          printHeader();
+          rows.forEach(printCandle);
+        }
+      };
+
+      logger.info(`Building ${argv.interval} candles from live fills...`);
+      watchEventHeap(connection, market, (events) => {
+        let updated = false;
+        for (const event of events) {
+          if (event.type !== 'fill') continue;
+          const next = addFill(current, event, argv.interval);
+          if (next !== current) {
+            // A fill of a later interval completes the open candle
+            if (current !== null && !currentClosed) {
+              publish(current, true);
+            }
+            current = next;
+            currentClosed = false;
+          }
+          updated = true;
+        }
+        if (updated && current !== null) {
+          publish(current, currentClosed);
+        }
+      });
+
+      // Close the open candle once its interval has passed, even without a new fill
+      setInterval(() => {
+        if (current !== null && !currentClosed && Date.now() >= Date.parse(current.closeTime)) {
+          currentClosed = true;
+          publish(current, true);
+        }
+      }, 1000);
+    } catch (error) {
+      logger.error(`Error building candles: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default candles;
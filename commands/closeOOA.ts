@@ -5,17 +5,28 @@
  * - If `--openOrders` is provided, closes the specified OpenOrders account.
  * - If `--market` is provided, closes all OpenOrders accounts for that market.
  * - If `--closeIndexer` is provided, closes the OpenOrders indexer (only after all OpenOrders are closed).
+ * - If `--teardown` is provided, empties and closes every OpenOrders account of the owner in four steps:
+ *   cancel all resting orders, settle the funds to the owner's associated token accounts (creating missing ones),
+ *   close the emptied OpenOrders accounts and finally close the indexer once it lists no accounts.
+ *   Every step reloads the accounts, so an interrupted teardown continues where it stopped when rerun.
+ *   Accounts that cannot be emptied yet, e.g. with fills not yet processed by the event crank, are reported and
+ *   keep the indexer open. `--market` or `--openOrders` limit the teardown to those accounts.
+ *   The rent recovered by each step is printed in SOL.
  *
  * Example Usage:
  * npx ts-node cli.ts closeOOA --ownerKeypair <KEYPAIR_PATH> --openOrders <OPEN_ORDERS_PUBKEY>
  * npx ts-node cli.ts closeOOA --ownerKeypair <KEYPAIR_PATH> --market <MARKET_PUBKEY>
- * npx ts-node cli.ts closeOOA --ownerKeypair <KEYPAIR_PATH> --closeIndexer (does not work right now)
+ * npx ts-node cli.ts closeOOA --ownerKeypair <KEYPAIR_PATH> --closeIndexer
+ * npx ts-node cli.ts closeOOA --ownerKeypair <KEYPAIR_PATH> --teardown
  *
  * Parameters:
- * --ownerKeypair (Required): Path to the keypair file of the OpenOrders account owner.
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the OpenOrders account owner.
  * --market (Optional): Public key of the market (required if closing all OpenOrders accounts for a market).
  * --openOrders (Optional): Public key of a specific OpenOrders account to close.
- * --closeIndexer (Optional): If set, closes the OpenOrders indexer. (does not work right now)
+ * --closeIndexer (Optional): If set, closes the OpenOrders indexer and returns its rent. Fails while it still tracks OpenOrders accounts.
+ * --teardown (Optional): Cancel, settle and close all OpenOrders accounts, then close the indexer. Cannot be combined with --dry-run or --export.
+ * --dry-run (Optional): Simulate the close transactions and print the results without sending them.
+ * --signer, --export (Optional): Export the unsigned close transaction for offline signing. With --market, all accounts are closed in one transaction.
  */
 
 import { CommandModule } from 'yargs';
@@ -23,25 +34,94 @@ import {
   createConnection,
   createClient,
   createProvider,
-  loadKeypair,
   loadPublicKey,
   sendWithRetry,
   getDynamicPriorityFee,
+  packInstructions,
 } from '../utils/helper';
-import { Connection, PublicKey, TransactionInstruction, Keypair } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import { Wallet } from '@coral-xyz/anchor';
-import { getOpenBookErrorMessage } from '../utils/error';
+import { Connection, TransactionInstruction, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { ACCOUNT_SIZE } from '@solana/spl-token';
+import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
+import { type OpenBookV2Client } from '@openbook-dex/openbook-v2';
+import { getOpenBookErrorCode, getOpenBookErrorMessage, handleOpenBookError } from '../utils/error';
 import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
+import { checkOwnerArgs, exportTransaction, loadOwner, type OwnerArgs } from '../utils/offline';
+import { simulateInstructions } from '../utils/simulate';
+import {
+  buildSettleInstructions,
+  getSettleableAmounts,
+  isOpenOrdersEmpty,
+  loadWalletOpenOrders,
+  type WalletOpenOrders,
+} from '../utils/portfolio';
+import { closeOpenOrdersIndexerIx, loadOpenOrdersIndexer } from '../utils/indexer';
 
 /**
  * Interface defining the required arguments for the closeOOA command.
  */
-interface CloseOOAArgs {
-  ownerKeypair: string;
+interface CloseOOAArgs extends OwnerArgs {
   market?: string;
   openOrders?: string;
   closeIndexer?: boolean;
+  teardown?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output. One result is emitted per closed account (OpenOrders account or indexer).
+ * With --market, accounts that failed to close are reported with a null signature and the error message.
+ */
+interface CloseOOAResult {
+  account: string;
+  signature: string | null;
+  error: string | null;
+}
+
+type TeardownStep = 'cancel' | 'settle' | 'close' | 'closeIndexer';
+
+/**
+ * Outcome of one teardown step. rentRecovered is the net rent in SOL the step's confirmed transactions returned
+ * to the owner: closed accounts add their rent, token accounts created for settling subtract theirs.
+ */
+interface TeardownStepResult {
+  step: TeardownStep;
+  accounts: number;
+  transactions: number;
+  failed: number;
+  rentRecovered: number;
+  signatures: string[];
+}
+
+/**
+ * Result schema of --teardown in json/csv output. CSV output has one row per step.
+ * remaining lists the OpenOrders accounts that are still open; rerunning the teardown continues with them.
+ */
+interface TeardownResult {
+  owner: string;
+  steps: TeardownStepResult[];
+  rentRecovered: number;
+  remaining: string[];
+  indexerClosed: boolean;
+}
+
+/**
+ * An instruction of a teardown step and the rent in lamports it returns to the owner (negative if it pays rent).
+ */
+interface TeardownInstruction {
+  ix: TransactionInstruction;
+  rent: number;
+}
+
+/**
+ * Connection, client and owner shared by the teardown steps.
+ */
+interface TeardownContext {
+  connection: Connection;
+  provider: AnchorProvider;
+  client: OpenBookV2Client;
+  owner: Keypair;
+  priorityFee: bigint;
 }
 
 /**
@@ -55,8 +135,7 @@ const closeOOA: CommandModule<{}, CloseOOAArgs> = {
     yargs
       .option('ownerKeypair', {
         type: 'string',
-        demandOption: true,
-        description: 'Path to the owner keypair file',
+        description: 'Path to the owner keypair file (omit with --signer)',
       })
       .option('market', {
         type: 'string',
@@ -70,25 +149,39 @@ const closeOOA: CommandModule<{}, CloseOOAArgs> = {
       .option('closeIndexer', {
         type: 'boolean',
         description:
-          'Close the OpenOrders indexer (only one per owner, shared across all markets) DOES NOT WORK RIGHT NOW',
+          'Close the OpenOrders indexer (only one per owner, shared across all markets) once it tracks no accounts',
+      })
+      .option('teardown', {
+        type: 'boolean',
+        description: 'Cancel orders, settle funds and close all OpenOrders accounts, then close the indexer',
+      })
+      .conflicts('teardown', 'closeIndexer')
+      .check((argv) => {
+        if (argv.teardown && (argv.export || argv.dryRun)) {
+          throw new Error('--teardown sends several dependent transactions and cannot be combined with --export or --dry-run.');
+        }
+        return checkOwnerArgs(argv);
       }),
   handler: async (argv) => {
     // Initialize the Solana connection and load the owner's keypair.
     const connection: Connection = createConnection();
-    const owner = loadKeypair(argv.ownerKeypair);
+    const owner = loadOwner(argv);
     const wallet = new Wallet(owner);
     const provider = createProvider(connection, wallet);
     const client = createClient(provider);
-    const programId = client.program.programId;
 
     try {
-      if (argv.openOrders) {
+      if (argv.teardown) {
+        const priorityFee = await getDynamicPriorityFee(connection);
+        await teardown({ connection, provider, client, owner, priorityFee }, argv);
+        return;
+      } else if (argv.openOrders) {
         // Close a specific OpenOrders account
         const openOrdersPubkey = loadPublicKey(argv.openOrders);
         logger.info(`Closing OpenOrders account: ${openOrdersPubkey.toBase58()}`);
 
         // Derive the OpenOrders indexer PDA for the owner.
-        const openOrdersIndexer = findOpenOrdersIndexer(owner.publicKey, programId);
+        const openOrdersIndexer = client.findOpenOrdersIndexer(owner.publicKey);
         // Build the instruction and signers for closing the account.
         const [closeIx, signers] = await client.closeOpenOrdersAccountIx(
           owner,
@@ -98,9 +191,22 @@ const closeOOA: CommandModule<{}, CloseOOAArgs> = {
         );
 
         const priorityFee = await getDynamicPriorityFee(connection);
+        if (argv.dryRun) {
+          const simulation = await simulateInstructions(client, connection, owner.publicKey, [closeIx], priorityFee);
+          if (!simulation.success) {
+            process.exit(1);
+          }
+          return;
+        }
+        if (argv.export) {
+          await exportTransaction(connection, owner.publicKey, [closeIx], priorityFee, argv.export, argv.nonceAccount);
+          return;
+        }
+
         // Attempt to send the transaction (sendWithRetry now throws the raw error if it fails)
         const signature = await sendWithRetry(provider, connection, [closeIx], priorityFee);
         logger.info(`Closed OpenOrders account: ${openOrdersPubkey.toBase58()} (TX: ${signature})`);
+        emitResult({ account: openOrdersPubkey.toBase58(), signature, error: null } satisfies CloseOOAResult);
         return;
       } else if (argv.market) {
         // Close all OpenOrders accounts for a specific market
@@ -117,10 +223,32 @@ const closeOOA: CommandModule<{}, CloseOOAArgs> = {
         }
 
         logger.info(`Found ${openOrdersAccounts.length} OpenOrders accounts. Closing them...`);
+
+        if (argv.export) {
+          // Exported transactions are signed as a whole, so all accounts are closed in a single transaction
+          const openOrdersIndexer = client.findOpenOrdersIndexer(owner.publicKey);
+          const closeIxs: TransactionInstruction[] = [];
+          for (const openOrdersPubkey of openOrdersAccounts) {
+            const [closeIx] = await client.closeOpenOrdersAccountIx(
+              owner,
+              openOrdersPubkey,
+              owner.publicKey,
+              openOrdersIndexer
+            );
+            closeIxs.push(closeIx);
+          }
+          if (packInstructions(owner.publicKey, closeIxs).length > 1) {
+            throw new Error('Too many OpenOrders accounts to close in one exported transaction. Close them one by one with --openOrders.');
+          }
+          const priorityFee = await getDynamicPriorityFee(connection);
+          await exportTransaction(connection, owner.publicKey, closeIxs, priorityFee, argv.export, argv.nonceAccount);
+          return;
+        }
+
         for (const openOrdersPubkey of openOrdersAccounts) {
           try {
             // For each OpenOrders account, derive the indexer and attempt to close it.
-            const openOrdersIndexer = findOpenOrdersIndexer(owner.publicKey, programId);
+            const openOrdersIndexer = client.findOpenOrdersIndexer(owner.publicKey);
             logger.info(`Closing OpenOrders account: ${openOrdersPubkey.toBase58()}`);
 
             const [closeIx, signers] = await client.closeOpenOrdersAccountIx(
@@ -131,12 +259,23 @@ const closeOOA: CommandModule<{}, CloseOOAArgs> = {
             );
 
             const priorityFee = await getDynamicPriorityFee(connection);
+            if (argv.dryRun) {
+              // Simulate every account and keep going, like the real run does
+              await simulateInstructions(client, connection, owner.publicKey, [closeIx], priorityFee);
+              continue;
+            }
             const signature = await sendWithRetry(provider, connection, [closeIx], priorityFee);
             logger.info(`Closed OpenOrders account: ${openOrdersPubkey.toBase58()} (TX: ${signature})`);
+            emitResult({ account: openOrdersPubkey.toBase58(), signature, error: null } satisfies CloseOOAResult);
           } catch (error) {
             // Log a friendly message and process the error via our custom error handler.
             logger.error(`Failed to close OpenOrders account ${openOrdersPubkey.toBase58()}.`);
             handleOpenBookError(error);
+            emitResult({
+              account: openOrdersPubkey.toBase58(),
+              signature: null,
+              error: error instanceof Error ? error.message : String(error),
+            } satisfies CloseOOAResult);
             // Continue processing remaining accounts.
           }
         }
@@ -146,26 +285,44 @@ const closeOOA: CommandModule<{}, CloseOOAArgs> = {
         logger.info(`Closing OpenOrders indexer for owner: ${owner.publicKey.toBase58()}`);
 
         try {
-          const openOrdersIndexer = findOpenOrdersIndexer(owner.publicKey, programId);
-          const [closeIndexerIx, signers] = await closeOpenOrdersIndexerIx(
-            owner,
-            connection,
-            programId,
-            openOrdersIndexer
-          );
+          // The program only closes an indexer that no longer tracks any OpenOrders account
+          const indexer = await loadOpenOrdersIndexer(client, owner.publicKey);
+          if (!indexer) {
+            throw new Error(`Owner ${owner.publicKey.toBase58()} has no OpenOrders indexer.`);
+          }
+          if (indexer.account.addresses.length > 0) {
+            throw new Error(
+              `The indexer still tracks ${indexer.account.addresses.length} OpenOrders account(s). Close them first, or use --teardown.`
+            );
+          }
+
+          const closeIndexerIx = await closeOpenOrdersIndexerIx(client, owner.publicKey);
           const priorityFee = await getDynamicPriorityFee(connection);
+          if (argv.dryRun) {
+            const simulation = await simulateInstructions(client, connection, owner.publicKey, [closeIndexerIx], priorityFee);
+            if (!simulation.success) {
+              process.exit(1);
+            }
+            return;
+          }
+          if (argv.export) {
+            await exportTransaction(connection, owner.publicKey, [closeIndexerIx], priorityFee, argv.export, argv.nonceAccount);
+            return;
+          }
           const signature = await sendWithRetry(provider, connection, [closeIndexerIx], priorityFee);
-          logger.info(`Closed OpenOrders indexer (TX: ${signature})`);
+          logger.info(`Closed OpenOrders indexer, recovering ${indexer.lamports / LAMPORTS_PER_SOL} SOL of rent (TX: ${signature})`);
+          emitResult({ account: indexer.pubkey.toBase58(), signature, error: null } satisfies CloseOOAResult);
           return;
         } catch (error) {
-          logger.error(`Failed to close OpenOrders indexer. Currently there is a Bug in Openbooks code that prevents the OOAindexer to be closed.`);
-          handleOpenBookError(error);
-          // On a critical failure in closing the indexer, log a friendly message and exit.
+          logger.error('Failed to close OpenOrders indexer.');
+          if (!handleOpenBookError(error)) {
+            logger.error(error instanceof Error ? error.message : String(error));
+          }
           process.exit(1);
         }
       } else {
         // If none of the valid options are provided, log an error and exit.
-        logger.error('Invalid command: Provide either --openOrders, --market, or --closeIndexer.');
+        logger.error('Invalid command: Provide either --openOrders, --market, --closeIndexer or --teardown.');
         process.exit(1);
       }
     } catch (error) {
@@ -180,61 +337,147 @@ const closeOOA: CommandModule<{}, CloseOOAArgs> = {
 export default closeOOA;
 
 /**
- * Parses OpenBook errors and logs a human-readable message.
- * Returns `true` if an OpenBook error was identified and handled; otherwise, returns false.
+ * Tears down the owner's OpenOrders accounts: cancels their orders, settles their funds, closes them and
+ * closes the indexer once it is empty. Each step reloads the accounts and only handles what is left to do,
+ * so rerunning the command after an interruption or a failed transaction resumes the teardown.
  */
-function handleOpenBookError(error: any): boolean {
-  try {
-    if (!error || typeof error !== 'object') {
-      logger.error(`Invalid error format.`);
-      return false;
-    }
+async function teardown(context: TeardownContext, argv: CloseOOAArgs): Promise<void> {
+  const { client, connection, owner } = context;
+  const marketPubkey = argv.market ? loadPublicKey(argv.market) : undefined;
+  const openOrdersPubkey = argv.openOrders ? loadPublicKey(argv.openOrders) : undefined;
+  const loadTargets = async (): Promise<WalletOpenOrders[]> =>
+    (await loadWalletOpenOrders(client, owner.publicKey)).filter(
+      ({ pubkey, market }) =>
+        (!marketPubkey || market.pubkey.equals(marketPubkey)) && (!openOrdersPubkey || pubkey.equals(openOrdersPubkey))
+    );
+  const steps: TeardownStepResult[] = [];
 
-    // Check if the error contains an InstructionError field.
-    if (error?.err?.InstructionError) {
-      const [_, errorData] = error.err.InstructionError;
-      if (typeof errorData === 'object' && errorData !== null && 'Custom' in errorData) {
-        const errorCode = errorData.Custom;
-        const errorMessage = getOpenBookErrorMessage(errorCode);
-        logger.error(`OpenBook Error (${errorCode}): ${errorMessage}`);
-        return true;
-      }
-    }
-    return false;
-  } catch (e) {
-    logger.error('Error processing OpenBook error.');
-    return false;
+  // 1. Cancel all resting orders
+  let targets = await loadTargets();
+  logger.info(`Tearing down ${targets.length} OpenOrders account(s) of ${owner.publicKey.toBase58()}...`);
+  const withOrders = targets.filter(({ account }) => account.openOrders.some((slot) => !slot.isFree));
+  const cancelIxs: TeardownInstruction[] = [];
+  for (const { pubkey, account, market } of withOrders) {
+    const [ix] = await client.cancelAllOrdersIx(pubkey, account, market.account, account.openOrders.length, null);
+    cancelIxs.push({ ix, rent: 0 });
   }
-}
+  steps.push(await runTeardownStep(context, 'cancel', withOrders.length, cancelIxs));
 
-/**
- * Derives the OpenOrdersIndexer PDA for a given owner.
- */
-function findOpenOrdersIndexer(owner: PublicKey, programId: PublicKey): PublicKey {
-  return PublicKey.findProgramAddressSync(
-    [Buffer.from('OpenOrdersIndexer'), owner.toBuffer()],
-    programId
-  )[0];
+  // 2. Settle the released and free funds, which also pays pending penalties
+  targets = await loadTargets();
+  const withFunds = targets.filter((entry) => {
+    const { base, quote } = getSettleableAmounts(entry);
+    return base > 0 || quote > 0 || !entry.account.position.penaltyHeapCount.isZero();
+  });
+  const { createAtaIxs, settleIxs } = await buildSettleInstructions(client, owner.publicKey, withFunds);
+  const tokenAccountRent = createAtaIxs.length > 0 ? await connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE) : 0;
+  steps.push(
+    await runTeardownStep(context, 'settle', withFunds.length, [
+      ...createAtaIxs.map((ix) => ({ ix, rent: -tokenAccountRent })),
+      ...settleIxs.map((ix) => ({ ix, rent: 0 })),
+    ])
+  );
+
+  // 3. Close the accounts that are empty now
+  targets = await loadTargets();
+  const emptied = targets.filter(({ account }) => isOpenOrdersEmpty(account));
+  const openOrdersIndexer = client.findOpenOrdersIndexer(owner.publicKey);
+  const closeIxs: TeardownInstruction[] = [];
+  for (const { pubkey, lamports } of emptied) {
+    const [ix] = await client.closeOpenOrdersAccountIx(owner, pubkey, owner.publicKey, openOrdersIndexer);
+    closeIxs.push({ ix, rent: lamports });
+  }
+  steps.push(await runTeardownStep(context, 'close', emptied.length, closeIxs));
+
+  const remaining = (await loadTargets()).map(({ pubkey }) => pubkey.toBase58());
+  if (remaining.length > 0) {
+    logger.warn(
+      `${remaining.length} OpenOrders account(s) could not be closed yet, e.g. because fills of their orders ` +
+        'have not been processed by the event crank. Rerun the teardown later to continue with:'
+    );
+    remaining.forEach((pubkey) => logger.warn(`  ${pubkey}`));
+  }
+
+  // 4. Close the indexer once it no longer lists any account
+  const indexer = await loadOpenOrdersIndexer(client, owner.publicKey);
+  const indexerIxs: TeardownInstruction[] = [];
+  if (!indexer) {
+    logger.info('No OpenOrders indexer to close.');
+  } else if (indexer.account.addresses.length > 0) {
+    logger.info(`The OpenOrders indexer still lists ${indexer.account.addresses.length} account(s) and stays open.`);
+  } else {
+    indexerIxs.push({ ix: await closeOpenOrdersIndexerIx(client, owner.publicKey), rent: indexer.lamports });
+  }
+  const indexerStep = await runTeardownStep(context, 'closeIndexer', indexerIxs.length, indexerIxs);
+  steps.push(indexerStep);
+
+  const result: TeardownResult = {
+    owner: owner.publicKey.toBase58(),
+    steps,
+    // Summed in lamports to avoid floating point drift
+    rentRecovered: steps.reduce((sum, step) => sum + Math.round(step.rentRecovered * LAMPORTS_PER_SOL), 0) / LAMPORTS_PER_SOL,
+    remaining,
+    indexerClosed: indexerStep.signatures.length > 0,
+  };
+  emitResult(result, steps);
+  logger.info(`Teardown recovered ${result.rentRecovered} SOL of rent in total.`);
+
+  const failed = steps.reduce((sum, step) => sum + step.failed, 0);
+  if (failed > 0 || remaining.length > 0) {
+    logger.error(
+      `Teardown incomplete: ${failed} transaction(s) failed, ${remaining.length} account(s) remain. Rerun the command to continue.`
+    );
+    process.exit(1);
+  }
+  logger.info('Teardown complete.');
 }
 
 /**
- * Constructs the transaction instruction to close the OpenOrders indexer.
+ * Packs and sends the instructions of a teardown step, continuing with the next transaction when one fails.
+ * @returns The step's outcome, with the rent of the confirmed transactions only.
  */
-async function closeOpenOrdersIndexerIx(
-  owner: Keypair,
-  connection: Connection,
-  programId: PublicKey,
-  openOrdersIndexer: PublicKey
-): Promise<[TransactionInstruction, Keypair[]]> {
-  const ix = new TransactionInstruction({
-    keys: [
-      { pubkey: owner.publicKey, isSigner: true, isWritable: false },
-      { pubkey: openOrdersIndexer, isSigner: false, isWritable: true },
-      { pubkey: owner.publicKey, isSigner: false, isWritable: true },
-      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
-    ],
-    programId,
-    data: Buffer.alloc(0),
-  });
-  return [ix, [owner]];
+async function runTeardownStep(
+  context: TeardownContext,
+  step: TeardownStep,
+  accounts: number,
+  instructions: TeardownInstruction[]
+): Promise<TeardownStepResult> {
+  const { connection, provider, owner, priorityFee } = context;
+  const result: TeardownStepResult = { step, accounts, transactions: 0, failed: 0, rentRecovered: 0, signatures: [] };
+  if (instructions.length === 0) {
+    logger.info(`[${step}] Nothing to do.`);
+    return result;
+  }
+
+  const transactions = packInstructions(owner.publicKey, instructions.map(({ ix }) => ix));
+  result.transactions = transactions.length;
+  logger.info(`[${step}] ${accounts} account(s) in ${transactions.length} transaction(s)...`);
+
+  let instructionIndex = 0;
+  let lamports = 0;
+  for (const [txIndex, ixs] of transactions.entries()) {
+    // Packing keeps the instruction order, so each transaction covers the next slice of instructions
+    const rent = instructions
+      .slice(instructionIndex, instructionIndex + ixs.length)
+      .reduce((sum, instruction) => sum + instruction.rent, 0);
+    instructionIndex += ixs.length;
+    try {
+      const signature = await sendWithRetry(provider, connection, ixs, priorityFee);
+      result.signatures.push(signature);
+      lamports += rent;
+      logger.info(`[${step}] Transaction ${txIndex + 1}/${transactions.length} confirmed (TX: ${signature})`);
+    } catch (error) {
+      result.failed++;
+      const errorCode = getOpenBookErrorCode(error);
+      const message =
+        errorCode !== null
+          ? `OpenBook Error (${errorCode}): ${getOpenBookErrorMessage(errorCode)}`
+          : `${error instanceof Error ? error.message : error}`;
+      logger.error(`[${step}] Transaction ${txIndex + 1}/${transactions.length} failed: ${message}`);
+    }
+  }
+
+  result.rentRecovered = lamports / LAMPORTS_PER_SOL;
+  logger.info(`[${step}] Rent recovered: ${result.rentRecovered} SOL`);
+  return result;
 }
@@ -6,11 +6,14 @@
  *
  * Example Usage
  * npx ts-node cli.ts createOOA --market <MARKET_PUBKEY> --ownerKeypair <KEYPAIR_FILE_PATH> --name <ACCOUNT_NAME>
+ * npx ts-node cli.ts createOOA --market <MARKET_PUBKEY> --ownerKeypair <KEYPAIR_FILE_PATH> --delegate <DELEGATE_PUBKEY>
  *  
  * Parameters
  * --market (Required): Public key of the market where the OpenOrders account will be created.
- * --ownerKeypair (Required): Path to the keypair file of the owner.
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the owner.
  * --name (Optional, default: "default"): Name for the OpenOrders account.
+ * --delegate (Optional): Public key of a delegate that may place and cancel orders on the account, e.g. a bot's hot key.
+ * --dry-run (Optional): Simulate the account creation and print the result without sending it.
  * 
  */
 import { CommandModule } from 'yargs';
@@ -18,22 +21,33 @@ import {
   createConnection,
   createProvider,
   createClient,
-  loadKeypair,
   loadPublicKey,
   sendWithRetry,
   getDynamicPriorityFee,
 } from '../utils/helper';
 import { Wallet } from '@coral-xyz/anchor';
 import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
+import { checkOwnerArgs, exportTransaction, loadOwner, type OwnerArgs } from '../utils/offline';
+import { simulateInstructions } from '../utils/simulate';
 import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
 
 /**
  * Interface defining the required arguments for the createOOA command.
  */
-interface CreateOOAArgs {
+interface CreateOOAArgs extends OwnerArgs {
   market: string;
-  ownerKeypair: string;
   name: string;
+  delegate?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output.
+ */
+interface CreateOOAResult {
+  openOrdersAccount: string;
+  signature: string;
 }
 
 /**
@@ -51,20 +65,24 @@ const createOOA: CommandModule<{}, CreateOOAArgs> = {
       })
       .option('ownerKeypair', {
         type: 'string',
-        demandOption: true,
-        description: 'Path to the owner keypair file',
+        description: 'Path to the owner keypair file (omit with --signer)',
       })
       .option('name', {
         type: 'string',
         default: 'default',
         description: 'Name for the OpenOrders account',
-      }),
+      })
+      .option('delegate', {
+        type: 'string',
+        description: 'Public key of a delegate allowed to place and cancel orders',
+      })
+      .check(checkOwnerArgs),
   handler: async (argv) => {
     // Initialize Solana connection
     const connection: Connection = createConnection();
 
     // Load the owner's keypair
-    const owner = loadKeypair(argv.ownerKeypair);
+    const owner = loadOwner(argv);
 
     // Create a wallet and provider
     const wallet = new Wallet(owner);
@@ -75,11 +93,15 @@ const createOOA: CommandModule<{}, CreateOOAArgs> = {
 
     // Load the market public key
     const marketPubkey = loadPublicKey(argv.market);
+    const delegatePubkey = argv.delegate ? loadPublicKey(argv.delegate) : null;
 
     try {
       // Logging user and market info
       logger.info(`Using wallet: ${owner.publicKey.toBase58()}`);
       logger.info(`Market: ${marketPubkey.toBase58()}`);
+      if (delegatePubkey) {
+        logger.info(`Delegate: ${delegatePubkey.toBase58()}`);
+      }
       logger.info('Creating OpenOrders account...');
 
       // Determine the OpenOrders Indexer for the owner
@@ -93,10 +115,24 @@ const createOOA: CommandModule<{}, CreateOOAArgs> = {
         marketPubkey,      // Market PublicKey
         argv.name,         // Account name
         owner.publicKey,   // Owner's PublicKey
-        null,              // No delegate account
+        delegatePubkey,    // Optional delegate account
         openOrdersIndexer  // OpenOrders Indexer
       );
 
+      if (argv.dryRun) {
+        const simulation = await simulateInstructions(client, connection, owner.publicKey, createOpenOrdersIx, priorityFee);
+        if (!simulation.success) {
+          process.exit(1);
+        }
+        logger.info(`OpenOrders account would be created at: ${openOrdersAccountPubkey.toBase58()}`);
+        return;
+      }
+
+      if (argv.export) {
+        await exportTransaction(connection, owner.publicKey, createOpenOrdersIx, priorityFee, argv.export, argv.nonceAccount);
+        return;
+      }
+
       // Send transaction with retry mechanism
       const txSignature = await sendWithRetry(provider, connection, createOpenOrdersIx, priorityFee);
 
@@ -104,6 +140,12 @@ const createOOA: CommandModule<{}, CreateOOAArgs> = {
       logger.info(`OpenOrders account created successfully: ${openOrdersAccountPubkey.toBase58()}`);
       logger.info(`Transaction Signature: ${txSignature}`);
 
+      const result: CreateOOAResult = {
+        openOrdersAccount: openOrdersAccountPubkey.toBase58(),
+        signature: txSignature,
+      };
+      emitResult(result);
+
     } catch (error) {
       // Handle errors and log details
       logger.error('Error occurred while creating OpenOrders account:');
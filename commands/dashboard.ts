@@ -0,0 +1,233 @@
+/**
+ * CLI Command: dashboard
+ *
+ * Description
+ * Displays a refreshing table of several markets at once: best bid, best ask, spread in basis points, mid price,
+ * the size resting in the top levels of each side and the last trade.
+ * All markets share one connection and are refreshed with batched account fetches (bids, asks and event heaps
+ * of every market in as few requests as possible). The last trade is the newest fill seen on a market's
+ * event heap since the dashboard started.
+ *
+ * Example Usage
+ * npx ts-node cli.ts dashboard <MARKET_PUBLIC_KEY> <MARKET_PUBLIC_KEY> <MARKET_PUBLIC_KEY>
+ * npx ts-node cli.ts dashboard --watchlist watchlist.txt --depth 10 --refresh 2000
+ *
+ * Parameters
+ * --markets (Optional): Public keys of the markets to display.
+ * --watchlist (Optional): File with market public keys, one per line. Empty lines and lines starting with # are ignored.
+ * --depth (Optional, default: 5): Number of price levels summed for the depth columns.
+ * --refresh (Optional, default: 1000): Refresh interval in milliseconds.
+ */
+
+import { CommandModule } from 'yargs';
+import fs from 'fs';
+import { BN } from '@coral-xyz/anchor';
+import { type EventHeap, nameToString } from '@openbook-dex/openbook-v2';
+import { createConnection, createProvider, createClient, loadPublicKey, createStubWallet } from '../utils/helper';
+import logger from '../utils/logger';
+import { emitResult, isTableOutput } from '../utils/output';
+import { getL2Levels, loadMarkets, loadOrderBooks } from '../utils/orderBook';
+import { decodeEventHeap, type TapeEvent } from '../utils/trades';
+import { DEFAULTS } from '../utils/config';
+
+/**
+ * Interface defining the arguments for the dashboard command.
+ */
+interface DashboardArgs {
+  markets?: string[];
+  watchlist?: string;
+  depth: number;
+  refresh: number;
+}
+
+/**
+ * Result schema in json/csv output: one row per market, emitted whenever the market's row changes.
+ * Depths are base units summed over the top `depth` levels. Prices are null when a side is empty,
+ * last trade fields are null until a fill has been seen.
+ */
+interface DashboardRow {
+  timestamp: string;
+  market: string;
+  name: string;
+  bestBid: number | null;
+  bestAsk: number | null;
+  spreadBps: number | null;
+  mid: number | null;
+  bidDepth: number;
+  askDepth: number;
+  lastPrice: number | null;
+  lastSize: number | null;
+  lastSide: 'bid' | 'ask' | null;
+  lastTime: string | null;
+}
+
+/**
+ * Reads the market public keys of a watchlist file.
+ */
+function readWatchlist(filePath: string): string[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Watchlist not found: ${filePath}`);
+  }
+  return fs
+    .readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+}
+
+/**
+ * Formats an optional number for the table.
+ */
+function formatValue(value: number | null, decimals: number = 4): string {
+  return value === null ? 'N/A' : value.toFixed(decimals);
+}
+
+/**
+ * Redraws the dashboard table.
+ */
+function printDashboard(rows: DashboardRow[], depth: number, timestamp: string): void {
+  console.clear();
+  console.log(`OpenBook Dashboard - ${timestamp}`);
+  console.log(
+    `${'Market'.padEnd(16)} | ${'Best Bid'.padEnd(12)} | ${'Best Ask'.padEnd(12)} | ${'Spread (bps)'.padEnd(12)} | ` +
+      `${'Mid'.padEnd(12)} | ${`Bid Depth (${depth})`.padEnd(15)} | ${`Ask Depth (${depth})`.padEnd(15)} | Last Trade`
+  );
+  console.log('-'.repeat(140));
+  for (const row of rows) {
+    const lastTrade =
+      row.lastPrice === null
+        ? 'N/A'
+        : `${row.lastSide?.toUpperCase()} ${formatValue(row.lastSize)} @ ${formatValue(row.lastPrice)}`;
+    console.log(
+      `${row.name.slice(0, 16).padEnd(16)} | ${formatValue(row.bestBid).padEnd(12)} | ${formatValue(row.bestAsk).padEnd(12)} | ` +
+        `${formatValue(row.spreadBps, 2).padEnd(12)} | ${formatValue(row.mid).padEnd(12)} | ` +
+        `${formatValue(row.bidDepth).padEnd(15)} | ${formatValue(row.askDepth).padEnd(15)} | ${lastTrade}`
+    );
+  }
+}
+
+/**
+ * CLI command to display a live dashboard of several markets.
+ */
+const dashboard: CommandModule<{}, DashboardArgs> = {
+  command: 'dashboard [markets..]',
+  describe: 'Display a live dashboard of several markets',
+  builder: (yargs) =>
+    yargs
+      .positional('markets', {
+        type: 'string',
+        array: true,
+        description: 'Market public keys',
+      })
+      .option('watchlist', {
+        type: 'string',
+        description: 'File with market public keys, one per line',
+      })
+      .option('depth', {
+        type: 'number',
+        default: 5,
+        description: 'Number of price levels summed for the depth columns',
+      })
+      .option('refresh', {
+        type: 'number',
+        default: DEFAULTS.REFRESH_INTERVAL_MS,
+        description: 'Refresh interval in milliseconds',
+      })
+      .check((argv) => {
+        if (!argv.markets?.length && !argv.watchlist) {
+          throw new Error('Provide market public keys or a --watchlist file.');
+        }
+        if (!Number.isInteger(argv.depth) || argv.depth <= 0) {
+          throw new Error('--depth must be a positive integer.');
+        }
+        if (!(argv.refresh > 0)) {
+          throw new Error('--refresh must be a positive number.');
+        }
+        return true;
+      }),
+  handler: async (argv) => {
+    // One connection and client shared by every market
+    const connection = createConnection();
+    const wallet = createStubWallet();
+    const provider = createProvider(connection, wallet);
+    const client = createClient(provider);
+
+    try {
+      const keys = [...(argv.markets ?? []), ...(argv.watchlist ? readWatchlist(argv.watchlist) : [])];
+      const pubkeys = [...new Set(keys.map((key) => loadPublicKey(key).toBase58()))].map((key) => loadPublicKey(key));
+
+      logger.info(`Loading ${pubkeys.length} market(s)...`);
+      const markets = await loadMarkets(client, pubkeys);
+
+      // Newest fill and last emitted row of each market
+      const lastFills = new Map<string, TapeEvent>();
+      const lastRows = new Map<string, string>();
+
+      const refresh = async () => {
+        await loadOrderBooks(connection, markets, true);
+        const timestamp = new Date().toISOString();
+
+        const rows = markets.map((market): DashboardRow => {
+          const key = market.pubkey.toBase58();
+          const bids = getL2Levels(market, 'bid', argv.depth);
+          const asks = getL2Levels(market, 'ask', argv.depth);
+          const bestBid = bids[0]?.[0] ?? null;
+          const bestAsk = asks[0]?.[0] ?? null;
+          const mid = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+          const spreadBps = bestBid !== null && bestAsk !== null ? ((bestAsk - bestBid) / mid!) * 10_000 : null;
+
+          const fills = decodeEventHeap(market.eventHeap as EventHeap).filter((event) => event.type === 'fill');
+          const newest = fills[fills.length - 1];
+          const previous = lastFills.get(key);
+          if (newest && (!previous || new BN(newest.seqNum).gt(new BN(previous.seqNum)))) {
+            lastFills.set(key, newest);
+          }
+          const lastFill = lastFills.get(key);
+
+          return {
+            timestamp,
+            market: key,
+            name: nameToString(market.account.name),
+            bestBid,
+            bestAsk,
+            spreadBps,
+            mid,
+            bidDepth: bids.reduce((sum, [, size]) => sum + size, 0),
+            askDepth: asks.reduce((sum, [, size]) => sum + size, 0),
+            lastPrice: lastFill?.price ?? null,
+            lastSize: lastFill?.size ?? null,
+            lastSide: lastFill?.side ?? null,
+            lastTime: lastFill?.timestamp ?? null,
+          };
+        });
+
+        // Only emit the rows that changed
+        for (const row of rows) {
+          const state = JSON.stringify({ ...row, timestamp: undefined });
+          if (lastRows.get(row.market) !== state) {
+            lastRows.set(row.market, state);
+            emitResult(row);
+          }
+        }
+        if (isTableOutput()) {
+          printDashboard(rows, argv.depth, timestamp);
+        }
+      };
+
+      // Refresh sequentially so that slow requests never overlap
+      for (;;) {
+        try {
+          await refresh();
+        } catch (error) {
+          logger.warn(`Dashboard refresh failed: ${(error as Error).message}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, argv.refresh));
+      }
+    } catch (error) {
+      logger.error(`Error running dashboard: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default dashboard;
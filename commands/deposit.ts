@@ -4,6 +4,10 @@
  * Description
  * Deposits funds into an OpenOrders account for a specified market on OpenBook DEX. 
  * This allows users to provide liquidity for trading by adding base and quote token amounts.
+ * Missing associated token accounts are created in the same transaction, and the wallet balances are checked
+ * before the transaction is built. If a side of the market is wrapped SOL, the missing amount is wrapped from
+ * the wallet's SOL in the same transaction. A wSOL account created for the deposit is closed again afterwards,
+ * unless --keepWsol is set; an existing wSOL account is topped up and stays open.
  *
  * Example Usage
  * npx ts-node cli.ts deposit --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_FILE_PATH> --baseAmount <BASE_AMOUNT> --quoteAmount <QUOTE_AMOUNT>
@@ -11,9 +15,11 @@
  * Parameters
  * --market (Required): Public key of the market where funds will be deposited.
  * --openOrders (Required): Public key of the OpenOrders account receiving the deposit.
- * --ownerKeypair (Required): Path to the keypair file of the account owner.
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the account owner.
  * --baseAmount (Required): Amount of base tokens (e.g., SOL, USDC) to deposit.
  * --quoteAmount (Required): Amount of quote tokens to deposit.
+ * --keepWsol (Optional): Keep a wSOL account created for the deposit open instead of closing it in the same transaction.
+ * --dry-run (Optional): Simulate the deposit and print the result without sending it.
  * 
  */
 
@@ -21,29 +27,43 @@ import { CommandModule } from 'yargs';
 import {
   createConnection,
   createClient,
-  loadKeypair,
   loadPublicKey,
   sendWithRetry,
   getDynamicPriorityFee
 } from '../utils/helper';
-import { getAssociatedTokenAddress } from '@solana/spl-token';
 import { toNative } from '@openbook-dex/openbook-v2';
 import {
   Connection,
+  LAMPORTS_PER_SOL,
   TransactionInstruction,
 } from '@solana/web3.js';
 import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
 import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
+import { checkOwnerArgs, exportTransaction, loadOwner, type OwnerArgs } from '../utils/offline';
+import { simulateInstructions } from '../utils/simulate';
+import { prepareDepositSource } from '../utils/wsol';
 
 /**
  * Interface defining the required arguments for the deposit command.
  */
-interface DepositArgs {
+interface DepositArgs extends OwnerArgs {
   market: string;
   openOrders: string;
-  ownerKeypair: string;
   baseAmount: number;
   quoteAmount: number;
+  keepWsol?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output. Amounts are in UI units; wrappedSol is the SOL wrapped for the deposit.
+ */
+interface DepositResult {
+  signature: string;
+  baseAmount: number;
+  quoteAmount: number;
+  wrappedSol: number;
 }
 
 /**
@@ -57,13 +77,15 @@ const deposit: CommandModule<{}, DepositArgs> = {
     yargs
       .option('market', { type: 'string', demandOption: true, description: 'Market public key' })
       .option('openOrders', { type: 'string', demandOption: true, description: 'OpenOrders account public key' })
-      .option('ownerKeypair', { type: 'string', demandOption: true, description: 'Path to owner keypair file' })
+      .option('ownerKeypair', { type: 'string', description: 'Path to owner keypair file (omit with --signer)' })
       .option('baseAmount', { type: 'number', demandOption: true, description: 'Amount of base currency to deposit' })
-      .option('quoteAmount', { type: 'number', demandOption: true, description: 'Amount of quote currency to deposit' }),
+      .option('quoteAmount', { type: 'number', demandOption: true, description: 'Amount of quote currency to deposit' })
+      .option('keepWsol', { type: 'boolean', description: 'Keep a wSOL account created for the deposit open' })
+      .check(checkOwnerArgs),
   handler: async (argv) => {
     // Initialize Solana connection and load keypair
     const connection: Connection = createConnection();
-    const owner = loadKeypair(argv.ownerKeypair);
+    const owner = loadOwner(argv);
 
     const wallet = new Wallet(owner);
     const provider = new AnchorProvider(connection, wallet, { commitment: 'confirmed' });
@@ -96,38 +118,84 @@ const deposit: CommandModule<{}, DepositArgs> = {
         throw new Error('OpenOrders account does not belong to the specified market.');
       }
 
-      // Ensure associated token accounts exist
-      logger.info('Ensuring associated token accounts...');
-      const baseTokenAccount = await getAssociatedTokenAddress(marketAccount.baseMint, owner.publicKey, true);
-      const quoteTokenAccount = await getAssociatedTokenAddress(marketAccount.quoteMint, owner.publicKey, true);
-
       // Convert UI amounts to native token amounts
       logger.info('Converting UI amounts to native amounts...');
       const baseAmountNative = toNative(argv.baseAmount, marketAccount.baseDecimals);
       const quoteAmountNative = toNative(argv.quoteAmount, marketAccount.quoteDecimals);
 
+      // Check balances, and prepare the token accounts and SOL wrapping
+      logger.info('Checking wallet balances and token accounts...');
+      const baseSource = await prepareDepositSource(
+        connection,
+        owner.publicKey,
+        marketAccount.baseMint,
+        baseAmountNative,
+        marketAccount.baseDecimals,
+        argv.keepWsol
+      );
+      const quoteSource = await prepareDepositSource(
+        connection,
+        owner.publicKey,
+        marketAccount.quoteMint,
+        quoteAmountNative,
+        marketAccount.quoteDecimals,
+        argv.keepWsol
+      );
+      const wrappedLamports = baseSource.wrappedLamports + quoteSource.wrappedLamports;
+      if (wrappedLamports > 0) {
+        logger.info(`Wrapping ${wrappedLamports / LAMPORTS_PER_SOL} SOL for the deposit.`);
+      }
+
       // Prepare transaction instruction for deposit
       logger.info('Preparing token deposit...');
       const depositIx: TransactionInstruction = await client.depositIx(
         openOrdersPubkey,
         openOrdersAccount,
         marketAccount,
-        baseTokenAccount,
-        quoteTokenAccount,
+        baseSource.tokenAccount,
+        quoteSource.tokenAccount,
         baseAmountNative,
         quoteAmountNative
       );
+      const instructions = [
+        ...baseSource.setupIxs,
+        ...quoteSource.setupIxs,
+        depositIx,
+        ...baseSource.cleanupIxs,
+        ...quoteSource.cleanupIxs,
+      ];
 
       // Fetch dynamic priority fee
       const finalPriorityFee = await getDynamicPriorityFee(connection);
 
+      if (argv.dryRun) {
+        const simulation = await simulateInstructions(client, connection, owner.publicKey, instructions, finalPriorityFee);
+        if (!simulation.success) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (argv.export) {
+        await exportTransaction(connection, owner.publicKey, instructions, finalPriorityFee, argv.export, argv.nonceAccount);
+        return;
+      }
+
       // Execute transaction with retry logic
-      const signature = await sendWithRetry(provider, connection, [depositIx], finalPriorityFee);
+      const signature = await sendWithRetry(provider, connection, instructions, finalPriorityFee);
 
       logger.info(`Transaction ${signature} successfully confirmed.`);
+
+      const result: DepositResult = {
+        signature,
+        baseAmount: argv.baseAmount,
+        quoteAmount: argv.quoteAmount,
+        wrappedSol: wrappedLamports / LAMPORTS_PER_SOL,
+      };
+      emitResult(result);
     } catch (error) {
       if (error instanceof Error) {
-        logger.error('Error occurred while depositing funds:', error.message);
+        logger.error(`Error occurred while depositing funds: ${error.message}`);
       } else {
         logger.error('Unknown error occurred during deposit process.');
       }
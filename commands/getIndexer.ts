@@ -0,0 +1,227 @@
+/**
+ * CLI Command: getIndexer
+ *
+ * Description
+ * Decodes the OpenOrdersIndexer of an owner and lists the OpenOrders accounts it tracks, with their account
+ * number, market and name. The indexer is read directly and compared with the accounts that findAllOpenOrders
+ * returns. Every OpenOrders address derived from the indexer's created counter is checked as well, to find
+ * accounts of the owner that the indexer does not track. Mismatches are flagged per account:
+ * accounts listed twice, listed by only one of the two sources, listed but no longer existing,
+ * owned by another wallet, or existing without being tracked.
+ *
+ * Example Usage
+ * npx ts-node cli.ts getIndexer <OWNER_PUBLIC_KEY>
+ * npx ts-node cli.ts getIndexer <OWNER_PUBLIC_KEY> --output json
+ *
+ * Parameters
+ * --owner (Required): Public key of the owner of the indexer.
+ */
+
+import { CommandModule } from 'yargs';
+import { LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { BN } from '@coral-xyz/anchor';
+import { nameToString, type OpenOrdersAccount } from '@openbook-dex/openbook-v2';
+import {
+  createConnection,
+  createProvider,
+  createClient,
+  loadPublicKey,
+  createStubWallet,
+  getMultipleAccountsBatched,
+} from '../utils/helper';
+import logger from '../utils/logger';
+import { emitResult, isTableOutput } from '../utils/output';
+import { loadOpenOrdersIndexer } from '../utils/indexer';
+
+/**
+ * Interface defining the arguments for the getIndexer command.
+ */
+interface GetIndexerArgs {
+  owner: string;
+}
+
+/**
+ * An OpenOrders account listed by the indexer, returned by findAllOpenOrders or derived from the created counter.
+ * accountNum, market and name are null if the account does not exist. issue describes the mismatches of the
+ * account, and is null if there are none.
+ */
+interface IndexerEntry {
+  address: string;
+  accountNum: number | null;
+  market: string | null;
+  name: string | null;
+  inIndexer: boolean;
+  inFindAllOpenOrders: boolean;
+  exists: boolean;
+  issue: string | null;
+}
+
+/**
+ * Result schema in json/csv output. CSV output has one row per account.
+ * rent is the indexer's balance in SOL; rent and createdCounter are null if the owner has no indexer.
+ */
+interface GetIndexerResult {
+  owner: string;
+  indexer: string;
+  exists: boolean;
+  rent: number | null;
+  createdCounter: number | null;
+  accounts: IndexerEntry[];
+  mismatches: number;
+}
+
+/**
+ * Describes how an account disagrees between the indexer, findAllOpenOrders and the chain.
+ * @returns The issues joined by "; ", or null if the account is consistent.
+ */
+function findIssues(
+  entry: Omit<IndexerEntry, 'issue'>,
+  account: OpenOrdersAccount | null,
+  owner: PublicKey,
+  indexerCount: number
+): string | null {
+  const issues: string[] = [];
+  if (indexerCount > 1) {
+    issues.push(`listed ${indexerCount} times by the indexer`);
+  }
+  if (entry.inIndexer && !entry.inFindAllOpenOrders) {
+    issues.push('not returned by findAllOpenOrders');
+  }
+  if (!entry.inIndexer && entry.inFindAllOpenOrders) {
+    issues.push('returned by findAllOpenOrders but not listed by the indexer');
+  }
+  if (!entry.exists) {
+    issues.push('account does not exist');
+  } else if (!account) {
+    issues.push('not an OpenOrders account');
+  } else if (!account.owner.equals(owner)) {
+    issues.push(`owned by ${account.owner.toBase58()}`);
+  } else if (!entry.inIndexer && !entry.inFindAllOpenOrders) {
+    issues.push('not tracked by the indexer');
+  }
+  return issues.length > 0 ? issues.join('; ') : null;
+}
+
+/**
+ * Prints the indexer summary followed by the accounts table.
+ */
+function printIndexer(result: GetIndexerResult): void {
+  console.log('');
+  console.log(`${'Indexer'.padEnd(16)} | ${result.indexer}`);
+  console.log(`${'Rent'.padEnd(16)} | ${result.rent} SOL`);
+  console.log(`${'Created Counter'.padEnd(16)} | ${result.createdCounter}`);
+  console.log(`${'Tracked'.padEnd(16)} | ${result.accounts.filter((entry) => entry.inIndexer).length}`);
+  console.log(`${'Mismatches'.padEnd(16)} | ${result.mismatches}`);
+
+  console.log('\nOpenOrders Accounts');
+  console.log(
+    `${'Address'.padEnd(44)} | ${'Num'.padEnd(5)} | ${'Market'.padEnd(44)} | ${'Name'.padEnd(16)} | Issue`
+  );
+  console.log('-'.repeat(150));
+  for (const entry of result.accounts) {
+    console.log(
+      `${entry.address.padEnd(44)} | ${String(entry.accountNum ?? '-').padEnd(5)} | ` +
+        `${(entry.market ?? '-').padEnd(44)} | ${(entry.name ?? '-').slice(0, 16).padEnd(16)} | ${entry.issue ?? 'OK'}`
+    );
+  }
+}
+
+/**
+ * CLI command to inspect the OpenOrdersIndexer of an owner.
+ */
+const getIndexer: CommandModule<{}, GetIndexerArgs> = {
+  command: 'getIndexer <owner>',
+  describe: 'Decode the OpenOrdersIndexer of an owner and check the accounts it tracks',
+  builder: (yargs) =>
+    yargs.positional('owner', {
+      type: 'string',
+      demandOption: true,
+      description: 'Public key of the owner',
+    }),
+  handler: async (argv) => {
+    // Establish a connection and a read-only client
+    const connection = createConnection();
+    const wallet = createStubWallet();
+    const provider = createProvider(connection, wallet);
+    const client = createClient(provider);
+
+    const ownerPk = loadPublicKey(argv.owner);
+
+    try {
+      const indexerPk = client.findOpenOrdersIndexer(ownerPk);
+      logger.info(`Fetching OpenOrdersIndexer ${indexerPk.toBase58()} of owner: ${ownerPk.toBase58()}...`);
+      const indexer = await loadOpenOrdersIndexer(client, ownerPk);
+      const found = await client.findAllOpenOrders(ownerPk);
+
+      const result: GetIndexerResult = {
+        owner: ownerPk.toBase58(),
+        indexer: indexerPk.toBase58(),
+        exists: indexer !== null,
+        rent: indexer ? indexer.lamports / LAMPORTS_PER_SOL : null,
+        createdCounter: indexer?.account.createdCounter ?? null,
+        accounts: [],
+        mismatches: 0,
+      };
+
+      // Accounts created through the indexer live at the PDAs of account numbers 1 to createdCounter
+      const listed = indexer?.account.addresses ?? [];
+      const derived = Array.from({ length: result.createdCounter ?? 0 }, (_, index) =>
+        client.findOpenOrderAtIndex(ownerPk, new BN(index + 1))
+      );
+      const addresses = [...new Set([...listed, ...found, ...derived].map((pubkey) => pubkey.toBase58()))];
+      const infos = await getMultipleAccountsBatched(
+        connection,
+        addresses.map((address) => new PublicKey(address))
+      );
+
+      for (const [index, address] of addresses.entries()) {
+        const info = infos[index];
+        let account: OpenOrdersAccount | null = null;
+        if (info && info.owner.equals(client.programId)) {
+          try {
+            account = client.program.coder.accounts.decode('openOrdersAccount', info.data);
+          } catch {
+            // Not an OpenOrders account
+          }
+        }
+
+        const indexerCount = listed.filter((pubkey) => pubkey.toBase58() === address).length;
+        const entry: Omit<IndexerEntry, 'issue'> = {
+          address,
+          accountNum: account?.accountNum ?? null,
+          market: account?.market.toBase58() ?? null,
+          name: account ? nameToString(account.name) : null,
+          inIndexer: indexerCount > 0,
+          inFindAllOpenOrders: found.some((pubkey) => pubkey.toBase58() === address),
+          exists: info !== null,
+        };
+        // Derived addresses of accounts that were closed are expected to be empty
+        if (!entry.exists && !entry.inIndexer && !entry.inFindAllOpenOrders) {
+          continue;
+        }
+        result.accounts.push({ ...entry, issue: findIssues(entry, account, ownerPk, indexerCount) });
+      }
+      result.mismatches = result.accounts.filter((entry) => entry.issue !== null).length;
+
+      if (!indexer) {
+        logger.info(`Owner ${ownerPk.toBase58()} has no OpenOrdersIndexer.`);
+      }
+      for (const entry of result.accounts.filter((account) => account.issue !== null)) {
+        logger.warn(`Mismatch for ${entry.address}: ${entry.issue}`);
+      }
+
+      emitResult(
+        result,
+        result.accounts.map((entry) => ({ owner: result.owner, indexer: result.indexer, ...entry }))
+      );
+      if (isTableOutput() && indexer) {
+        printIndexer(result);
+      }
+    } catch (error) {
+      logger.error(`Error fetching OpenOrdersIndexer: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default getIndexer;
@@ -18,6 +18,7 @@ import { CommandModule } from 'yargs';
 import { createConnection, createProvider, createClient, loadPublicKey, createStubWallet } from '../utils/helper';
 import { OpenOrders, nameToString } from '@openbook-dex/openbook-v2';
 import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
 
 /**
  * Interface defining the required arguments for the getOOA command.
@@ -27,6 +28,16 @@ interface getOOAArgs {
   market?: string;
 }
 
+/**
+ * Result schema in json/csv output. CSV output has one row per OpenOrders account.
+ */
+interface GetOOAResult {
+  owner: string;
+  indexer: string;
+  market: string | null;
+  openOrdersAccounts: { address: string; name: string | null }[];
+}
+
 /**
  * Command module to fetch OpenOrders accounts and the OpenOrdersIndexer for a specified owner.
  */
@@ -81,6 +92,13 @@ const getOOA: CommandModule<{}, getOOAArgs> = {
         openOrdersAccounts = await client.findAllOpenOrders(ownerPk);
       }
 
+      const result: GetOOAResult = {
+        owner: ownerPk.toBase58(),
+        indexer: indexer.toBase58(),
+        market: marketPk?.toBase58() ?? null,
+        openOrdersAccounts: [],
+      };
+
       // Display the list of OpenOrders accounts if any are found
       if (openOrdersAccounts.length > 0) {
         logger.info('OpenOrders Accounts:');
@@ -92,8 +110,10 @@ const getOOA: CommandModule<{}, getOOAArgs> = {
 
             // Log the OpenOrders account details
             logger.info(`  ${i + 1}. ${acc.toBase58()} (Name: ${name})`);
+            result.openOrdersAccounts.push({ address: acc.toBase58(), name });
           } catch (error) {
             logger.warn(`  ${i + 1}. ${acc.toBase58()} (Error fetching name: ${(error as Error).message})`);
+            result.openOrdersAccounts.push({ address: acc.toBase58(), name: null });
           }
         }
       } else {
@@ -104,6 +124,16 @@ const getOOA: CommandModule<{}, getOOAArgs> = {
             : `No OpenOrders accounts found for Owner ${ownerPk.toBase58()}.`
         );
       }
+
+      emitResult(
+        result,
+        result.openOrdersAccounts.map((account) => ({
+          owner: result.owner,
+          indexer: result.indexer,
+          address: account.address,
+          name: account.name,
+        }))
+      );
     } catch (error) {
       // Handle and log errors
       logger.error('Error fetching OpenOrders accounts:', (error as Error).message);
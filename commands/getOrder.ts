@@ -24,11 +24,11 @@ import {
   createProvider,
   loadPublicKey,
   createStubWallet,
-  validateAndFetchMarket
 } from '../utils/helper';
 import { Connection, PublicKey } from '@solana/web3.js';
-import { OpenBookV2Client, Market, OpenOrders } from '@openbook-dex/openbook-v2/';
+import { OpenBookV2Client, Market, OpenOrders, nameToString } from '@openbook-dex/openbook-v2';
 import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
 
 /**
  * Interface defining the arguments for the getOrder command.
@@ -39,6 +39,59 @@ interface CLIGetOrderArgs {
   market?: string;
 }
 
+/**
+ * A single open order of an OpenOrders account.
+ * Price and size are null for oracle-pegged orders, whose price moves with the oracle.
+ */
+interface OpenOrderEntry {
+  orderId: string;
+  clientOrderId: string;
+  side: 'bid' | 'ask';
+  pegged: boolean;
+  price: number | null;
+  size: number | null;
+}
+
+/**
+ * Result schema in json/csv output. CSV output has one row per open order.
+ */
+interface GetOrderResult {
+  openOrdersAccounts: {
+    openOrders: string;
+    owner: string;
+    market: string;
+    marketName: string;
+    baseFree: number;
+    quoteFree: number;
+    orders: OpenOrderEntry[];
+  }[];
+}
+
+/**
+ * Lists the open orders of an account from its order slots. Sizes are looked up on the loaded order book.
+ */
+function listOpenOrders(openOrders: OpenOrders): OpenOrderEntry[] {
+  const { market } = openOrders;
+  const sizes = new Map<string, number>();
+  for (const order of [...(market.bids?.fixedItems() ?? []), ...(market.asks?.fixedItems() ?? [])]) {
+    sizes.set(order.leafNode.key.toString(), order.size);
+  }
+
+  return openOrders.account.openOrders
+    .filter((slot) => !slot.isFree)
+    .map((slot) => {
+      const pegged = slot.sideAndTree > 1;
+      return {
+        orderId: slot.id.toString(),
+        clientOrderId: slot.clientId.toString(),
+        side: slot.sideAndTree % 2 === 0 ? 'bid' : 'ask',
+        pegged,
+        price: pegged ? null : market.priceLotsToUi(slot.lockedPrice),
+        size: pegged ? null : sizes.get(slot.id.toString()) ?? null,
+      };
+    });
+}
+
 /**
  * CLI command to fetch the current getOrder data for an OpenBook trading account.
  */
@@ -79,45 +132,74 @@ const getOrder: CommandModule<{}, CLIGetOrderArgs> = {
     const client: OpenBookV2Client = createClient(provider);
 
     try {
+      const marketPubkey = argv.market ? loadPublicKey(argv.market) : undefined;
+
+      // Resolve the OpenOrders accounts to display
+      let openOrdersPubkeys: PublicKey[];
       if (argv.openOrders) {
-        // Fetch data for a specific OpenOrders account
-        const openOrdersPubkey = loadPublicKey(argv.openOrders);
-        logger.info(`Fetching OpenOrders account: ${openOrdersPubkey.toBase58()}`);
-
-        // Load market details if a market public key is provided
-        const marketPubkey = argv.market ? loadPublicKey(argv.market) : undefined;
-        const market = marketPubkey ? await validateAndFetchMarket(connection, client, marketPubkey) : undefined;
-
-        // Load the OpenOrders account details
-        const openOrders = await OpenOrders.load(openOrdersPubkey, market ?? undefined, client);
-        logger.info('Current getOrder:');
-        logger.info(openOrders.toPrettyString());
-      } else if (argv.wallet) {
-        // Fetch all OpenOrders accounts for the specified wallet
-        const walletPubkey = loadPublicKey(argv.wallet);
+        openOrdersPubkeys = [loadPublicKey(argv.openOrders)];
+        logger.info(`Fetching OpenOrders account: ${openOrdersPubkeys[0].toBase58()}`);
+      } else {
+        const walletPubkey = loadPublicKey(argv.wallet!);
         logger.info(`Fetching all OpenOrders accounts for wallet: ${walletPubkey.toBase58()}`);
+        openOrdersPubkeys = marketPubkey
+          ? await client.findOpenOrdersForMarket(walletPubkey, marketPubkey)
+          : await client.findAllOpenOrders(walletPubkey);
+      }
 
-        // Load market details if a market public key is provided
-        const marketPubkey = argv.market ? loadPublicKey(argv.market) : undefined;
-        const market = marketPubkey ? await validateAndFetchMarket(connection, client, marketPubkey) : undefined;
+      // Markets are loaded with their order book once and shared by all accounts on them
+      const markets = new Map<string, Market>();
+      const result: GetOrderResult = { openOrdersAccounts: [] };
 
-        // Fetch OpenOrders accounts for the wallet, optionally filtered by market
-        const openOrdersList = market
-          ? await OpenOrders.loadNullableForMarketAndOwner(market, walletPubkey)
-          : await client.findAllOpenOrders(walletPubkey);
+      for (const openOrdersPubkey of openOrdersPubkeys) {
+        const account = await client.program.account.openOrdersAccount.fetch(openOrdersPubkey);
+        if (marketPubkey && !account.market.equals(marketPubkey)) {
+          throw new Error(`OpenOrders account ${openOrdersPubkey.toBase58()} does not belong to the specified market.`);
+        }
 
-        // Display the OpenOrders accounts found
-        if (Array.isArray(openOrdersList)) {
-          for (const openOrdersPubkey of openOrdersList) {
-            const openOrders = await OpenOrders.load(openOrdersPubkey, market ?? undefined, client);
-            logger.info(openOrders.toPrettyString());
-          }
-        } else if (openOrdersList) {
-          logger.info(openOrdersList.toPrettyString());
-        } else {
-          logger.info('No OpenOrders accounts found.');
+        let market = markets.get(account.market.toBase58());
+        if (!market) {
+          market = await Market.load(client, account.market);
+          await market.loadOrderBook();
+          markets.set(account.market.toBase58(), market);
+        }
+
+        const openOrders = new OpenOrders(openOrdersPubkey, account, market);
+        const orders = listOpenOrders(openOrders);
+        const entry = {
+          openOrders: openOrdersPubkey.toBase58(),
+          owner: account.owner.toBase58(),
+          market: account.market.toBase58(),
+          marketName: nameToString(market.account.name),
+          baseFree: openOrders.getBaseBalanceUi(),
+          quoteFree: openOrders.getQuoteBalanceUi(),
+          orders,
+        };
+        result.openOrdersAccounts.push(entry);
+
+        logger.info(`OpenOrders Account: ${entry.openOrders}`);
+        logger.info(`  Owner: ${entry.owner}`);
+        logger.info(`  Market: ${entry.market} (${entry.marketName})`);
+        logger.info(`  Free Balances: ${entry.baseFree} base | ${entry.quoteFree} quote`);
+        logger.info(`  Orders (${orders.length}):`);
+        for (const order of orders) {
+          const priceAndSize = order.pegged ? 'oracle pegged' : `${order.size ?? 'N/A'} @ ${order.price}`;
+          logger.info(
+            `    ${order.side.toUpperCase()} ${priceAndSize} (ID: ${order.orderId}, Client ID: ${order.clientOrderId})`
+          );
         }
       }
+
+      if (result.openOrdersAccounts.length === 0) {
+        logger.info('No OpenOrders accounts found.');
+      }
+
+      emitResult(
+        result,
+        result.openOrdersAccounts.flatMap((account) =>
+          account.orders.map((order) => ({ openOrders: account.openOrders, market: account.market, ...order }))
+        )
+      );
     } catch (error) {
       // Log any errors encountered
       logger.error('Error:', error instanceof Error ? error.message : error);
@@ -27,6 +27,7 @@ import { CommandModule } from 'yargs';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { createConnection, createProvider, createClient, createStubWallet } from '../utils/helper';
 import logger from '../utils/logger';
+import { emitResult, isTableOutput } from '../utils/output';
 import { 
   nameToString,
   quoteLotsToUi,
@@ -36,9 +37,10 @@ import { BN } from '@coral-xyz/anchor';
 import { createUmi } from '@metaplex-foundation/umi-bundle-defaults';
 import { mplTokenMetadata, fetchMetadata, findMetadataPda } from '@metaplex-foundation/mpl-token-metadata';
 import { publicKey } from '@metaplex-foundation/umi-public-keys';
-import { RPC_CONFIG } from '../utils/config';
+import { getRpcUrl } from '../utils/config';
 import Big from 'big.js';
 import { getMint } from '@solana/spl-token';
+import { fetchJupiterPrices } from '../utils/prices';
 
 //──────────────────────────────────────────────────────────────────────────────
 // Helper: Convert native amount to UI amount using the mint’s decimals.
@@ -58,7 +60,7 @@ function formatNumber(num: number): string {
 // Retrieves the token symbol from the mint's metadata.
 async function getTokenSymbol(connection: Connection, mint: PublicKey): Promise<string> {
   try {
-    const umi = createUmi(RPC_CONFIG.MAINNET_URL);
+    const umi = createUmi(getRpcUrl());
     umi.use(mplTokenMetadata());
     const metadataPda = findMetadataPda(umi, { mint: publicKey(mint) });
     const metadata = await fetchMetadata(umi, metadataPda);
@@ -69,38 +71,29 @@ async function getTokenSymbol(connection: Connection, mint: PublicKey): Promise<
 }
 
 //──────────────────────────────────────────────────────────────────────────────
-// Batch fetch prices from Jupiter’s Price API with rate limiting.
-// Processes tokens in batches of 50 and waits 2 seconds between batches.
-async function fetchPricesForMints(mintIds: string[]): Promise<{ [id: string]: number }> {
-  const result: { [id: string]: number } = {};
-  const chunkSize = 50;
-  for (let i = 0; i < mintIds.length; i += chunkSize) {
-    const chunk = mintIds.slice(i, i + chunkSize);
-    const url = `https://api.jup.ag/price/v2?ids=${chunk.join(',')}`;
-    try {
-      const response = await fetch(url);
-      const data = await response.json();
-      if (data && data.data) {
-        for (const id in data.data) {
-          result[id] = data.data[id] && data.data[id].price
-            ? parseFloat(data.data[id].price)
-            : 0;
-        }
-      }
-    } catch (err) {
-      logger.error(`Error fetching price for tokens: ${(err as Error).message}`);
-    }
-    // Wait 2 seconds before the next batch.
-    if (i + chunkSize < mintIds.length) {
-      await new Promise(res => setTimeout(res, 2000));
-    }
-  }
-  return result;
+// Interface for command arguments.
+interface ListMarketsArgs {}
+
+//──────────────────────────────────────────────────────────────────────────────
+// Market row. Deposits are in UI units, USD values are 0 when no price is available.
+interface MarketSummary {
+  marketName: string;
+  marketPubkey: string;
+  baseMint: string;
+  quoteMint: string;
+  baseSymbol: string;
+  quoteSymbol: string;
+  baseBalance: number;
+  quoteBalance: number;
+  baseBalanceUsd: number;
+  quoteBalanceUsd: number;
 }
 
 //──────────────────────────────────────────────────────────────────────────────
-// Interface for command arguments.
-interface ListMarketsArgs {}
+// Result schema in json/csv output. CSV output has one row per market.
+interface ListMarketsResult {
+  markets: MarketSummary[];
+}
 
 //──────────────────────────────────────────────────────────────────────────────
 // Main command handler.
@@ -131,25 +124,17 @@ const listMarkets: CommandModule<{}, ListMarketsArgs> = {
       logger.info(`Loaded ${marketAccounts.length} market account(s).`);
 
       // Array to store processed market data.
-      const marketsData: {
-        marketName: string;
-        marketPubkey: string;
-        baseMint: string;
-        quoteMint: string;
-        baseSymbol: string;
-        quoteSymbol: string;
-        baseBalance: number;
-        quoteBalance: number;
-        baseBalanceUsd: number;
-        quoteBalanceUsd: number;
-      }[] = [];
+      const marketsData: MarketSummary[] = [];
+
+      // The live counter is progress output, so it moves to stderr with the logs in json/csv mode
+      const progress = isTableOutput() ? process.stdout : process.stderr;
 
       // Process each market and update the live counter on the same line.
       let processedCount = 0;
       for (const marketAccount of marketAccounts) {
         try {
           processedCount++;
-          process.stdout.write(`Processed ${processedCount} of ${marketAccounts.length} markets...\r`);
+          progress.write(`Processed ${processedCount} of ${marketAccounts.length} markets...\r`);
 
           const marketPubkey = marketAccount.publicKey;
           const market = marketAccount.account;
@@ -192,7 +177,7 @@ const listMarkets: CommandModule<{}, ListMarketsArgs> = {
         }
       }
       // Move the live counter to a new line.
-      console.log('');
+      progress.write('\n');
       logger.info(`Finished processing ${processedCount} market(s).`);
 
       // Build a set of unique mints (only query prices for tokens with nonzero deposits).
@@ -205,7 +190,7 @@ const listMarkets: CommandModule<{}, ListMarketsArgs> = {
       logger.info(`Fetching prices for ${uniqueMints.length} unique token(s) from Jupiter API...`);
 
       // Fetch prices from Jupiter API.
-      const prices = await fetchPricesForMints(uniqueMints);
+      const prices = await fetchJupiterPrices(uniqueMints);
       logger.info('Price data retrieved from Jupiter API.');
 
       // Update each market with USD deposit values.
@@ -239,6 +224,12 @@ const listMarkets: CommandModule<{}, ListMarketsArgs> = {
 
       logger.info(`Displaying ${marketsData.length} market(s).`);
 
+      const result: ListMarketsResult = { markets: marketsData };
+      emitResult(result, marketsData);
+      if (!isTableOutput()) {
+        return;
+      }
+
       // Define table headers.
       const headers = {
         marketName: 'Market Name',
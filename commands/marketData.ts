@@ -1,24 +1,37 @@
 /**
  * CLI Command: marketData
- * 
+ *
  * Description
  * Monitors the order book for a specified market, displaying real-time updates on best bid/ask prices or the full order book liquidity.
+ * The bids and asks accounts are streamed over websocket subscriptions and the display is only refreshed when the book changes.
+ * If the websocket is unavailable, the book is polled every second instead.
+ * The L3 view lists every individual order with its owner, client order ID, placement time, time in force and
+ * queue position at its price level. Orders of the given OpenOrders accounts or wallet are highlighted.
  *
  * Example Usage
  * npx ts-node cli.ts marketData <MARKET_PUBLIC_KEY> --bestbidask
  * npx ts-node cli.ts marketData <MARKET_PUBLIC_KEY> --book
- *  
+ * npx ts-node cli.ts marketData <MARKET_PUBLIC_KEY> --diff --output json
+ * npx ts-node cli.ts marketData <MARKET_PUBLIC_KEY> --l3 --depth 5 --owner <WALLET_PUBLIC_KEY>
+ *
  * Parameters
  * --market (Required): Public key of the market to monitor.
  * --bestbidask (Optional): Monitor and display the best bid/ask prices.
  * --book (Optional): Display the full order book liquidity.
- * 
+ * --diff (Optional): Stream L2 diffs (price level, old size, new size) instead of redrawing the book.
+ * --l3 (Optional): Display every individual order of the book instead of aggregated levels.
+ * --depth (Optional, default: 10): Number of price levels per side shown by --book and --l3.
+ * --openOrders (Optional): OpenOrders accounts whose orders are highlighted in the L3 view. Can be repeated.
+ * --owner (Optional): Wallet whose OpenOrders accounts on the market are highlighted in the L3 view.
+ *
  */
 
 import { CommandModule } from 'yargs';
 import { createConnection, createProvider, createClient, loadPublicKey, createStubWallet } from '../utils/helper';
 import { Market } from '@openbook-dex/openbook-v2';
 import logger from '../utils/logger';
+import { getL2Levels, getL3Orders, watchOrderBook } from '../utils/orderBook';
+import { createBookView, createL3View, DEFAULT_BOOK_DEPTH } from '../utils/bookView';
 
 /**
  * Interface defining the required arguments for the marketData command.
@@ -27,6 +40,11 @@ interface MarketDataArgs {
   market: string;
   bestbidask?: boolean;
   book?: boolean;
+  diff?: boolean;
+  l3?: boolean;
+  depth: number;
+  openOrders?: string[];
+  owner?: string;
 }
 
 /**
@@ -49,6 +67,35 @@ const marketData: CommandModule<{}, MarketDataArgs> = {
       .option('book', {
         type: 'boolean',
         description: 'Display order book liquidity',
+      })
+      .option('diff', {
+        type: 'boolean',
+        description: 'Stream L2 diffs (price level, old size, new size)',
+      })
+      .option('l3', {
+        type: 'boolean',
+        description: 'Display every individual order with owner and queue position',
+      })
+      .option('depth', {
+        type: 'number',
+        default: DEFAULT_BOOK_DEPTH,
+        description: 'Number of price levels per side shown by --book and --l3',
+      })
+      .option('openOrders', {
+        type: 'string',
+        array: true,
+        description: 'OpenOrders accounts to highlight in the L3 view',
+      })
+      .option('owner', {
+        type: 'string',
+        description: 'Wallet whose OpenOrders accounts are highlighted in the L3 view',
+      })
+      .conflicts('l3', 'book')
+      .check((argv) => {
+        if (!Number.isInteger(argv.depth) || argv.depth <= 0) {
+          throw new Error('--depth must be a positive integer.');
+        }
+        return true;
       }),
   handler: async (argv) => {
     // Establish a connection to the Solana blockchain
@@ -69,70 +116,44 @@ const marketData: CommandModule<{}, MarketDataArgs> = {
     try {
       logger.info(`Loading market: ${marketPubkey.toBase58()}...`);
 
-      // Load the market details from OpenBook
+      // Load the market details and the initial order book from OpenBook
       const market = await Market.load(client, marketPubkey);
+      await market.loadOrderBook();
 
-      // Monitor best bid/ask prices
       if (argv.bestbidask) {
         logger.info('Monitoring best bid/ask prices...');
-        setInterval(async () => {
-          // Load the latest order book data
-          await market.loadOrderBook();
-
-          // Retrieve the best bid and best ask prices
-          const bestBid = market.bids?.best();
-          const bestAsk = market.asks?.best();
-
-          // Format the best bid and ask prices for display
-          const bidPrice = bestBid?.price?.toFixed(4) || 'N/A';
-          const askPrice = bestAsk?.price?.toFixed(4) || 'N/A';
-
-          logger.info(`Best Bid: ${bidPrice} | Best Ask: ${askPrice}`);
-        }, 1000);
       }
-
-      // Monitor full order book liquidity
       if (argv.book) {
         logger.info('Displaying order book liquidity...');
-        setInterval(async () => {
-          // Load the latest order book data
-          await market.loadOrderBook();
-
-          // Clear the console for a real-time order book display
-          console.clear();
-          console.log(
-            'Price (Bid)     | Size (Bid)      | Amount (Bid)    || Price (Ask)     | Size (Ask)      | Amount (Ask)'
-          );
-          console.log(
-            '--------------- | --------------- | --------------- || --------------- | --------------- | ---------------'
-          );
-
-          // Define the order book depth to display
-          const depth = 10;
-
-          // Retrieve bid and ask orders up to the defined depth
-          const bids = market.bids?.getL2(depth) || [];
-          const asks = market.asks?.getL2(depth) || [];
-
-          // Iterate through the order book and display bid/ask levels
-          for (let i = 0; i < depth; i++) {
-            const bid = bids[i] || [null, null];
-            const ask = asks[i] || [null, null];
-
-            const bidPrice = bid[0]?.toFixed(4) || 'N/A';
-            const bidSize = bid[1]?.toFixed(4) || 'N/A';
-            const bidAmount = bid[0] && bid[1] ? (bid[0] * bid[1]).toFixed(4) : 'N/A';
-
-            const askPrice = ask[0]?.toFixed(4) || 'N/A';
-            const askSize = ask[1]?.toFixed(4) || 'N/A';
-            const askAmount = ask[0] && ask[1] ? (ask[0] * ask[1]).toFixed(4) : 'N/A';
+      }
+      if (argv.diff) {
+        logger.info('Streaming L2 diffs...');
+      }
 
-            console.log(
-              `${bidPrice.padEnd(15)} | ${bidSize.padEnd(15)} | ${bidAmount.padEnd(15)} || ${askPrice.padEnd(15)} | ${askSize.padEnd(15)} | ${askAmount.padEnd(15)}`
-            );
-          }
-        }, 1000);
+      // Resolve the OpenOrders accounts to highlight in the L3 view
+      const ours = new Set<string>((argv.openOrders ?? []).map((key) => loadPublicKey(key).toBase58()));
+      if (argv.l3 && argv.owner) {
+        const ownerAccounts = await client.findOpenOrdersForMarket(loadPublicKey(argv.owner), marketPubkey);
+        ownerAccounts.forEach((key) => ours.add(key.toBase58()));
+      }
+      if (argv.l3) {
+        logger.info(`Displaying individual orders${ours.size > 0 ? `, highlighting ${ours.size} OpenOrders account(s)` : ''}...`);
       }
+
+      const view = createBookView(marketPubkey.toBase58(), argv);
+      const l3View = argv.l3 ? createL3View(marketPubkey.toBase58(), ours) : null;
+      const render = () => {
+        const timestamp = new Date().toISOString();
+        if (argv.bestbidask || argv.book || argv.diff) {
+          view(getL2Levels(market, 'bid'), getL2Levels(market, 'ask'), timestamp);
+        }
+        if (l3View) {
+          l3View(getL3Orders(market, 'bid', argv.depth), getL3Orders(market, 'ask', argv.depth), timestamp);
+        }
+      };
+
+      render();
+      watchOrderBook(connection, market, render);
     } catch (error) {
       // Log any errors encountered while fetching market data
       logger.error(`Error fetching market data: ${(error as Error).message}`);
@@ -0,0 +1,272 @@
+/**
+ * CLI Command: marketInfo
+ *
+ * Description
+ * Displays the full configuration and state of a market in human units: lot sizes and decimals, the derived
+ * minimum order size and price tick, maker/taker fees, oracle configuration, expiry, authorities,
+ * vaults and other accounts, deposit and fee totals, volumes and the event sequence number.
+ *
+ * Example Usage
+ * npx ts-node cli.ts marketInfo <MARKET_PUBLIC_KEY>
+ * npx ts-node cli.ts marketInfo <MARKET_PUBLIC_KEY> --output json
+ *
+ * Parameters
+ * --market (Required): Public key of the market.
+ */
+
+import { CommandModule } from 'yargs';
+import { PublicKey } from '@solana/web3.js';
+import {
+  createConnection,
+  createProvider,
+  createClient,
+  loadPublicKey,
+  createStubWallet,
+  validateAndFetchMarket,
+} from '../utils/helper';
+import { Market, nameToString, type MarketAccount } from '@openbook-dex/openbook-v2';
+import { BN } from '@coral-xyz/anchor';
+import logger from '../utils/logger';
+import { emitResult, isTableOutput } from '../utils/output';
+import { FEES_SCALE } from '../utils/order';
+
+/**
+ * Interface defining the arguments for the marketInfo command.
+ */
+interface MarketInfoArgs {
+  market: string;
+}
+
+/**
+ * Result schema in json/csv output.
+ * Lot sizes are native units. minOrderSize is in base units and priceTick in quote units per base unit.
+ * Fees are rates (0.0004 = 4 bps, negative maker fees are rebates). Deposit totals are UI units of their
+ * token; fee totals and volumes are UI quote units. Unset optional authorities and oracles are null,
+ * and timeExpiry is null for markets that do not expire.
+ */
+interface MarketInfoResult {
+  market: string;
+  name: string;
+  baseMint: string;
+  quoteMint: string;
+  baseDecimals: number;
+  quoteDecimals: number;
+  baseLotSize: string;
+  quoteLotSize: string;
+  minOrderSize: number;
+  priceTick: number;
+  makerFee: number;
+  takerFee: number;
+  oracleA: string | null;
+  oracleB: string | null;
+  oracleConfFilter: number;
+  oracleMaxStalenessSlots: string;
+  registrationTime: string;
+  timeExpiry: string | null;
+  expired: boolean;
+  marketAuthority: string;
+  collectFeeAdmin: string;
+  openOrdersAdmin: string | null;
+  consumeEventsAdmin: string | null;
+  closeMarketAdmin: string | null;
+  bids: string;
+  asks: string;
+  eventHeap: string;
+  baseVault: string;
+  quoteVault: string;
+  baseDepositTotal: number;
+  quoteDepositTotal: number;
+  feesAccrued: number;
+  feesToReferrers: number;
+  referrerRebatesAccrued: number;
+  feesAvailable: number;
+  makerVolume: number;
+  takerVolumeWoOo: number;
+  seqNum: string;
+}
+
+/**
+ * Returns the key of an optional account, or null if it is not set.
+ */
+function optionalKey(option: { key: PublicKey }): string | null {
+  return option.key.equals(PublicKey.default) ? null : option.key.toBase58();
+}
+
+/**
+ * Converts a Unix timestamp in seconds to ISO 8601.
+ */
+function toIsoTime(seconds: BN): string {
+  return new Date(seconds.toNumber() * 1000).toISOString();
+}
+
+/**
+ * Formats a fee rate as a percentage and basis points.
+ */
+function formatFee(rate: number): string {
+  return `${(rate * 100).toFixed(4)}% (${(rate * 10_000).toFixed(2)} bps)`;
+}
+
+/**
+ * Prints the market information grouped in sections.
+ */
+function printMarketInfo(info: MarketInfoResult): void {
+  const sections: [string, [string, string | number][]][] = [
+    [
+      'Market',
+      [
+        ['Name', info.name],
+        ['Address', info.market],
+        ['Registered', info.registrationTime],
+        ['Expiry', info.timeExpiry ? `${info.timeExpiry}${info.expired ? ' (expired)' : ''}` : 'Never'],
+        ['Event Sequence Number', info.seqNum],
+      ],
+    ],
+    [
+      'Tokens and Sizes',
+      [
+        ['Base Mint', `${info.baseMint} (${info.baseDecimals} decimals)`],
+        ['Quote Mint', `${info.quoteMint} (${info.quoteDecimals} decimals)`],
+        ['Base Lot Size', `${info.baseLotSize} native`],
+        ['Quote Lot Size', `${info.quoteLotSize} native`],
+        ['Minimum Order Size', `${info.minOrderSize} base`],
+        ['Price Tick', `${info.priceTick} quote per base`],
+      ],
+    ],
+    [
+      'Fees',
+      [
+        ['Maker Fee', formatFee(info.makerFee)],
+        ['Taker Fee', formatFee(info.takerFee)],
+      ],
+    ],
+    [
+      'Oracles',
+      [
+        ['Oracle A', info.oracleA ?? 'None'],
+        ['Oracle B', info.oracleB ?? 'None'],
+        ['Confidence Filter', info.oracleConfFilter],
+        ['Max Staleness (slots)', info.oracleMaxStalenessSlots],
+      ],
+    ],
+    [
+      'Authorities',
+      [
+        ['Market Authority', info.marketAuthority],
+        ['Collect Fee Admin', info.collectFeeAdmin],
+        ['Open Orders Admin', info.openOrdersAdmin ?? 'None'],
+        ['Consume Events Admin', info.consumeEventsAdmin ?? 'None'],
+        ['Close Market Admin', info.closeMarketAdmin ?? 'None'],
+      ],
+    ],
+    [
+      'Accounts',
+      [
+        ['Bids', info.bids],
+        ['Asks', info.asks],
+        ['Event Heap', info.eventHeap],
+        ['Base Vault', info.baseVault],
+        ['Quote Vault', info.quoteVault],
+      ],
+    ],
+    [
+      'Totals',
+      [
+        ['Base Deposits', info.baseDepositTotal],
+        ['Quote Deposits', info.quoteDepositTotal],
+        ['Fees Accrued', info.feesAccrued],
+        ['Fees to Referrers', info.feesToReferrers],
+        ['Referrer Rebates Accrued', info.referrerRebatesAccrued],
+        ['Fees Available', info.feesAvailable],
+        ['Maker Volume', info.makerVolume],
+        ['Taker Volume (without OOA)', info.takerVolumeWoOo],
+      ],
+    ],
+  ];
+
+  for (const [title, rows] of sections) {
+    console.log(`\n${title}`);
+    console.log('-'.repeat(80));
+    for (const [label, value] of rows) {
+      console.log(`${label.padEnd(28)} | ${value}`);
+    }
+  }
+}
+
+/**
+ * CLI command to display the configuration and state of a market.
+ */
+const marketInfo: CommandModule<{}, MarketInfoArgs> = {
+  command: 'marketInfo <market>',
+  describe: 'Display the full configuration of a market',
+  builder: (yargs) =>
+    yargs.positional('market', {
+      type: 'string',
+      demandOption: true,
+      description: 'Market public key',
+    }),
+  handler: async (argv) => {
+    // Establish a connection and a read-only client
+    const connection = createConnection();
+    const wallet = createStubWallet();
+    const provider = createProvider(connection, wallet);
+    const client = createClient(provider);
+
+    const marketPubkey = loadPublicKey(argv.market);
+
+    try {
+      const account: MarketAccount = await validateAndFetchMarket(connection, client, marketPubkey);
+      const market = new Market(client, marketPubkey, account);
+
+      const info: MarketInfoResult = {
+        market: marketPubkey.toBase58(),
+        name: nameToString(account.name),
+        baseMint: account.baseMint.toBase58(),
+        quoteMint: account.quoteMint.toBase58(),
+        baseDecimals: account.baseDecimals,
+        quoteDecimals: account.quoteDecimals,
+        baseLotSize: account.baseLotSize.toString(),
+        quoteLotSize: account.quoteLotSize.toString(),
+        minOrderSize: market.baseLotsToUi(new BN(1)),
+        priceTick: market.priceLotsToUi(new BN(1)),
+        makerFee: account.makerFee.toNumber() / FEES_SCALE,
+        takerFee: account.takerFee.toNumber() / FEES_SCALE,
+        oracleA: optionalKey(account.oracleA),
+        oracleB: optionalKey(account.oracleB),
+        oracleConfFilter: account.oracleConfig.confFilter,
+        oracleMaxStalenessSlots: account.oracleConfig.maxStalenessSlots.toString(),
+        registrationTime: toIsoTime(account.registrationTime),
+        timeExpiry: account.timeExpiry.isZero() ? null : toIsoTime(account.timeExpiry),
+        expired: !account.timeExpiry.isZero() && account.timeExpiry.toNumber() * 1000 <= Date.now(),
+        marketAuthority: account.marketAuthority.toBase58(),
+        collectFeeAdmin: account.collectFeeAdmin.toBase58(),
+        openOrdersAdmin: optionalKey(account.openOrdersAdmin),
+        consumeEventsAdmin: optionalKey(account.consumeEventsAdmin),
+        closeMarketAdmin: optionalKey(account.closeMarketAdmin),
+        bids: account.bids.toBase58(),
+        asks: account.asks.toBase58(),
+        eventHeap: account.eventHeap.toBase58(),
+        baseVault: account.marketBaseVault.toBase58(),
+        quoteVault: account.marketQuoteVault.toBase58(),
+        baseDepositTotal: market.baseNativeToUi(account.baseDepositTotal),
+        quoteDepositTotal: market.quoteNativeToUi(account.quoteDepositTotal),
+        feesAccrued: market.quoteNativeToUi(account.feesAccrued),
+        feesToReferrers: market.quoteNativeToUi(account.feesToReferrers),
+        referrerRebatesAccrued: market.quoteNativeToUi(account.referrerRebatesAccrued),
+        feesAvailable: market.quoteNativeToUi(account.feesAvailable),
+        makerVolume: market.quoteNativeToUi(account.makerVolume),
+        takerVolumeWoOo: market.quoteNativeToUi(account.takerVolumeWoOo),
+        seqNum: account.seqNum.toString(),
+      };
+
+      emitResult(info);
+      if (isTableOutput()) {
+        printMarketInfo(info);
+      }
+    } catch (error) {
+      logger.error(`Error fetching market info: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default marketInfo;
@@ -2,25 +2,35 @@
  * CLI Command: limitOrder
  * 
  * Description
- * Places a limit order on OpenBook by specifying the market, order parameters, and OpenOrders account.
+ * Places an order on OpenBook by specifying the market, order parameters, and OpenOrders account.
+ * After the transaction confirms, a summary of the filled and resting size is printed.
  *
  * Example Usage
  * npx ts-node cli.ts limitOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --side bid --price 100 --size 1
+ * npx ts-node cli.ts limitOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --side bid --size 1 --orderType market --maxQuote 105
  *  
  * Parameters
  * --market (Required): Public key of the market where the order will be placed.
  * --openOrders (Required): Public key of the OpenOrders account.
- * --ownerKeypair (Required): Path to the keypair file of the order owner.
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the order owner.
  * --side (Required): Order side, either 'bid' (buy) or 'ask' (sell).
- * --price (Required): Order price in UI units.
+ * --price (Required unless --orderType market): Order price in UI units.
  * --size (Required): Order size in UI units.
+ * --orderType (Optional, default: "limit"): One of limit, market, immediateOrCancel, fillOrKill, postOnly, postOnlySlide.
+ * --maxQuote (Optional): Maximum quote amount in UI units (fees included) a bid may spend. Defaults to price * size plus the taker fee.
+ * --clientOrderId (Optional): Client order ID to attach to the order. Defaults to the current time in milliseconds.
+ * --expiry (Optional): Good-till time, either a duration (e.g. 30m, 2h), a unix timestamp or an ISO date. At most 65535 seconds from now.
+ * --selfTrade (Optional, default: "decrementTake"): One of decrementTake, cancelProvide, abortTransaction.
+ * --force (Optional): Place the order even if it breaches the risk rules in openbook.risk.json.
+ * --delegateKeypair (Optional): Path to the keypair file of the account delegate, signing instead of the owner.
+ * --owner (Required with --delegateKeypair): Public key of the OpenOrders account owner.
+ * --dry-run (Optional): Simulate the order and print the result without sending it.
  */
 
 import { CommandModule } from 'yargs';
 import {
   createConnection,
   createClient,
-  loadKeypair,
   loadPublicKey,
   sendWithRetry,
   getDynamicPriorityFee
@@ -30,18 +40,59 @@ import { PublicKey, Connection, TransactionInstruction } from '@solana/web3.js';
 import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
 import { OpenBookV2Client, Market, type PlaceOrderArgs as OpenBookPlaceOrderArgs } from '@openbook-dex/openbook-v2';
 import logger from '../utils/logger';
+import { DEFAULTS } from '../utils/config';
+import { emitResult } from '../utils/output';
+import { exportTransaction } from '../utils/offline';
+import { checkDelegateArgs, explainPermissionError, loadSigner, verifyDelegate, type DelegateArgs } from '../utils/delegate';
 import { BN } from '@coral-xyz/anchor';
+import { getOpenBookErrorCode, handleOpenBookError } from '../utils/error';
+import {
+  ORDER_TYPE_CHOICES,
+  SELF_TRADE_CHOICES,
+  type OrderTypeName,
+  type SelfTradeName,
+  computeOrderLots,
+  parseClientOrderId,
+  parseExpiry,
+  summarizeExecution,
+  toPlaceOrderType,
+  toSelfTradeBehavior,
+} from '../utils/order';
+import { simulateInstructions } from '../utils/simulate';
+import { enforceRiskRules } from '../utils/risk';
 
 /**
  * Interface defining the required arguments for the limitOrder command.
  */
-interface CLIPlaceOrderArgs {
+interface CLIPlaceOrderArgs extends DelegateArgs {
   market: string;
   openOrders: string;
-  ownerKeypair: string;
   side: 'bid' | 'ask';
-  price: number;
+  price?: number;
   size: number;
+  orderType: OrderTypeName;
+  maxQuote?: number;
+  clientOrderId?: string;
+  expiry?: string;
+  selfTrade: SelfTradeName;
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output. Expiry is a unix timestamp in seconds. The execution fields are null
+ * when the OpenOrders account or the event heap could not be read back after the order.
+ */
+interface PlaceLimitOrderResult {
+  signature: string;
+  clientOrderId: string;
+  expiry: number | null;
+  requestedSize: number;
+  filledSize: number | null;
+  filledQuote: number | null;
+  averagePrice: number | null;
+  fillCount: number | null;
+  restingSize: number | null;
 }
 
 /**
@@ -54,24 +105,63 @@ const placeLimitOrder: CommandModule<{}, CLIPlaceOrderArgs> = {
     yargs
       .option('market', { type: 'string', demandOption: true, description: 'Market public key' })
       .option('openOrders', { type: 'string', demandOption: true, description: 'OpenOrders account public key' })
-      .option('ownerKeypair', { type: 'string', demandOption: true, description: 'Path to owner keypair file' })
+      .option('ownerKeypair', { type: 'string', description: 'Path to owner keypair file (omit with --signer)' })
+      .option('delegateKeypair', { type: 'string', description: 'Path to delegate keypair file (signs instead of the owner)' })
+      .option('owner', { type: 'string', description: 'Owner public key (required with --delegateKeypair)' })
       .option('side', {
         type: 'string',
         choices: ['bid', 'ask'] as const,
         demandOption: true,
         description: 'Order side (bid or ask)'
       })
-      .option('price', { type: 'number', demandOption: true, description: 'Order price in UI units' })
-      .option('size', { type: 'number', demandOption: true, description: 'Order size in UI units' }),
+      .option('price', { type: 'number', description: 'Order price in UI units (optional for market orders)' })
+      .option('size', { type: 'number', demandOption: true, description: 'Order size in UI units' })
+      .option('orderType', {
+        type: 'string',
+        choices: ORDER_TYPE_CHOICES,
+        default: 'limit' as OrderTypeName,
+        description: 'Order type'
+      })
+      .option('maxQuote', {
+        type: 'number',
+        description: 'Maximum quote amount in UI units (fees included) to spend on a bid'
+      })
+      .option('clientOrderId', {
+        type: 'string',
+        description: 'Client order ID to attach to the order (default: current time in ms)'
+      })
+      .option('expiry', {
+        type: 'string',
+        description: 'Good-till time: duration (e.g. 30m, 2h), unix timestamp or ISO date'
+      })
+      .option('selfTrade', {
+        type: 'string',
+        choices: SELF_TRADE_CHOICES,
+        default: 'decrementTake' as SelfTradeName,
+        description: 'Behavior when the order would match against your own orders'
+      })
+      .option('force', {
+        type: 'boolean',
+        description: 'Place the order even if it breaches the risk rules'
+      })
+      .check((argv) => {
+        if (argv.price === undefined && argv.orderType !== 'market') {
+          throw new Error(`--price is required for ${argv.orderType} orders.`);
+        }
+        if (argv.orderType === 'market' && argv.side === 'bid' && argv.price === undefined && argv.maxQuote === undefined) {
+          throw new Error('Market bids require either --price or --maxQuote.');
+        }
+        return checkDelegateArgs(argv);
+      }),
   handler: async (argv) => {
     // Establish a connection to the Solana blockchain
     const connection: Connection = createConnection();
 
-    // Load the owner's keypair from the specified file
-    const owner = loadKeypair(argv.ownerKeypair);
+    // Load the signing keypair: the owner's, or the delegate's with --delegateKeypair
+    const signer = loadSigner(argv);
 
-    // Create a wallet using the owner's keypair
-    const wallet = new Wallet(owner);
+    // Create a wallet using the signer's keypair
+    const wallet = new Wallet(signer);
 
     // Initialize an Anchor provider for interactions with the blockchain
     const provider = new AnchorProvider(connection, wallet, { commitment: 'confirmed' });
@@ -105,6 +195,7 @@ const placeLimitOrder: CommandModule<{}, CLIPlaceOrderArgs> = {
       if (openOrdersAccount.market.toString() !== marketPubkey.toString()) {
         throw new Error('OpenOrders account does not belong to the specified market.');
       }
+      verifyDelegate(argv, openOrdersAccount, signer.publicKey);
 
       logger.info('Loading market...');
       
@@ -114,31 +205,49 @@ const placeLimitOrder: CommandModule<{}, CLIPlaceOrderArgs> = {
       logger.info('Converting UI amounts to native amounts...');
       
       // Convert UI values to native format for placing the order
-      const priceNative = market.priceUiToLots(argv.price);
-      const sizeNative = market.baseUiToLots(argv.size);
-      const maxQuoteLotsIncludingFees = market.quoteUiToLots(argv.price * argv.size);
+      const { priceLots, maxBaseLots, maxQuoteLotsIncludingFees } = computeOrderLots(
+        market,
+        argv.side,
+        argv.orderType,
+        argv.size,
+        argv.price,
+        argv.maxQuote
+      );
+
+      // Reject fat-finger orders before anything is signed
+      await enforceRiskRules(
+        market,
+        openOrdersAccount,
+        [{ side: argv.side, size: argv.size, price: argv.price, maxQuote: argv.maxQuote }],
+        argv.force
+      );
 
       logger.info('Fetching associated token account...');
       
-      // Determine the associated token account based on order side
+      // Determine the associated token account based on order side. The signer authorizes any transfer
+      // into the market, so a delegate funds the order from its own token account
       const userTokenAccount = await getAssociatedTokenAddress(
         argv.side === 'bid' ? market.account.quoteMint : market.account.baseMint,
-        owner.publicKey
+        signer.publicKey
       );
 
-      logger.info('Constructing place order instruction...');
+      // Resolve the client order ID and good-till time
+      const clientOrderId = argv.clientOrderId ? parseClientOrderId(argv.clientOrderId) : new BN(Date.now());
+      const expiryTimestamp = argv.expiry ? parseExpiry(argv.expiry) : new BN(0);
+
+      logger.info(`Constructing ${argv.orderType} order instruction...`);
       
-      // Construct the limit order instruction
+      // Construct the order instruction
       const args: OpenBookPlaceOrderArgs = {
-        side: argv.side as 'bid' | 'ask',
-        priceLots: priceNative,
-        maxBaseLots: sizeNative,
+        side: argv.side === 'bid' ? { bid: {} } : { ask: {} },
+        priceLots,
+        maxBaseLots,
         maxQuoteLotsIncludingFees,
-        clientOrderId: new BN(Date.now()),
-        orderType: { limit: {} },
-        expiryTimestamp: new BN(0),
-        selfTradeBehavior: { decrementTake: {} },
-        limit: 16,
+        clientOrderId,
+        orderType: toPlaceOrderType(argv.orderType),
+        expiryTimestamp,
+        selfTradeBehavior: toSelfTradeBehavior(argv.selfTrade),
+        limit: DEFAULTS.ORDER_LIMIT,
       };
 
       // Generate the order placement instruction
@@ -154,12 +263,82 @@ const placeLimitOrder: CommandModule<{}, CLIPlaceOrderArgs> = {
       // Fetch the dynamic priority fee for transaction processing
       const finalPriorityFee = await getDynamicPriorityFee(connection);
 
+      if (argv.dryRun) {
+        const simulation = await simulateInstructions(client, connection, signer.publicKey, [placeOrderIx], finalPriorityFee);
+        if (!simulation.success) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (argv.export) {
+        await exportTransaction(connection, signer.publicKey, [placeOrderIx], finalPriorityFee, argv.export, argv.nonceAccount);
+        return;
+      }
+
       // Send the transaction with retry logic
       const signature = await sendWithRetry(provider, connection, [placeOrderIx], finalPriorityFee);
 
       logger.info(`Order placed successfully. Transaction Signature: ${signature}`);
+      logger.info(`  Client Order ID: ${clientOrderId.toString()} (cancel with --clientOrderId ${clientOrderId.toString()})`);
+      logger.info(`  Expiry: ${expiryTimestamp.isZero() ? 'none' : new Date(expiryTimestamp.toNumber() * 1000).toISOString()}`);
+
+      const result: PlaceLimitOrderResult = {
+        signature,
+        clientOrderId: clientOrderId.toString(),
+        expiry: expiryTimestamp.isZero() ? null : expiryTimestamp.toNumber(),
+        requestedSize: argv.size,
+        filledSize: null,
+        filledQuote: null,
+        averagePrice: null,
+        fillCount: null,
+        restingSize: null,
+      };
+
+      // Report what actually filled and what is resting on the book. The order has landed at this point,
+      // so a failed read only leaves the execution fields empty instead of failing the command
+      try {
+        const openOrdersAfter = await client.deserializeOpenOrderAccount(openOrdersPubkey);
+        if (openOrdersAfter) {
+          const summary = await summarizeExecution(
+            market,
+            openOrdersPubkey,
+            clientOrderId,
+            argv.side,
+            openOrdersAccount.position,
+            openOrdersAfter.position
+          );
+          logger.info('Execution Summary:');
+          logger.info(`  Requested Size: ${argv.size}`);
+          logger.info(`  Filled Size: ${summary.filledBase} (${summary.fillCount} fill(s))`);
+          logger.info(`  Filled Quote: ${summary.filledQuote}`);
+          logger.info(`  Average Fill Price: ${summary.averagePrice?.toFixed(4) ?? 'N/A'}`);
+          logger.info(`  Resting Size: ${summary.restingBase}`);
+
+          result.filledSize = summary.filledBase;
+          result.filledQuote = summary.filledQuote;
+          result.averagePrice = summary.averagePrice;
+          result.fillCount = summary.fillCount;
+          result.restingSize = summary.restingBase;
+        }
+      } catch (error) {
+        logger.warn(
+          `Order landed, but its execution could not be read back: ${error instanceof Error ? error.message : error}`
+        );
+      }
+      emitResult(result);
     } catch (error) {
-      logger.error('Error occurred while placing order:', error instanceof Error ? error.message : error);
+      logger.error(`Error occurred while placing order: ${error instanceof Error ? error.message : error}`);
+      handleOpenBookError(error);
+      explainPermissionError(error);
+
+      // Explain rejections that depend on the chosen order type
+      const errorCode = getOpenBookErrorCode(error);
+      if (errorCode === 110) {
+        logger.error(`The ${argv.orderType} order type was rejected. Taker orders must use market or immediateOrCancel.`);
+      } else if (errorCode === 304) {
+        logger.error('The fillOrKill order could not be filled completely at the given price and was not executed.');
+      }
       
       // Provide additional info if the transaction expired
       if (error instanceof Error && error.message.includes('block height exceeded')) {
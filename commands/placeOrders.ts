@@ -0,0 +1,435 @@
+/**
+ * CLI Command: placeOrders
+ *
+ * Description
+ * Places a ladder of orders on OpenBook using the batch place-orders instruction. Orders are read from a
+ * JSON/CSV file or generated from a grid spec, grouped into batch instructions and packed into as few
+ * transactions as possible. With `--replace`, the first batch cancels all resting orders of the account
+ * and places the new ones atomically. A result line is printed for every order. After each transaction, the
+ * OpenOrders account is read back, so orders the program skipped (e.g. post-only orders that would cross) or
+ * that filled at once are not reported as resting.
+ *
+ * Example Usage
+ * npx ts-node cli.ts placeOrders --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --file orders.csv
+ * npx ts-node cli.ts placeOrders --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --side bid --startPrice 100 --endPrice 95 --levels 6 --sizePerLevel 0.5
+ *
+ * Parameters
+ * --market (Required): Public key of the market where the orders will be placed.
+ * --openOrders (Required): Public key of the OpenOrders account.
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the order owner.
+ * --file (Optional): JSON or CSV file with orders (side, price, size and optional expiry).
+ * --side, --startPrice, --endPrice, --levels, --sizePerLevel (Optional): Grid spec, used when no file is given.
+ * --orderType (Optional, default: "postOnly"): One of limit, postOnly, postOnlySlide.
+ * --expiry (Optional): Default good-till time for orders without their own expiry.
+ * --ordersPerInstruction (Optional, default: 5): Maximum number of orders per batch instruction.
+ * --replace (Optional): Cancel all resting orders of the account in the same transaction as the first batch.
+ * --force (Optional): Place the orders even if they breach the risk rules in openbook.risk.json.
+ * --dry-run (Optional): Simulate every transaction of the ladder and print the results without sending them.
+ */
+
+import { CommandModule } from 'yargs';
+import {
+  createConnection,
+  createClient,
+  loadPublicKey,
+  sendWithRetry,
+  getDynamicPriorityFee,
+  packInstructions,
+} from '../utils/helper';
+import { getAssociatedTokenAddress } from '@solana/spl-token';
+import { Connection, TransactionInstruction } from '@solana/web3.js';
+import { AnchorProvider, Wallet, BN } from '@coral-xyz/anchor';
+import { Market, type OpenOrder, type PlaceMultipleOrdersArgs } from '@openbook-dex/openbook-v2';
+import logger from '../utils/logger';
+import { DEFAULTS } from '../utils/config';
+import { emitResult } from '../utils/output';
+import { checkOwnerArgs, exportTransaction, loadOwner, type OwnerArgs } from '../utils/offline';
+import { getOpenBookErrorCode, getOpenBookErrorMessage } from '../utils/error';
+import { getOpenOrdersAdmin, parseExpiry, toPlaceOrderType } from '../utils/order';
+import { buildGridOrders, loadOrdersFromFile, type LadderOrder } from '../utils/ladder';
+import { enforceRiskRules } from '../utils/risk';
+import { simulateInstructions } from '../utils/simulate';
+
+// An OpenOrders account can hold at most 24 resting orders
+const MAX_OPEN_ORDERS = 24;
+
+/**
+ * Interface defining the arguments for the placeOrders command.
+ */
+interface CLIPlaceOrdersArgs extends OwnerArgs {
+  market: string;
+  openOrders: string;
+  file?: string;
+  side?: 'bid' | 'ask';
+  startPrice?: number;
+  endPrice?: number;
+  levels?: number;
+  sizePerLevel?: number;
+  orderType: 'limit' | 'postOnly' | 'postOnlySlide';
+  expiry?: string;
+  ordersPerInstruction: number;
+  replace?: boolean;
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output. CSV output has one row per order.
+ * Orders sent in the same transaction share its signature. placed is true if the order rests on the book
+ * after the transaction, and null if the OpenOrders account could not be read back.
+ */
+interface PlaceOrdersResult {
+  orders: {
+    index: number;
+    transaction: number;
+    side: 'bid' | 'ask';
+    price: number;
+    size: number;
+    placed: boolean | null;
+    signature: string | null;
+    error: string | null;
+  }[];
+}
+
+/**
+ * A batch of orders placed by a single instruction, with the client order ID and price lots of each order.
+ */
+interface OrderBatch {
+  orders: LadderOrder[];
+  clientOrderIds: number[];
+  priceLots: BN[];
+  instruction: TransactionInstruction;
+}
+
+/**
+ * Finds the resting order that a batch order became among the orders new to the account.
+ * The program numbers the orders of a batch instruction as client order IDs, bids first, so IDs repeat
+ * across instructions. Among equal IDs and sides, the order at the requested price is preferred, as
+ * post-only-slide orders may rest at another price.
+ * @returns The index of the matching order in `newOrders`, or -1 if the order is not resting.
+ */
+function findRestingOrder(newOrders: OpenOrder[], side: 'bid' | 'ask', clientOrderId: number, priceLots: BN): number {
+  const candidates = newOrders
+    .map((slot, index) => ({ slot, index }))
+    .filter(({ slot }) => slot.clientId.eqn(clientOrderId) && (slot.sideAndTree % 2 === 0 ? 'bid' : 'ask') === side);
+  const match = candidates.find(({ slot }) => slot.lockedPrice.eq(priceLots)) ?? candidates[0];
+  return match?.index ?? -1;
+}
+
+/**
+ * CLI command to place a ladder of orders on OpenBook.
+ */
+const placeOrders: CommandModule<{}, CLIPlaceOrdersArgs> = {
+  command: 'placeOrders',
+  describe: 'Place a ladder of orders from a file or a grid spec',
+  builder: (yargs) =>
+    yargs
+      .option('market', { type: 'string', demandOption: true, description: 'Market public key' })
+      .option('openOrders', { type: 'string', demandOption: true, description: 'OpenOrders account public key' })
+      .option('ownerKeypair', { type: 'string', description: 'Path to owner keypair file (omit with --signer)' })
+      .option('file', { type: 'string', description: 'JSON or CSV file with orders (side, price, size, expiry)' })
+      .option('side', {
+        type: 'string',
+        choices: ['bid', 'ask'] as const,
+        description: 'Grid side (bid or ask)'
+      })
+      .option('startPrice', { type: 'number', description: 'Grid start price in UI units' })
+      .option('endPrice', { type: 'number', description: 'Grid end price in UI units' })
+      .option('levels', { type: 'number', description: 'Number of grid levels' })
+      .option('sizePerLevel', { type: 'number', description: 'Order size per grid level in UI units' })
+      .option('orderType', {
+        type: 'string',
+        choices: ['limit', 'postOnly', 'postOnlySlide'] as const,
+        default: 'postOnly' as const,
+        description: 'Order type applied to every order'
+      })
+      .option('expiry', {
+        type: 'string',
+        description: 'Default good-till time: duration (e.g. 30m, 2h), unix timestamp or ISO date'
+      })
+      .option('ordersPerInstruction', {
+        type: 'number',
+        default: 5,
+        description: 'Maximum number of orders per batch instruction'
+      })
+      .option('replace', {
+        type: 'boolean',
+        description: 'Cancel all resting orders of the account before placing the ladder'
+      })
+      .option('force', {
+        type: 'boolean',
+        description: 'Place the orders even if they breach the risk rules'
+      })
+      .check((argv) => {
+        const gridOptions = [argv.side, argv.startPrice, argv.endPrice, argv.levels, argv.sizePerLevel];
+        if (argv.file && gridOptions.some((value) => value !== undefined)) {
+          throw new Error('Specify either --file or a grid spec, but not both.');
+        }
+        if (!argv.file && gridOptions.some((value) => value === undefined)) {
+          throw new Error('Provide --file, or all of --side, --startPrice, --endPrice, --levels and --sizePerLevel.');
+        }
+        if (!Number.isInteger(argv.ordersPerInstruction) || argv.ordersPerInstruction < 1) {
+          throw new Error('--ordersPerInstruction must be a positive integer.');
+        }
+        return checkOwnerArgs(argv);
+      }),
+  handler: async (argv) => {
+    // Establish a connection to the Solana blockchain
+    const connection: Connection = createConnection();
+
+    // Load the owner's keypair and set up the provider
+    const owner = loadOwner(argv);
+    const wallet = new Wallet(owner);
+    const provider = new AnchorProvider(connection, wallet, { commitment: 'confirmed' });
+
+    // Create an OpenBook client to interact with the OpenBook DEX
+    const client = createClient(provider);
+
+    // Load the public keys for the specified market and OpenOrders account
+    const marketPubkey = loadPublicKey(argv.market);
+    const openOrdersPubkey = loadPublicKey(argv.openOrders);
+
+    try {
+      // Collect the orders to place
+      const orders = argv.file
+        ? loadOrdersFromFile(argv.file)
+        : buildGridOrders({
+            side: argv.side!,
+            startPrice: argv.startPrice!,
+            endPrice: argv.endPrice!,
+            levels: argv.levels!,
+            sizePerLevel: argv.sizePerLevel!,
+          });
+      logger.info(`Loaded ${orders.length} order(s).`);
+
+      logger.info('Loading market...');
+      const market = await Market.load(client, marketPubkey);
+
+      logger.info('Deserializing OpenOrders account...');
+      const openOrdersAccount = await client.deserializeOpenOrderAccount(openOrdersPubkey);
+      if (!openOrdersAccount) {
+        throw new Error('OpenOrders account not found.');
+      }
+
+      // Ensure the OpenOrders account matches the specified market
+      if (openOrdersAccount.market.toString() !== marketPubkey.toString()) {
+        throw new Error('OpenOrders account does not belong to the specified market.');
+      }
+
+      // Make sure the account has room for the whole ladder
+      const freeSlots = argv.replace
+        ? MAX_OPEN_ORDERS
+        : openOrdersAccount.openOrders.filter((slot) => slot.isFree).length;
+      if (orders.length > freeSlots) {
+        throw new Error(
+          `OpenOrders account has ${freeSlots} free order slot(s) but ${orders.length} orders were requested.`
+        );
+      }
+
+      // Check the whole ladder against the risk rules before anything is signed
+      await enforceRiskRules(
+        market,
+        openOrdersAccount,
+        orders.map((order) => ({ side: order.side, size: order.size, price: order.price })),
+        argv.force,
+        { replacesAllOrders: argv.replace }
+      );
+
+      // Both token accounts are passed to every batch instruction
+      const userBaseAccount = await getAssociatedTokenAddress(market.account.baseMint, owner.publicKey);
+      const userQuoteAccount = await getAssociatedTokenAddress(market.account.quoteMint, owner.publicKey);
+      const defaultExpiry = argv.expiry ? parseExpiry(argv.expiry) : new BN(0);
+      const orderType = toPlaceOrderType(argv.orderType);
+      const openOrdersAdmin = getOpenOrdersAdmin(market);
+
+      logger.info('Constructing batch place-order instructions...');
+      const batches: OrderBatch[] = [];
+      for (let i = 0; i < orders.length; i += argv.ordersPerInstruction) {
+        const batchOrders = orders.slice(i, i + argv.ordersPerInstruction);
+        const bids: PlaceMultipleOrdersArgs[] = [];
+        const asks: PlaceMultipleOrdersArgs[] = [];
+        const priceLotsPerOrder: BN[] = [];
+
+        for (const order of batchOrders) {
+          // Batch orders are sized by their quote amount, so price * size fixes the base size
+          const priceLots = market.priceUiToLots(order.price);
+          const maxQuoteLotsIncludingFees = market.quoteUiToLots(order.price * order.size);
+          if (priceLots.lten(0) || maxQuoteLotsIncludingFees.lten(0)) {
+            throw new Error(`Order ${order.side} ${order.size} @ ${order.price} is below the market tick or lot size.`);
+          }
+          const args: PlaceMultipleOrdersArgs = {
+            priceLots,
+            maxQuoteLotsIncludingFees,
+            expiryTimestamp: order.expiry ? parseExpiry(order.expiry) : defaultExpiry,
+          };
+          (order.side === 'bid' ? bids : asks).push(args);
+          priceLotsPerOrder.push(priceLots);
+        }
+
+        // Client order IDs are assigned by the program: the index of the order among the bids, then the asks
+        let bidIndex = 0;
+        let askIndex = bids.length;
+        const clientOrderIds = batchOrders.map((order) => (order.side === 'bid' ? bidIndex++ : askIndex++));
+
+        // With --replace, the first batch also cancels every resting order of the account
+        const buildIx = (argv.replace && i === 0 ? client.cancelAllAndPlaceOrdersIx : client.placeOrdersIx).bind(client);
+        const [instruction] = await buildIx(
+          openOrdersPubkey,
+          marketPubkey,
+          market.account,
+          userBaseAccount,
+          userQuoteAccount,
+          openOrdersAdmin,
+          orderType,
+          bids,
+          asks,
+          DEFAULTS.ORDER_LIMIT
+        );
+        batches.push({ orders: batchOrders, clientOrderIds, priceLots: priceLotsPerOrder, instruction });
+      }
+
+      // Pack the batch instructions into as few transactions as possible
+      const transactions = packInstructions(
+        owner.publicKey,
+        batches.map((batch) => batch.instruction)
+      );
+      logger.info(
+        `Placing ${orders.length} order(s) in ${batches.length} instruction(s) across ${transactions.length} transaction(s)...`
+      );
+
+      // Fetch the dynamic priority fee once for all transactions
+      const finalPriorityFee = await getDynamicPriorityFee(connection);
+
+      if (argv.dryRun) {
+        // Each transaction is simulated against the current state, without the effects of the ones before it
+        let failedSimulations = 0;
+        for (const instructions of transactions) {
+          const simulation = await simulateInstructions(client, connection, owner.publicKey, instructions, finalPriorityFee);
+          if (!simulation.success) {
+            failedSimulations++;
+          }
+        }
+        if (failedSimulations > 0) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (argv.export) {
+        // An exported transaction is signed as a whole, so the ladder must fit into one
+        if (transactions.length > 1) {
+          throw new Error(
+            `The ladder needs ${transactions.length} transactions, but --export supports a single transaction. Place fewer orders per run.`
+          );
+        }
+        await exportTransaction(
+          connection,
+          owner.publicKey,
+          transactions[0],
+          finalPriorityFee,
+          argv.export,
+          argv.nonceAccount
+        );
+        return;
+      }
+
+      const placed: PlaceOrdersResult = { orders: [] };
+      let batchIndex = 0;
+      let orderNumber = 0;
+      let failures = 0;
+      // Orders already on the account, to tell the orders of each transaction apart
+      let knownOrderIds = new Set(
+        openOrdersAccount.openOrders.filter((slot) => !slot.isFree).map((slot) => slot.id.toString())
+      );
+      for (const [txIndex, instructions] of transactions.entries()) {
+        const txBatches = batches.slice(batchIndex, batchIndex + instructions.length);
+        batchIndex += instructions.length;
+
+        let signature: string | null = null;
+        let failure: string | null = null;
+        try {
+          signature = await sendWithRetry(provider, connection, instructions, finalPriorityFee);
+        } catch (error) {
+          const errorCode = getOpenBookErrorCode(error);
+          failure =
+            errorCode !== null
+              ? `OpenBook Error (${errorCode}): ${getOpenBookErrorMessage(errorCode)}`
+              : `${error instanceof Error ? error.message : error}`;
+          failures += txBatches.reduce((count, batch) => count + batch.orders.length, 0);
+        }
+
+        // The transaction succeeds even if the program skips some of its orders, so check what actually rests
+        let newOrders: OpenOrder[] | null = null;
+        if (signature) {
+          try {
+            const openOrdersAfter = await client.deserializeOpenOrderAccount(openOrdersPubkey);
+            if (!openOrdersAfter) {
+              throw new Error('OpenOrders account not found.');
+            }
+            const resting = openOrdersAfter.openOrders.filter((slot) => !slot.isFree);
+            newOrders = resting.filter((slot) => !knownOrderIds.has(slot.id.toString()));
+            knownOrderIds = new Set(resting.map((slot) => slot.id.toString()));
+          } catch (error) {
+            logger.warn(
+              `Transaction ${signature} landed, but the OpenOrders account could not be read back: ` +
+                `${error instanceof Error ? error.message : error}`
+            );
+          }
+        }
+
+        logger.info(`Transaction ${txIndex + 1}/${transactions.length}:`);
+        for (const batch of txBatches) {
+          for (const [index, order] of batch.orders.entries()) {
+            orderNumber++;
+            let isPlaced: boolean | null = false;
+            let error = failure;
+            let result = `failed: ${failure}`;
+            if (signature && !newOrders) {
+              isPlaced = null;
+              result = `sent (TX: ${signature}), resting state unknown`;
+            } else if (signature && newOrders) {
+              const match = findRestingOrder(newOrders, order.side, batch.clientOrderIds[index], batch.priceLots[index]);
+              if (match >= 0) {
+                newOrders.splice(match, 1);
+                isPlaced = true;
+                result = `placed (TX: ${signature})`;
+              } else if (argv.orderType === 'postOnly') {
+                error = 'Not placed: the post-only order would have crossed the book.';
+                result = `skipped (TX: ${signature}): ${error}`;
+                failures++;
+              } else {
+                error = 'Not resting: the order was filled when it was placed.';
+                result = `filled (TX: ${signature})`;
+              }
+            }
+            logger.info(`  ${orderNumber}. ${order.side.toUpperCase()} ${order.size} @ ${order.price} - ${result}`);
+            placed.orders.push({
+              index: orderNumber,
+              transaction: txIndex + 1,
+              side: order.side,
+              price: order.price,
+              size: order.size,
+              placed: isPlaced,
+              signature,
+              error,
+            });
+          }
+        }
+      }
+
+      emitResult(placed, placed.orders);
+
+      if (failures > 0) {
+        logger.error(`${failures} of ${orders.length} order(s) failed or were not placed.`);
+        process.exit(1);
+      }
+      const restingCount = placed.orders.filter((order) => order.placed).length;
+      logger.info(`${restingCount} of ${orders.length} order(s) resting on the book.`);
+    } catch (error) {
+      logger.error(`Error occurred while placing orders: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default placeOrders;
@@ -0,0 +1,275 @@
+/**
+ * CLI Command: pegOrder
+ *
+ * Description
+ * Places an oracle-pegged order on OpenBook. The order rests at the oracle price plus a fixed offset
+ * and follows the oracle without re-quoting, until the effective price crosses the peg limit.
+ * The command refuses to run on markets without an oracle.
+ *
+ * Example Usage
+ * npx ts-node cli.ts pegOrder --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --side bid --priceOffset -0.05 --pegLimit 105 --size 1
+ *
+ * Parameters
+ * --market (Required): Public key of the market where the order will be placed.
+ * --openOrders (Required): Public key of the OpenOrders account.
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the order owner.
+ * --side (Required): Order side, either 'bid' (buy) or 'ask' (sell).
+ * --priceOffset (Required): Offset from the oracle price in UI units (negative = below the oracle).
+ * --pegLimit (Required): Worst price in UI units the pegged order may reach (highest for bids, lowest for asks).
+ * --size (Required): Order size in UI units.
+ * --timeInForce (Optional, default: 0): Seconds until the order expires, at most 65535. 0 means no expiry.
+ * --orderType (Optional, default: "limit"): Either limit or postOnly.
+ * --force (Optional): Place the order even if it breaches the risk rules in openbook.risk.json.
+ * --dry-run (Optional): Simulate the order and print the result without sending it.
+ */
+
+import { CommandModule } from 'yargs';
+import {
+  createConnection,
+  createClient,
+  loadPublicKey,
+  sendWithRetry,
+  getDynamicPriorityFee
+} from '../utils/helper';
+import { getAssociatedTokenAddress } from '@solana/spl-token';
+import { Connection } from '@solana/web3.js';
+import { AnchorProvider, Wallet, BN } from '@coral-xyz/anchor';
+import { Market, type PlaceOrderPeggedArgs } from '@openbook-dex/openbook-v2';
+import logger from '../utils/logger';
+import { DEFAULTS } from '../utils/config';
+import { emitResult } from '../utils/output';
+import { checkOwnerArgs, exportTransaction, loadOwner, type OwnerArgs } from '../utils/offline';
+import { getOpenBookErrorCode, handleOpenBookError } from '../utils/error';
+import {
+  computeOrderLots,
+  MAX_TIME_IN_FORCE,
+  getOpenOrdersAdmin,
+  hasOracle,
+  priceOffsetUiToLots,
+  toPlaceOrderType,
+} from '../utils/order';
+import { enforceRiskRules } from '../utils/risk';
+import { simulateInstructions } from '../utils/simulate';
+
+/**
+ * Interface defining the required arguments for the pegOrder command.
+ */
+interface CLIPegOrderArgs extends OwnerArgs {
+  market: string;
+  openOrders: string;
+  side: 'bid' | 'ask';
+  priceOffset: number;
+  pegLimit: number;
+  size: number;
+  timeInForce: number;
+  orderType: 'limit' | 'postOnly';
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output. Expiry is a unix timestamp in seconds.
+ */
+interface PlacePegOrderResult {
+  signature: string;
+  clientOrderId: string;
+  priceOffset: number;
+  pegLimit: number;
+  expiry: number | null;
+}
+
+/**
+ * CLI command to place an oracle-pegged order on OpenBook.
+ */
+const placePegOrder: CommandModule<{}, CLIPegOrderArgs> = {
+  command: 'pegOrder',
+  describe: 'Place an oracle-pegged order on OpenBook',
+  builder: (yargs) =>
+    yargs
+      .option('market', { type: 'string', demandOption: true, description: 'Market public key' })
+      .option('openOrders', { type: 'string', demandOption: true, description: 'OpenOrders account public key' })
+      .option('ownerKeypair', { type: 'string', description: 'Path to owner keypair file (omit with --signer)' })
+      .option('side', {
+        type: 'string',
+        choices: ['bid', 'ask'] as const,
+        demandOption: true,
+        description: 'Order side (bid or ask)'
+      })
+      .option('priceOffset', {
+        type: 'number',
+        demandOption: true,
+        description: 'Offset from the oracle price in UI units (negative = below the oracle)'
+      })
+      .option('pegLimit', {
+        type: 'number',
+        demandOption: true,
+        description: 'Worst price in UI units the pegged order may reach'
+      })
+      .option('size', { type: 'number', demandOption: true, description: 'Order size in UI units' })
+      .option('timeInForce', {
+        type: 'number',
+        default: 0,
+        description: 'Seconds until the order expires (0 = no expiry)'
+      })
+      .option('orderType', {
+        type: 'string',
+        choices: ['limit', 'postOnly'] as const,
+        default: 'limit' as const,
+        description: 'Order type'
+      })
+      .option('force', {
+        type: 'boolean',
+        description: 'Place the order even if it breaches the risk rules'
+      })
+      .check((argv) => {
+        if (argv.pegLimit <= 0) {
+          throw new Error('--pegLimit must be greater than zero.');
+        }
+        if (argv.timeInForce < 0) {
+          throw new Error('--timeInForce cannot be negative.');
+        }
+        if (argv.timeInForce > MAX_TIME_IN_FORCE) {
+          throw new Error(`--timeInForce cannot exceed ${MAX_TIME_IN_FORCE} seconds, the longest time in force of OpenBook orders.`);
+        }
+        return checkOwnerArgs(argv);
+      }),
+  handler: async (argv) => {
+    // Establish a connection to the Solana blockchain
+    const connection: Connection = createConnection();
+
+    // Load the owner's keypair and set up the provider
+    const owner = loadOwner(argv);
+    const wallet = new Wallet(owner);
+    const provider = new AnchorProvider(connection, wallet, { commitment: 'confirmed' });
+
+    // Create an OpenBook client to interact with the OpenBook DEX
+    const client = createClient(provider);
+
+    // Load the public keys for the specified market and OpenOrders account
+    const marketPubkey = loadPublicKey(argv.market);
+    const openOrdersPubkey = loadPublicKey(argv.openOrders);
+
+    try {
+      logger.info('Loading market...');
+      const market = await Market.load(client, marketPubkey);
+
+      // Oracle peg orders can only rest on markets with an oracle
+      if (!hasOracle(market)) {
+        throw new Error('Market has no oracle configured. Oracle peg orders are not supported on this market.');
+      }
+
+      logger.info('Deserializing OpenOrders account...');
+      const openOrdersAccount = await client.deserializeOpenOrderAccount(openOrdersPubkey);
+      if (!openOrdersAccount) {
+        throw new Error('OpenOrders account not found.');
+      }
+
+      // Ensure the OpenOrders account matches the specified market
+      if (openOrdersAccount.market.toString() !== marketPubkey.toString()) {
+        throw new Error('OpenOrders account does not belong to the specified market.');
+      }
+
+      logger.info('Converting UI amounts to native amounts...');
+
+      // The peg limit is the worst price the order can reach, so it also bounds the quote a bid may lock
+      const { priceLots: pegLimitLots, maxBaseLots, maxQuoteLotsIncludingFees } = computeOrderLots(
+        market,
+        argv.side,
+        argv.orderType,
+        argv.size,
+        argv.pegLimit
+      );
+      const priceOffsetLots = priceOffsetUiToLots(market, argv.priceOffset);
+
+      // The price follows the oracle, so the order is checked at its peg limit
+      await enforceRiskRules(
+        market,
+        openOrdersAccount,
+        [{ side: argv.side, size: argv.size, price: argv.pegLimit, pegged: true }],
+        argv.force
+      );
+
+      // Determine the associated token account based on order side
+      const userTokenAccount = await getAssociatedTokenAddress(
+        argv.side === 'bid' ? market.account.quoteMint : market.account.baseMint,
+        owner.publicKey
+      );
+
+      const expiryTimestamp =
+        argv.timeInForce > 0 ? new BN(Math.floor(Date.now() / 1000) + argv.timeInForce) : new BN(0);
+
+      logger.info('Constructing pegged order instruction...');
+      const clientOrderId = new BN(Date.now());
+      const args: PlaceOrderPeggedArgs = {
+        side: argv.side === 'bid' ? { bid: {} } : { ask: {} },
+        priceOffsetLots,
+        pegLimit: pegLimitLots,
+        maxBaseLots,
+        maxQuoteLotsIncludingFees,
+        clientOrderId,
+        orderType: toPlaceOrderType(argv.orderType),
+        expiryTimestamp,
+        selfTradeBehavior: { decrementTake: {} },
+        limit: DEFAULTS.ORDER_LIMIT,
+      };
+
+      const [placeOrderIx] = await client.placeOrderPeggedIx(
+        openOrdersPubkey,
+        marketPubkey,
+        market.account,
+        userTokenAccount,
+        getOpenOrdersAdmin(market),
+        args,
+        []
+      );
+
+      // Fetch the dynamic priority fee for transaction processing
+      const finalPriorityFee = await getDynamicPriorityFee(connection);
+
+      if (argv.dryRun) {
+        const simulation = await simulateInstructions(client, connection, owner.publicKey, [placeOrderIx], finalPriorityFee);
+        if (!simulation.success) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (argv.export) {
+        await exportTransaction(connection, owner.publicKey, [placeOrderIx], finalPriorityFee, argv.export, argv.nonceAccount);
+        return;
+      }
+
+      // Send the transaction with retry logic
+      const signature = await sendWithRetry(provider, connection, [placeOrderIx], finalPriorityFee);
+
+      logger.info(`Pegged order placed successfully. Transaction Signature: ${signature}`);
+      logger.info(`  Client Order ID: ${clientOrderId.toString()}`);
+      logger.info(`  Oracle Offset: ${argv.priceOffset} | Peg Limit: ${argv.pegLimit}`);
+      logger.info(`  Expiry: ${expiryTimestamp.isZero() ? 'none' : new Date(expiryTimestamp.toNumber() * 1000).toISOString()}`);
+
+      const result: PlacePegOrderResult = {
+        signature,
+        clientOrderId: clientOrderId.toString(),
+        priceOffset: argv.priceOffset,
+        pegLimit: argv.pegLimit,
+        expiry: expiryTimestamp.isZero() ? null : expiryTimestamp.toNumber(),
+      };
+      emitResult(result);
+    } catch (error) {
+      logger.error(`Error occurred while placing pegged order: ${error instanceof Error ? error.message : error}`);
+      handleOpenBookError(error);
+
+      // Explain rejections specific to pegged orders
+      const errorCode = getOpenBookErrorCode(error);
+      if (errorCode === 109) {
+        logger.error('Check --pegLimit: it must be a positive price on the market tick grid.');
+      } else if (errorCode === 300) {
+        logger.error('This market does not accept oracle peg orders. Use limitOrder with a fixed price instead.');
+      }
+
+      process.exit(1);
+    }
+  },
+};
+
+export default placePegOrder;
@@ -0,0 +1,262 @@
+/**
+ * CLI Command: portfolio
+ *
+ * Description
+ * Displays every OpenOrders account of a wallet in one view. The accounts are taken from the wallet's
+ * OpenOrdersIndexer and loaded together with their markets and order books in batched account fetches.
+ * For each account, the command shows the market, the free and locked base and quote balances, the number
+ * and notional of its open orders and the referrer rebates not yet settled. Totals per token follow at the end,
+ * optionally valued in USD.
+ * Oracle-pegged orders are valued at the mid price plus their offset, as the oracle price is not loaded.
+ *
+ * Example Usage
+ * npx ts-node cli.ts portfolio <WALLET_PUBLIC_KEY>
+ * npx ts-node cli.ts portfolio <WALLET_PUBLIC_KEY> --usd
+ * npx ts-node cli.ts portfolio <WALLET_PUBLIC_KEY> --usd --priceSource prices.json --output json
+ *
+ * Parameters
+ * --wallet (Required): Public key of the wallet that owns the OpenOrders accounts.
+ * --usd (Optional): Value the token totals in USD.
+ * --priceSource (Optional, default: "jupiter"): USD price source, either jupiter or a JSON file mapping mints to prices.
+ */
+
+import { CommandModule } from 'yargs';
+import { createConnection, createProvider, createClient, loadPublicKey, createStubWallet } from '../utils/helper';
+import { nameToString } from '@openbook-dex/openbook-v2';
+import logger from '../utils/logger';
+import { emitResult, isTableOutput } from '../utils/output';
+import { getL3Orders } from '../utils/orderBook';
+import { loadWalletOpenOrders, type WalletOpenOrders } from '../utils/portfolio';
+import { JUPITER_PRICE_SOURCE, loadPrices } from '../utils/prices';
+
+/**
+ * Interface defining the arguments for the portfolio command.
+ */
+interface PortfolioArgs {
+  wallet: string;
+  usd?: boolean;
+  priceSource: string;
+}
+
+/**
+ * An OpenOrders account of the portfolio. Balances are UI units of their token.
+ * Locked balances back resting orders: base for asks, quote (including locked maker fees) for bids.
+ * openNotional is the quote value of the open orders and referrerRebates the unsettled rebates in quote units.
+ */
+interface PortfolioAccount {
+  openOrders: string;
+  name: string;
+  market: string;
+  marketName: string;
+  baseMint: string;
+  quoteMint: string;
+  baseFree: number;
+  baseLocked: number;
+  quoteFree: number;
+  quoteLocked: number;
+  openOrderCount: number;
+  openNotional: number;
+  referrerRebates: number;
+}
+
+/**
+ * Totals of one token over all accounts. referrerRebates only accrue to quote tokens.
+ * price and usdValue are null without --usd or when the price source has no price for the mint.
+ */
+interface PortfolioTotal {
+  mint: string;
+  free: number;
+  locked: number;
+  referrerRebates: number;
+  total: number;
+  price: number | null;
+  usdValue: number | null;
+}
+
+/**
+ * Result schema in json/csv output. CSV output has one row per account; the totals are only part of json output.
+ * totalUsd sums the USD values of the tokens with a known price, and is null without --usd.
+ */
+interface PortfolioResult {
+  wallet: string;
+  accounts: PortfolioAccount[];
+  totals: PortfolioTotal[];
+  totalUsd: number | null;
+}
+
+/**
+ * Summarizes an OpenOrders account. The order book of its market must be loaded.
+ */
+function summarizeAccount({ pubkey, account, market }: WalletOpenOrders): PortfolioAccount {
+  const { position } = account;
+
+  // The account's orders on the book, with pegged orders valued at the mid price plus their offset
+  const bids = getL3Orders(market, 'bid');
+  const asks = getL3Orders(market, 'ask');
+  const bestBid = bids.find((order) => !order.pegged)?.price ?? null;
+  const bestAsk = asks.find((order) => !order.pegged)?.price ?? null;
+  const mid = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : bestBid ?? bestAsk;
+  const ownOrders = [...bids, ...asks].filter((order) => order.owner === pubkey.toBase58());
+  const openNotional = ownOrders.reduce((sum, order) => {
+    const price = order.price ?? (mid !== null ? mid + order.pegOffset! : 0);
+    return sum + price * order.size;
+  }, 0);
+
+  return {
+    openOrders: pubkey.toBase58(),
+    name: nameToString(account.name),
+    market: market.pubkey.toBase58(),
+    marketName: nameToString(market.account.name),
+    baseMint: market.account.baseMint.toBase58(),
+    quoteMint: market.account.quoteMint.toBase58(),
+    baseFree: market.baseNativeToUi(position.baseFreeNative),
+    baseLocked: market.baseLotsToUi(position.asksBaseLots),
+    quoteFree: market.quoteNativeToUi(position.quoteFreeNative),
+    quoteLocked: market.quoteLotsToUi(position.bidsQuoteLots) + market.quoteNativeToUi(position.lockedMakerFees),
+    openOrderCount: account.openOrders.filter((slot) => !slot.isFree).length,
+    openNotional,
+    referrerRebates: market.quoteNativeToUi(position.referrerRebatesAvailable),
+  };
+}
+
+/**
+ * Adds up the balances of all accounts per token, in order of first appearance.
+ */
+function totalByToken(accounts: PortfolioAccount[]): PortfolioTotal[] {
+  const totals = new Map<string, PortfolioTotal>();
+  const add = (mint: string, free: number, locked: number, referrerRebates: number) => {
+    const total = totals.get(mint) ?? { mint, free: 0, locked: 0, referrerRebates: 0, total: 0, price: null, usdValue: null };
+    total.free += free;
+    total.locked += locked;
+    total.referrerRebates += referrerRebates;
+    total.total = total.free + total.locked + total.referrerRebates;
+    totals.set(mint, total);
+  };
+
+  for (const account of accounts) {
+    add(account.baseMint, account.baseFree, account.baseLocked, 0);
+    add(account.quoteMint, account.quoteFree, account.quoteLocked, account.referrerRebates);
+  }
+  return [...totals.values()];
+}
+
+/**
+ * Formats an optional number for the table.
+ */
+function formatValue(value: number | null, decimals: number = 4): string {
+  return value === null ? 'N/A' : value.toFixed(decimals);
+}
+
+/**
+ * Prints the accounts table followed by the token totals.
+ */
+function printPortfolio(result: PortfolioResult): void {
+  console.log('\nOpenOrders Accounts');
+  console.log(
+    `${'Market'.padEnd(16)} | ${'OpenOrders Account'.padEnd(44)} | ${'Base Free'.padEnd(12)} | ${'Base Locked'.padEnd(12)} | ` +
+      `${'Quote Free'.padEnd(12)} | ${'Quote Locked'.padEnd(12)} | ${'Orders'.padEnd(6)} | ${'Notional'.padEnd(12)} | Rebates`
+  );
+  console.log('-'.repeat(170));
+  for (const account of result.accounts) {
+    console.log(
+      `${account.marketName.slice(0, 16).padEnd(16)} | ${account.openOrders.padEnd(44)} | ` +
+        `${formatValue(account.baseFree).padEnd(12)} | ${formatValue(account.baseLocked).padEnd(12)} | ` +
+        `${formatValue(account.quoteFree).padEnd(12)} | ${formatValue(account.quoteLocked).padEnd(12)} | ` +
+        `${String(account.openOrderCount).padEnd(6)} | ${formatValue(account.openNotional).padEnd(12)} | ` +
+        `${formatValue(account.referrerRebates)}`
+    );
+  }
+
+  console.log('\nTotals per Token');
+  console.log(
+    `${'Mint'.padEnd(44)} | ${'Free'.padEnd(14)} | ${'Locked'.padEnd(14)} | ${'Rebates'.padEnd(12)} | ` +
+      `${'Total'.padEnd(14)} | ${'Price ($)'.padEnd(12)} | Value ($)`
+  );
+  console.log('-'.repeat(140));
+  for (const total of result.totals) {
+    console.log(
+      `${total.mint.padEnd(44)} | ${formatValue(total.free).padEnd(14)} | ${formatValue(total.locked).padEnd(14)} | ` +
+        `${formatValue(total.referrerRebates).padEnd(12)} | ${formatValue(total.total).padEnd(14)} | ` +
+        `${formatValue(total.price).padEnd(12)} | ${formatValue(total.usdValue, 2)}`
+    );
+  }
+  if (result.totalUsd !== null) {
+    console.log(`\nTotal Value: $${result.totalUsd.toFixed(2)}`);
+  }
+}
+
+/**
+ * CLI command to display all OpenOrders accounts of a wallet.
+ */
+const portfolio: CommandModule<{}, PortfolioArgs> = {
+  command: 'portfolio <wallet>',
+  describe: 'Display balances and open orders of every OpenOrders account of a wallet',
+  builder: (yargs) =>
+    yargs
+      .positional('wallet', {
+        type: 'string',
+        demandOption: true,
+        description: 'Public key of the wallet',
+      })
+      .option('usd', {
+        type: 'boolean',
+        description: 'Value the token totals in USD',
+      })
+      .option('priceSource', {
+        type: 'string',
+        default: JUPITER_PRICE_SOURCE,
+        description: 'USD price source: jupiter, or a JSON file mapping mints to prices',
+      }),
+  handler: async (argv) => {
+    // Establish a connection and a read-only client
+    const connection = createConnection();
+    const wallet = createStubWallet();
+    const provider = createProvider(connection, wallet);
+    const client = createClient(provider);
+
+    const walletPubkey = loadPublicKey(argv.wallet);
+
+    try {
+      logger.info(`Loading OpenOrders accounts of wallet: ${walletPubkey.toBase58()}...`);
+      const openOrders = await loadWalletOpenOrders(client, walletPubkey, true);
+      logger.info(
+        `Loaded ${openOrders.length} OpenOrders account(s) on ${new Set(openOrders.map(({ market }) => market)).size} market(s).`
+      );
+
+      const accounts = openOrders.map(summarizeAccount);
+      const totals = totalByToken(accounts);
+
+      let totalUsd: number | null = null;
+      if (argv.usd && totals.length > 0) {
+        logger.info(`Fetching USD prices from ${argv.priceSource}...`);
+        const prices = await loadPrices(argv.priceSource, totals.map((total) => total.mint));
+        totalUsd = 0;
+        for (const total of totals) {
+          // Unknown prices stay null instead of valuing the token at zero
+          total.price = prices[total.mint] || null;
+          total.usdValue = total.price !== null ? total.total * total.price : null;
+          totalUsd += total.usdValue ?? 0;
+        }
+        const unpriced = totals.filter((total) => total.price === null);
+        if (unpriced.length > 0) {
+          logger.warn(`No USD price for ${unpriced.map((total) => total.mint).join(', ')}. Excluded from the total value.`);
+        }
+      }
+
+      const result: PortfolioResult = { wallet: walletPubkey.toBase58(), accounts, totals, totalUsd };
+      emitResult(result, accounts);
+      if (isTableOutput()) {
+        if (accounts.length === 0) {
+          logger.info(`No OpenOrders accounts found for wallet ${walletPubkey.toBase58()}.`);
+        } else {
+          printPortfolio(result);
+        }
+      }
+    } catch (error) {
+      logger.error(`Error loading portfolio: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default portfolio;
@@ -0,0 +1,205 @@
+/**
+ * CLI Command: quote
+ *
+ * Description
+ * Estimates what a taker order would cost before sending it. The command loads the current order book and walks
+ * the resting orders of the opposite side, best first, for the given base size or quote amount. It reports the
+ * average and worst fill price, the slippage of the average price against the mid price in basis points,
+ * the taker fee from the market's fee configuration, how many price levels and orders the order consumes and
+ * whether it would match more orders than the limit of a single order placement (16).
+ * Oracle-pegged orders are not included in the estimate.
+ *
+ * Example Usage
+ * npx ts-node cli.ts quote <MARKET_PUBLIC_KEY> --side bid --size 10
+ * npx ts-node cli.ts quote <MARKET_PUBLIC_KEY> --side ask --quoteAmount 5000 --output json
+ *
+ * Parameters
+ * --market (Required): Public key of the market.
+ * --side (Required): Side of the taker order, bid (buy) or ask (sell).
+ * --size (Optional): Base amount to buy or sell.
+ * --quoteAmount (Optional): Quote amount to spend or receive, before fees. Either --size or --quoteAmount is required.
+ */
+
+import { CommandModule } from 'yargs';
+import { createConnection, createProvider, createClient, loadPublicKey, createStubWallet } from '../utils/helper';
+import { Market } from '@openbook-dex/openbook-v2';
+import logger from '../utils/logger';
+import { emitResult, isTableOutput } from '../utils/output';
+import { getL3Orders } from '../utils/orderBook';
+import { estimateTakerFill, FEES_SCALE, type FillEstimate } from '../utils/order';
+import { DEFAULTS } from '../utils/config';
+
+/**
+ * Interface defining the arguments for the quote command.
+ */
+interface QuoteArgs {
+  market: string;
+  side: 'bid' | 'ask';
+  size?: number;
+  quoteAmount?: number;
+}
+
+/**
+ * Result schema in json/csv output.
+ * Prices and sizes are UI units. filledQuote is the notional before fees, takerFee the fee in quote units and
+ * totalQuote what the order pays (bid: notional plus fee) or receives (ask: notional minus fee).
+ * slippageBps is the adverse distance of the average price from the mid price (null if a side is empty).
+ * exceedsMatchLimit is true when the order matches more than matchLimit orders; a single order placement
+ * would then only fill filledSizeWithinLimit.
+ */
+type QuoteResult = FillEstimate & {
+  market: string;
+  side: 'bid' | 'ask';
+  requestedSize: number | null;
+  requestedQuote: number | null;
+  mid: number | null;
+  slippageBps: number | null;
+  worstSlippageBps: number | null;
+  takerFeeRate: number;
+  takerFee: number;
+  totalQuote: number;
+  matchLimit: number;
+  exceedsMatchLimit: boolean;
+  peggedOrdersSkipped: number;
+};
+
+/**
+ * Formats an optional number for the table.
+ */
+function formatValue(value: number | null, decimals: number = 4): string {
+  return value === null ? 'N/A' : value.toFixed(decimals);
+}
+
+/**
+ * CLI command to estimate the fills and cost of a taker order.
+ */
+const quote: CommandModule<{}, QuoteArgs> = {
+  command: 'quote <market>',
+  describe: 'Estimate the fill price, slippage and fees of a taker order',
+  builder: (yargs) =>
+    yargs
+      .positional('market', {
+        type: 'string',
+        demandOption: true,
+        description: 'Market public key',
+      })
+      .option('side', {
+        type: 'string',
+        choices: ['bid', 'ask'] as const,
+        demandOption: true,
+        description: 'Side of the taker order (bid = buy, ask = sell)',
+      })
+      .option('size', {
+        type: 'number',
+        description: 'Base amount to buy or sell',
+      })
+      .option('quoteAmount', {
+        type: 'number',
+        description: 'Quote amount to spend or receive, before fees',
+      })
+      .conflicts('size', 'quoteAmount')
+      .check((argv) => {
+        if (argv.size === undefined && argv.quoteAmount === undefined) {
+          throw new Error('Provide either --size or --quoteAmount.');
+        }
+        const amount = argv.size ?? argv.quoteAmount;
+        if (!(amount! > 0)) {
+          throw new Error('The order amount must be a positive number.');
+        }
+        return true;
+      }),
+  handler: async (argv) => {
+    // Establish a connection and a read-only client
+    const connection = createConnection();
+    const wallet = createStubWallet();
+    const provider = createProvider(connection, wallet);
+    const client = createClient(provider);
+
+    const marketPubkey = loadPublicKey(argv.market);
+
+    try {
+      logger.info(`Loading market: ${marketPubkey.toBase58()}...`);
+      const market = await Market.load(client, marketPubkey);
+      await market.loadOrderBook();
+
+      // A bid takes from the asks, an ask from the bids
+      const bids = getL3Orders(market, 'bid');
+      const asks = getL3Orders(market, 'ask');
+      const resting = argv.side === 'bid' ? asks : bids;
+      const amount = argv.size !== undefined ? { size: argv.size } : { quoteAmount: argv.quoteAmount! };
+      const estimate = estimateTakerFill(resting, amount, DEFAULTS.ORDER_LIMIT);
+
+      const bestBid = bids.find((order) => !order.pegged)?.price ?? null;
+      const bestAsk = asks.find((order) => !order.pegged)?.price ?? null;
+      const mid = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+      // Positive slippage is always adverse: paying above mid or selling below it
+      const slippage = (price: number | null) =>
+        mid === null || price === null ? null : ((argv.side === 'bid' ? price - mid : mid - price) / mid) * 10_000;
+
+      const takerFeeRate = market.account.takerFee.toNumber() / FEES_SCALE;
+      const takerFee = estimate.filledQuote * takerFeeRate;
+
+      const result: QuoteResult = {
+        market: marketPubkey.toBase58(),
+        side: argv.side,
+        requestedSize: argv.size ?? null,
+        requestedQuote: argv.quoteAmount ?? null,
+        ...estimate,
+        mid,
+        slippageBps: slippage(estimate.averagePrice),
+        worstSlippageBps: slippage(estimate.worstPrice),
+        takerFeeRate,
+        takerFee,
+        totalQuote: argv.side === 'bid' ? estimate.filledQuote + takerFee : estimate.filledQuote - takerFee,
+        matchLimit: DEFAULTS.ORDER_LIMIT,
+        exceedsMatchLimit: estimate.ordersMatched > DEFAULTS.ORDER_LIMIT,
+        peggedOrdersSkipped: resting.filter((order) => order.pegged).length,
+      };
+
+      if (!result.fullyFilled) {
+        logger.warn(
+          `Not enough liquidity: only ${formatValue(result.filledSize)} of the order can be filled from the book.`
+        );
+      }
+      if (result.exceedsMatchLimit) {
+        logger.warn(
+          `The order matches ${result.ordersMatched} orders, more than the limit of ${result.matchLimit} per order placement. ` +
+            `A single order would stop after filling ${formatValue(result.filledSizeWithinLimit)}.`
+        );
+      }
+      if (result.peggedOrdersSkipped > 0) {
+        logger.warn(`${result.peggedOrdersSkipped} oracle-pegged order(s) on the book are not included in the estimate.`);
+      }
+
+      emitResult(result);
+      if (isTableOutput()) {
+        const rows: [string, string][] = [
+          ['Side', argv.side === 'bid' ? 'BID (buy)' : 'ASK (sell)'],
+          ['Requested', argv.size !== undefined ? `${argv.size} base` : `${argv.quoteAmount} quote`],
+          ['Filled Size', formatValue(result.filledSize)],
+          ['Notional (before fees)', formatValue(result.filledQuote)],
+          ['Average Price', formatValue(result.averagePrice)],
+          ['Best Price', formatValue(result.bestPrice)],
+          ['Worst Price', formatValue(result.worstPrice)],
+          ['Mid Price', formatValue(result.mid)],
+          ['Slippage vs Mid (bps)', formatValue(result.slippageBps, 2)],
+          ['Worst Slippage (bps)', formatValue(result.worstSlippageBps, 2)],
+          ['Taker Fee', `${formatValue(result.takerFee)} (${(takerFeeRate * 10_000).toFixed(2)} bps)`],
+          [argv.side === 'bid' ? 'Total Cost' : 'Total Received', formatValue(result.totalQuote)],
+          ['Levels Consumed', String(result.levelsConsumed)],
+          ['Orders Matched', `${result.ordersMatched} (limit ${result.matchLimit})`],
+          ['Fully Filled', result.fullyFilled ? 'Yes' : 'No'],
+        ];
+        console.log('');
+        for (const [label, value] of rows) {
+          console.log(`${label.padEnd(24)} | ${value}`);
+        }
+      }
+    } catch (error) {
+      logger.error(`Error computing quote: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default quote;
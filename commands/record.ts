@@ -0,0 +1,212 @@
+/**
+ * CLI Command: record
+ *
+ * Description
+ * Records the order book and trades of one or more markets to rotating NDJSON files for offline analysis.
+ * Each file starts with the market information and a full L2 snapshot of every market, followed by
+ * timestamped L2 diffs, fill and out events and periodic snapshots. Every entry carries the slot of its data.
+ * Recordings can be played back with `replay`.
+ *
+ * Example Usage
+ * npx ts-node cli.ts record <MARKET_PUBLIC_KEY>
+ * npx ts-node cli.ts record <MARKET_PUBLIC_KEY> <MARKET_PUBLIC_KEY> --outDir data --rotateMinutes 15 --duration 3600
+ *
+ * Parameters
+ * --market (Required): Public key(s) of the market(s) to record.
+ * --outDir (Optional, default: recordings): Directory of the recording files.
+ * --prefix (Optional, default: openbook): File name prefix.
+ * --maxFileSizeMb (Optional, default: 100): Start a new file when the current one reaches this size.
+ * --rotateMinutes (Optional, default: 60): Start a new file after this many minutes.
+ * --snapshotInterval (Optional, default: 60): Seconds between full book snapshots.
+ * --duration (Optional): Stop recording after this many seconds. Runs until interrupted otherwise.
+ */
+
+import { CommandModule } from 'yargs';
+import { PublicKey } from '@solana/web3.js';
+import { createConnection, createProvider, createClient, loadPublicKey, createStubWallet } from '../utils/helper';
+import { Market, nameToString } from '@openbook-dex/openbook-v2';
+import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
+import { diffL2, getL2Levels, watchOrderBook, type L2Level } from '../utils/orderBook';
+import { watchEventHeap } from '../utils/trades';
+import { RecordingWriter, type RecordingEntry } from '../utils/recording';
+
+/**
+ * Interface defining the arguments for the record command.
+ */
+interface RecordArgs {
+  market: string[];
+  outDir: string;
+  prefix: string;
+  maxFileSizeMb: number;
+  rotateMinutes: number;
+  snapshotInterval: number;
+  duration?: number;
+}
+
+/**
+ * Result schema in json/csv output, emitted when the recording stops. In CSV, files is a space separated list.
+ */
+interface RecordResult {
+  files: string[];
+  entries: number;
+}
+
+/**
+ * Recording state of a single market.
+ */
+interface RecordedMarket {
+  pubkey: PublicKey;
+  market: Market;
+  bids: L2Level[];
+  asks: L2Level[];
+  slot: number;
+}
+
+/**
+ * CLI command to record order book and trade data to NDJSON files.
+ */
+const record: CommandModule<{}, RecordArgs> = {
+  command: 'record <market..>',
+  describe: 'Record order book snapshots, diffs and trades to rotating NDJSON files',
+  builder: (yargs) =>
+    yargs
+      .positional('market', {
+        type: 'string',
+        array: true,
+        demandOption: true,
+        description: 'Market public key(s)',
+      })
+      .option('outDir', { type: 'string', default: 'recordings', description: 'Directory of the recording files' })
+      .option('prefix', { type: 'string', default: 'openbook', description: 'File name prefix' })
+      .option('maxFileSizeMb', { type: 'number', default: 100, description: 'Maximum size of a file in MB' })
+      .option('rotateMinutes', { type: 'number', default: 60, description: 'Maximum age of a file in minutes' })
+      .option('snapshotInterval', { type: 'number', default: 60, description: 'Seconds between full book snapshots' })
+      .option('duration', { type: 'number', description: 'Stop after this many seconds' })
+      .check((argv) => {
+        for (const name of ['maxFileSizeMb', 'rotateMinutes', 'snapshotInterval'] as const) {
+          if (!(argv[name] > 0)) {
+            throw new Error(`--${name} must be a positive number.`);
+          }
+        }
+        if (argv.duration !== undefined && !(argv.duration > 0)) {
+          throw new Error('--duration must be a positive number.');
+        }
+        return true;
+      }),
+  handler: async (argv) => {
+    const connection = createConnection();
+    const wallet = createStubWallet();
+    const provider = createProvider(connection, wallet);
+    const client = createClient(provider);
+
+    try {
+      const marketPubkeys = [...new Set(argv.market)].map((key) => loadPublicKey(key));
+
+      // Load every market with its order book and event heap
+      const slot = await connection.getSlot();
+      const markets: RecordedMarket[] = [];
+      for (const pubkey of marketPubkeys) {
+        logger.info(`Loading market: ${pubkey.toBase58()}...`);
+        const market = await Market.load(client, pubkey);
+        await Promise.all([market.loadOrderBook(), market.loadEventHeap()]);
+        markets.push({ pubkey, market, bids: getL2Levels(market, 'bid'), asks: getL2Levels(market, 'ask'), slot });
+      }
+
+      const snapshotOf = (recorded: RecordedMarket, timestamp: string): RecordingEntry => ({
+        type: 'snapshot',
+        timestamp,
+        slot: recorded.slot,
+        market: recorded.pubkey.toBase58(),
+        bids: recorded.bids,
+        asks: recorded.asks,
+      });
+
+      const writer = new RecordingWriter(
+        {
+          outDir: argv.outDir,
+          prefix: argv.prefix,
+          maxFileBytes: argv.maxFileSizeMb * 1024 * 1024,
+          rotateMs: argv.rotateMinutes * 60 * 1000,
+        },
+        (timestamp) =>
+          markets.flatMap((recorded): RecordingEntry[] => [
+            {
+              type: 'market',
+              timestamp,
+              slot: recorded.slot,
+              market: recorded.pubkey.toBase58(),
+              name: nameToString(recorded.market.account.name),
+              baseMint: recorded.market.account.baseMint.toBase58(),
+              quoteMint: recorded.market.account.quoteMint.toBase58(),
+            },
+            snapshotOf(recorded, timestamp),
+          ])
+      );
+
+      // Subscribe to the book and event heap of every market
+      const stops: (() => Promise<void>)[] = [];
+      for (const recorded of markets) {
+        const marketKey = recorded.pubkey.toBase58();
+
+        stops.push(
+          watchOrderBook(connection, recorded.market, (_source, updateSlot) => {
+            const bids = getL2Levels(recorded.market, 'bid');
+            const asks = getL2Levels(recorded.market, 'ask');
+            const changes = [...diffL2('bid', recorded.bids, bids), ...diffL2('ask', recorded.asks, asks)];
+            recorded.bids = bids;
+            recorded.asks = asks;
+            recorded.slot = updateSlot;
+            if (changes.length > 0) {
+              writer.write({ type: 'diff', timestamp: new Date().toISOString(), slot: updateSlot, market: marketKey, changes });
+            }
+          })
+        );
+
+        stops.push(
+          watchEventHeap(connection, recorded.market, (events, _source, eventSlot) => {
+            for (const event of events) {
+              writer.write({
+                type: 'event',
+                timestamp: new Date().toISOString(),
+                slot: eventSlot ?? slot,
+                market: marketKey,
+                event,
+              });
+            }
+          })
+        );
+      }
+
+      // Periodic snapshots bound how far a reader has to replay diffs
+      const snapshotTimer = setInterval(() => {
+        const timestamp = new Date().toISOString();
+        for (const recorded of markets) {
+          writer.write(snapshotOf(recorded, timestamp));
+        }
+      }, argv.snapshotInterval * 1000);
+
+      logger.info(`Recording ${markets.length} market(s). Press Ctrl+C to stop.`);
+
+      const stop = async () => {
+        clearInterval(snapshotTimer);
+        await Promise.all(stops.map((stopWatching) => stopWatching()));
+        const summary = writer.getSummary();
+        logger.info(`Recording stopped. ${summary.entries} entries written to ${summary.files.length} file(s).`);
+        const result: RecordResult = summary;
+        emitResult(result, [{ files: result.files.join(' '), entries: result.entries }]);
+        process.exit(0);
+      };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+      if (argv.duration) {
+        setTimeout(stop, argv.duration * 1000);
+      }
+    } catch (error) {
+      logger.error(`Error recording market data: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default record;
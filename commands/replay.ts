@@ -0,0 +1,122 @@
+/**
+ * CLI Command: replay
+ *
+ * Description
+ * Plays a recording made with `record` back through the same display as `marketData`.
+ * Updates are replayed with their recorded timing, scaled by --speed.
+ *
+ * Example Usage
+ * npx ts-node cli.ts replay recordings/openbook-2025-01-01T00-00-00-000Z.ndjson --book
+ * npx ts-node cli.ts replay <FILE> --bestbidask --speed 10 --market <MARKET_PUBLIC_KEY>
+ *
+ * Parameters
+ * --file (Required): Recording file to play back.
+ * --market (Optional): Market to display, for recordings of several markets (default: the first recorded market).
+ * --speed (Optional, default: 1): Playback speed multiplier. 0 replays without delays.
+ * --bestbidask (Optional): Display the best bid/ask prices.
+ * --book (Optional): Display the order book liquidity (default if no view is selected).
+ * --diff (Optional): Display L2 diffs.
+ * --depth (Optional, default: 10): Number of price levels per side shown by --book.
+ */
+
+import { CommandModule } from 'yargs';
+import { loadPublicKey } from '../utils/helper';
+import logger from '../utils/logger';
+import type { L2Level } from '../utils/orderBook';
+import { createBookView, DEFAULT_BOOK_DEPTH } from '../utils/bookView';
+import { applyL2Changes, readRecording } from '../utils/recording';
+
+/**
+ * Interface defining the arguments for the replay command.
+ */
+interface ReplayArgs {
+  file: string;
+  market?: string;
+  speed: number;
+  bestbidask?: boolean;
+  book?: boolean;
+  diff?: boolean;
+  depth: number;
+}
+
+/**
+ * CLI command to play back a market data recording.
+ */
+const replay: CommandModule<{}, ReplayArgs> = {
+  command: 'replay <file>',
+  describe: 'Play back a market data recording',
+  builder: (yargs) =>
+    yargs
+      .positional('file', {
+        type: 'string',
+        demandOption: true,
+        description: 'Recording file',
+      })
+      .option('market', { type: 'string', description: 'Market to display (default: the first recorded market)' })
+      .option('speed', { type: 'number', default: 1, description: 'Playback speed multiplier (0 = no delays)' })
+      .option('bestbidask', { type: 'boolean', description: 'Display best bid/ask prices' })
+      .option('book', { type: 'boolean', description: 'Display order book liquidity' })
+      .option('diff', { type: 'boolean', description: 'Display L2 diffs' })
+      .option('depth', { type: 'number', default: DEFAULT_BOOK_DEPTH, description: 'Price levels per side shown by --book' })
+      .check((argv) => {
+        if (!(argv.speed >= 0)) {
+          throw new Error('--speed must be 0 or a positive number.');
+        }
+        if (!Number.isInteger(argv.depth) || argv.depth <= 0) {
+          throw new Error('--depth must be a positive integer.');
+        }
+        return true;
+      }),
+  handler: async (argv) => {
+    try {
+      let market = argv.market ? loadPublicKey(argv.market).toBase58() : null;
+      const options = argv.bestbidask || argv.book || argv.diff ? argv : { ...argv, book: true };
+
+      let view: ReturnType<typeof createBookView> | null = null;
+      let bids: L2Level[] = [];
+      let asks: L2Level[] = [];
+      let previousTime: number | null = null;
+      let updates = 0;
+
+      logger.info(`Replaying ${argv.file}${argv.speed > 0 ? ` at ${argv.speed}x speed` : ''}...`);
+
+      for await (const entry of readRecording(argv.file)) {
+        if (market === null) {
+          market = entry.market;
+        }
+        if (entry.market !== market || (entry.type !== 'snapshot' && entry.type !== 'diff')) {
+          continue;
+        }
+
+        // Wait for the recorded time between updates, scaled by the playback speed
+        const time = Date.parse(entry.timestamp);
+        if (previousTime !== null && argv.speed > 0 && time > previousTime) {
+          await new Promise((resolve) => setTimeout(resolve, (time - previousTime!) / argv.speed));
+        }
+        previousTime = time;
+
+        if (entry.type === 'snapshot') {
+          bids = entry.bids;
+          asks = entry.asks;
+        } else {
+          bids = applyL2Changes(bids, entry.changes, 'bid');
+          asks = applyL2Changes(asks, entry.changes, 'ask');
+        }
+
+        view ??= createBookView(market, options);
+        view(bids, asks, entry.timestamp);
+        updates++;
+      }
+
+      if (updates === 0) {
+        throw new Error(`No order book data for market ${market ?? 'N/A'} in ${argv.file}.`);
+      }
+      logger.info(`Replay finished: ${updates} update(s) of market ${market}.`);
+    } catch (error) {
+      logger.error(`Error replaying recording: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default replay;
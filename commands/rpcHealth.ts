@@ -0,0 +1,171 @@
+/**
+ * CLI Command: rpcHealth
+ *
+ * Description
+ * Benchmarks every RPC endpoint of the active profile (the primary and its fallbacks).
+ * Each endpoint is queried for its current slot several times. The command reports the median and worst
+ * latency, the number of failed requests and the slot lag behind the most advanced endpoint.
+ *
+ * Example Usage
+ * npx ts-node cli.ts rpcHealth
+ * npx ts-node cli.ts rpcHealth --cluster devnet --samples 10
+ *
+ * Parameters
+ * --samples (Optional, default: 5): Number of requests per endpoint.
+ * --url (Optional): Endpoint(s) to benchmark instead of the profile's endpoints. Can be repeated.
+ */
+
+import { CommandModule } from 'yargs';
+import { Connection } from '@solana/web3.js';
+import { getActiveProfile } from '../utils/config';
+import logger from '../utils/logger';
+import { emitResult, isTableOutput } from '../utils/output';
+
+/**
+ * Interface defining the arguments for the rpcHealth command.
+ */
+interface RpcHealthArgs {
+  samples: number;
+  url?: string[];
+}
+
+/**
+ * Benchmark result of a single endpoint.
+ */
+interface EndpointHealth {
+  url: string;
+  latencies: number[];
+  errors: number;
+  lastError: string | null;
+  slot: number | null;
+}
+
+/**
+ * Result schema in json/csv output. CSV output has one row per endpoint.
+ */
+interface RpcHealthResult {
+  endpoints: {
+    url: string;
+    medianLatencyMs: number | null;
+    maxLatencyMs: number | null;
+    errors: number;
+    samples: number;
+    slot: number | null;
+    slotLag: number | null;
+  }[];
+}
+
+/**
+ * Queries an endpoint's slot `samples` times and records latency and errors.
+ */
+async function benchmarkEndpoint(url: string, samples: number): Promise<EndpointHealth> {
+  // A plain connection without the failover pool, so every request hits this endpoint
+  const connection = new Connection(url, { commitment: getActiveProfile().commitment, disableRetryOnRateLimit: true });
+  const result: EndpointHealth = { url, latencies: [], errors: 0, lastError: null, slot: null };
+
+  for (let i = 0; i < samples; i++) {
+    const start = Date.now();
+    try {
+      const slot = await connection.getSlot();
+      result.latencies.push(Date.now() - start);
+      result.slot = Math.max(result.slot ?? 0, slot);
+    } catch (error) {
+      result.errors++;
+      result.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the median of a list of numbers.
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * CLI command to benchmark the configured RPC endpoints.
+ */
+const rpcHealth: CommandModule<{}, RpcHealthArgs> = {
+  command: 'rpcHealth',
+  describe: 'Benchmark latency and slot lag of the configured RPC endpoints',
+  builder: (yargs) =>
+    yargs
+      .option('samples', { type: 'number', default: 5, description: 'Number of requests per endpoint' })
+      .option('url', {
+        type: 'string',
+        array: true,
+        description: "Endpoint(s) to benchmark instead of the profile's endpoints"
+      })
+      .check((argv) => {
+        if (!Number.isInteger(argv.samples) || argv.samples < 1) {
+          throw new Error('--samples must be a positive integer.');
+        }
+        return true;
+      }),
+  handler: async (argv) => {
+    try {
+      const profile = getActiveProfile();
+      const urls = argv.url && argv.url.length > 0 ? argv.url : profile.rpcUrls;
+      logger.info(`Benchmarking ${urls.length} endpoint(s) of profile ${profile.name} with ${argv.samples} sample(s) each...`);
+
+      // Endpoints are benchmarked one after another so they do not compete for bandwidth
+      const results: EndpointHealth[] = [];
+      for (const url of urls) {
+        results.push(await benchmarkEndpoint(url, argv.samples));
+      }
+
+      const highestSlot = Math.max(...results.map((result) => result.slot ?? 0));
+      const health: RpcHealthResult = {
+        endpoints: results.map((result) => {
+          const healthy = result.latencies.length > 0;
+          return {
+            url: result.url,
+            medianLatencyMs: healthy ? Math.round(median(result.latencies)) : null,
+            maxLatencyMs: healthy ? Math.max(...result.latencies) : null,
+            errors: result.errors,
+            samples: argv.samples,
+            slot: result.slot,
+            slotLag: result.slot !== null ? highestSlot - result.slot : null,
+          };
+        }),
+      };
+
+      if (isTableOutput()) {
+        const urlWidth = Math.max(...urls.map((url) => url.length), 'Endpoint'.length);
+        const headerLine =
+          `${'Endpoint'.padEnd(urlWidth)} | ${'Median (ms)'.padEnd(11)} | ${'Max (ms)'.padEnd(8)} | ` +
+          `${'Errors'.padEnd(7)} | ${'Slot'.padEnd(11)} | Slot Lag`;
+        console.log(headerLine);
+        console.log('-'.repeat(headerLine.length));
+
+        for (const endpoint of health.endpoints) {
+          console.log(
+            `${endpoint.url.padEnd(urlWidth)} | ${String(endpoint.medianLatencyMs ?? 'N/A').padEnd(11)} | ` +
+              `${String(endpoint.maxLatencyMs ?? 'N/A').padEnd(8)} | ` +
+              `${`${endpoint.errors}/${endpoint.samples}`.padEnd(7)} | ${String(endpoint.slot ?? 'N/A').padEnd(11)} | ` +
+              `${endpoint.slotLag ?? 'N/A'}`
+          );
+        }
+      }
+      emitResult(health, health.endpoints);
+
+      for (const result of results.filter((entry) => entry.lastError)) {
+        logger.warn(`${result.url}: ${result.lastError}`);
+      }
+
+      if (results.every((result) => result.latencies.length === 0)) {
+        logger.error('No endpoint responded.');
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(`Error occurred while benchmarking RPC endpoints: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default rpcHealth;
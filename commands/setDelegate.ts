@@ -0,0 +1,158 @@
+/**
+ * CLI Command: setDelegate
+ *
+ * Description
+ * Sets or removes the delegate of an OpenOrders account. A delegate can place and cancel orders on the account
+ * (with --delegateKeypair on limitOrder and cancelOrder), but cannot close it or change its delegate. This lets
+ * bots trade with a hot key while the owner's key stays offline. Only the owner can change the delegate.
+ *
+ * Example Usage
+ * npx ts-node cli.ts setDelegate --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --delegate <DELEGATE_PUBKEY>
+ * npx ts-node cli.ts setDelegate --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH> --remove
+ *
+ * Parameters
+ * --openOrders (Required): Public key of the OpenOrders account.
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the account owner.
+ * --delegate (Optional): Public key of the new delegate. Replaces the current delegate.
+ * --remove (Optional): Remove the current delegate. Either --delegate or --remove is required.
+ * --dry-run (Optional): Simulate the transaction and print the result without sending it.
+ * --signer, --export (Optional): Export the unsigned transaction for offline signing.
+ */
+
+import { CommandModule } from 'yargs';
+import { Connection } from '@solana/web3.js';
+import { Wallet } from '@coral-xyz/anchor';
+import {
+  createConnection,
+  createProvider,
+  createClient,
+  loadPublicKey,
+  sendWithRetry,
+  getDynamicPriorityFee,
+} from '../utils/helper';
+import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
+import { handleOpenBookError } from '../utils/error';
+import { checkOwnerArgs, exportTransaction, loadOwner, type OwnerArgs } from '../utils/offline';
+import { simulateInstructions } from '../utils/simulate';
+import { explainPermissionError, getDelegate, setDelegateIx } from '../utils/delegate';
+
+/**
+ * Interface defining the arguments for the setDelegate command.
+ */
+interface SetDelegateArgs extends OwnerArgs {
+  openOrders: string;
+  delegate?: string;
+  remove?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output. Delegates are null when the account has none.
+ */
+interface SetDelegateResult {
+  openOrders: string;
+  previousDelegate: string | null;
+  delegate: string | null;
+  signature: string;
+}
+
+/**
+ * CLI command to set or remove the delegate of an OpenOrders account.
+ */
+const setDelegate: CommandModule<{}, SetDelegateArgs> = {
+  command: 'setDelegate',
+  describe: 'Set or remove the delegate of an OpenOrders account',
+  builder: (yargs) =>
+    yargs
+      .option('openOrders', {
+        type: 'string',
+        demandOption: true,
+        description: 'OpenOrders account public key',
+      })
+      .option('ownerKeypair', {
+        type: 'string',
+        description: 'Path to the owner keypair file (omit with --signer)',
+      })
+      .option('delegate', {
+        type: 'string',
+        description: 'Public key of the new delegate',
+      })
+      .option('remove', {
+        type: 'boolean',
+        description: 'Remove the current delegate',
+      })
+      .conflicts('delegate', 'remove')
+      .check((argv) => {
+        if (!argv.delegate && !argv.remove) {
+          throw new Error('Provide either --delegate or --remove.');
+        }
+        return checkOwnerArgs(argv);
+      }),
+  handler: async (argv) => {
+    // Establish a connection to the Solana blockchain
+    const connection: Connection = createConnection();
+
+    // Load the owner's keypair and set up the provider
+    const owner = loadOwner(argv);
+    const wallet = new Wallet(owner);
+    const provider = createProvider(connection, wallet);
+
+    // Create an OpenBook client to interact with the OpenBook DEX
+    const client = createClient(provider);
+
+    const openOrdersPubkey = loadPublicKey(argv.openOrders);
+    const delegatePubkey = argv.delegate ? loadPublicKey(argv.delegate) : null;
+
+    try {
+      logger.info('Deserializing OpenOrders account...');
+      const openOrdersAccount = await client.deserializeOpenOrderAccount(openOrdersPubkey);
+      if (!openOrdersAccount) {
+        throw new Error('OpenOrders account not found.');
+      }
+      if (!openOrdersAccount.owner.equals(owner.publicKey)) {
+        throw new Error(
+          `Only the owner ${openOrdersAccount.owner.toBase58()} can change the delegate of this OpenOrders account.`
+        );
+      }
+
+      const previousDelegate = getDelegate(openOrdersAccount);
+      logger.info(`Current delegate: ${previousDelegate?.toBase58() ?? 'none'}`);
+      logger.info(delegatePubkey ? `Setting delegate to ${delegatePubkey.toBase58()}...` : 'Removing delegate...');
+
+      const ix = await setDelegateIx(client, owner.publicKey, openOrdersPubkey, delegatePubkey);
+      const priorityFee = await getDynamicPriorityFee(connection);
+
+      if (argv.dryRun) {
+        const simulation = await simulateInstructions(client, connection, owner.publicKey, [ix], priorityFee);
+        if (!simulation.success) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (argv.export) {
+        await exportTransaction(connection, owner.publicKey, [ix], priorityFee, argv.export, argv.nonceAccount);
+        return;
+      }
+
+      const signature = await sendWithRetry(provider, connection, [ix], priorityFee);
+      logger.info(`Delegate ${delegatePubkey ? 'set' : 'removed'} successfully. Transaction Signature: ${signature}`);
+
+      const result: SetDelegateResult = {
+        openOrders: openOrdersPubkey.toBase58(),
+        previousDelegate: previousDelegate?.toBase58() ?? null,
+        delegate: delegatePubkey?.toBase58() ?? null,
+        signature,
+      };
+      emitResult(result);
+    } catch (error) {
+      logger.error(`Error occurred while setting the delegate: ${error instanceof Error ? error.message : error}`);
+      handleOpenBookError(error);
+      explainPermissionError(error);
+      process.exit(1);
+    }
+  },
+};
+
+export default setDelegate;
@@ -0,0 +1,265 @@
+/**
+ * CLI Command: settleAll
+ *
+ * Description
+ * Sweeps the idle balances of every OpenOrders account of the owner back to the wallet. The accounts are taken
+ * from the owner's OpenOrdersIndexer and loaded in batch; accounts without free base, free quote or referrer
+ * rebates are skipped. Missing associated token accounts are created in the same transactions, and the settle
+ * instructions are packed into as few transactions as possible. The swept amounts are reported per token.
+ *
+ * Example Usage
+ * npx ts-node cli.ts settleAll --ownerKeypair <KEYPAIR_PATH>
+ * npx ts-node cli.ts settleAll --ownerKeypair <KEYPAIR_PATH> --market <MARKET_PUBKEY> --minAmount 0.01
+ *
+ * Parameters
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the account owner.
+ * --market (Optional): Only settle the OpenOrders accounts of this market.
+ * --minAmount (Optional, default: 0): Skip accounts whose free base and free quote (including rebates) are both below this amount in UI units.
+ * --dry-run (Optional): Simulate the settle transactions and print the results without sending them.
+ * --signer, --export (Optional): Export the unsigned settle transaction for offline signing. Everything must fit into one transaction.
+ */
+
+import { CommandModule } from 'yargs';
+import {
+  createConnection,
+  createProvider,
+  createClient,
+  loadPublicKey,
+  sendWithRetry,
+  getDynamicPriorityFee,
+  packInstructions,
+} from '../utils/helper';
+import { Connection } from '@solana/web3.js';
+import { Wallet } from '@coral-xyz/anchor';
+import { nameToString } from '@openbook-dex/openbook-v2';
+import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
+import { checkOwnerArgs, exportTransaction, loadOwner, type OwnerArgs } from '../utils/offline';
+import { getOpenBookErrorCode, getOpenBookErrorMessage } from '../utils/error';
+import { simulateInstructions } from '../utils/simulate';
+import {
+  buildSettleInstructions,
+  getSettleableAmounts,
+  loadWalletOpenOrders,
+  type WalletOpenOrders,
+} from '../utils/portfolio';
+
+/**
+ * Interface defining the arguments for the settleAll command.
+ */
+interface SettleAllArgs extends OwnerArgs {
+  market?: string;
+  minAmount: number;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output. CSV output has one row per settled account; the per-token totals are only
+ * part of json output. Amounts are UI units; quote includes the referrer rebates, which go to the owner.
+ * Accounts settled in the same transaction share its signature or error, and swept only counts settled accounts.
+ */
+interface SettleAllResult {
+  accounts: {
+    openOrders: string;
+    market: string;
+    marketName: string;
+    baseMint: string;
+    quoteMint: string;
+    base: number;
+    quote: number;
+    transaction: number;
+    settled: boolean;
+    signature: string | null;
+    error: string | null;
+  }[];
+  swept: { mint: string; amount: number }[];
+}
+
+/**
+ * An account selected for settlement and the amounts it releases.
+ */
+interface SettleTarget {
+  openOrders: WalletOpenOrders;
+  base: number;
+  quote: number;
+}
+
+/**
+ * CLI command to settle the free balances of all OpenOrders accounts of the owner.
+ */
+const settleAll: CommandModule<{}, SettleAllArgs> = {
+  command: 'settleAll',
+  describe: 'Settle the free balances of all OpenOrders accounts to the wallet',
+  builder: (yargs) =>
+    yargs
+      .option('ownerKeypair', {
+        type: 'string',
+        description: 'Path to owner keypair file (omit with --signer)',
+      })
+      .option('market', {
+        type: 'string',
+        description: 'Only settle the OpenOrders accounts of this market',
+      })
+      .option('minAmount', {
+        type: 'number',
+        default: 0,
+        description: 'Skip accounts whose free base and free quote are both below this amount (UI units)',
+      })
+      .check((argv) => {
+        if (!(argv.minAmount >= 0)) {
+          throw new Error('--minAmount cannot be negative.');
+        }
+        return checkOwnerArgs(argv);
+      }),
+  handler: async (argv) => {
+    // Establish a connection to the Solana blockchain
+    const connection: Connection = createConnection();
+
+    // Load the owner's keypair and set up the provider
+    const owner = loadOwner(argv);
+    const wallet = new Wallet(owner);
+    const provider = createProvider(connection, wallet);
+
+    // Create an OpenBook client to interact with the OpenBook DEX
+    const client = createClient(provider);
+
+    const marketPubkey = argv.market ? loadPublicKey(argv.market) : undefined;
+
+    try {
+      logger.info(`Loading OpenOrders accounts of wallet: ${owner.publicKey.toBase58()}...`);
+      const openOrders = (await loadWalletOpenOrders(client, owner.publicKey)).filter(
+        ({ market }) => !marketPubkey || market.pubkey.equals(marketPubkey)
+      );
+
+      // Select the accounts with something to settle
+      const targets: SettleTarget[] = [];
+      for (const entry of openOrders) {
+        const { base, quote } = getSettleableAmounts(entry);
+        if (base === 0 && quote === 0) {
+          continue;
+        }
+        if (base < argv.minAmount && quote < argv.minAmount) {
+          logger.info(`Skipping ${entry.pubkey.toBase58()}: ${base} base and ${quote} quote are below --minAmount.`);
+          continue;
+        }
+        targets.push({ openOrders: entry, base, quote });
+      }
+      logger.info(
+        `Found ${openOrders.length} OpenOrders account(s)${marketPubkey ? ` on market ${marketPubkey.toBase58()}` : ''}, ` +
+          `${targets.length} with funds to settle.`
+      );
+      if (targets.length === 0) {
+        emitResult({ accounts: [], swept: [] } satisfies SettleAllResult, []);
+        return;
+      }
+
+      logger.info('Constructing settle instructions...');
+      const { createAtaIxs, settleIxs } = await buildSettleInstructions(
+        client,
+        owner.publicKey,
+        targets.map((target) => target.openOrders)
+      );
+
+      // Token account creation comes first, so it lands in or before the transactions that need it
+      const transactions = packInstructions(owner.publicKey, [...createAtaIxs, ...settleIxs]);
+      logger.info(`Settling ${targets.length} account(s) in ${transactions.length} transaction(s)...`);
+
+      // Fetch the dynamic priority fee once for all transactions
+      const finalPriorityFee = await getDynamicPriorityFee(connection);
+
+      if (argv.export) {
+        // An exported transaction is signed as a whole, so everything must fit into one
+        if (transactions.length > 1) {
+          throw new Error(
+            `Settling needs ${transactions.length} transactions, but --export supports a single transaction. Narrow it down with --market or --minAmount.`
+          );
+        }
+        await exportTransaction(connection, owner.publicKey, transactions[0], finalPriorityFee, argv.export, argv.nonceAccount);
+        return;
+      }
+
+      const result: SettleAllResult = { accounts: [], swept: [] };
+      const swept = new Map<string, number>();
+      let instructionIndex = 0;
+      let failures = 0;
+      for (const [txIndex, instructions] of transactions.entries()) {
+        // Settle instructions follow the token account creations in the packed order
+        const firstTarget = Math.max(instructionIndex - createAtaIxs.length, 0);
+        instructionIndex += instructions.length;
+        const txTargets = targets.slice(firstTarget, Math.max(instructionIndex - createAtaIxs.length, 0));
+
+        let signature: string | null = null;
+        let failure: string | null = null;
+        if (argv.dryRun) {
+          const simulation = await simulateInstructions(client, connection, owner.publicKey, instructions, finalPriorityFee);
+          if (!simulation.success) {
+            failures++;
+          }
+          continue;
+        }
+        try {
+          signature = await sendWithRetry(provider, connection, instructions, finalPriorityFee);
+        } catch (error) {
+          const errorCode = getOpenBookErrorCode(error);
+          failure =
+            errorCode !== null
+              ? `OpenBook Error (${errorCode}): ${getOpenBookErrorMessage(errorCode)}`
+              : `${error instanceof Error ? error.message : error}`;
+          failures++;
+        }
+
+        const status = signature ? `settled (TX: ${signature})` : `failed: ${failure}`;
+        logger.info(`Transaction ${txIndex + 1}/${transactions.length}: ${status}`);
+        for (const { openOrders: entry, base, quote } of txTargets) {
+          const baseMint = entry.market.account.baseMint.toBase58();
+          const quoteMint = entry.market.account.quoteMint.toBase58();
+          logger.info(`  ${entry.pubkey.toBase58()} (${nameToString(entry.market.account.name)}): ${base} base, ${quote} quote`);
+          if (signature) {
+            swept.set(baseMint, (swept.get(baseMint) ?? 0) + base);
+            swept.set(quoteMint, (swept.get(quoteMint) ?? 0) + quote);
+          }
+          result.accounts.push({
+            openOrders: entry.pubkey.toBase58(),
+            market: entry.market.pubkey.toBase58(),
+            marketName: nameToString(entry.market.account.name),
+            baseMint,
+            quoteMint,
+            base,
+            quote,
+            transaction: txIndex + 1,
+            settled: signature !== null,
+            signature,
+            error: failure,
+          });
+        }
+      }
+
+      if (argv.dryRun) {
+        if (failures > 0) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      result.swept = [...swept.entries()]
+        .filter(([, amount]) => amount > 0)
+        .map(([mint, amount]) => ({ mint, amount }));
+      logger.info('Swept per token:');
+      for (const { mint, amount } of result.swept) {
+        logger.info(`  ${mint}: ${amount}`);
+      }
+      emitResult(result, result.accounts);
+
+      if (failures > 0) {
+        logger.error(`${failures} of ${transactions.length} transaction(s) failed.`);
+        process.exit(1);
+      }
+      logger.info(`All ${targets.length} account(s) settled successfully.`);
+    } catch (error) {
+      logger.error(`Error occurred while settling accounts: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default settleAll;
@@ -0,0 +1,111 @@
+/**
+ * CLI Command: signTx
+ *
+ * Description
+ * Signs a transaction exported with `--signer <PUBKEY> --export <FILE>`. Needs no network access, so it can run
+ * on an air-gapped machine. Prints the fee payer, blockhash or nonce, instructions and signature status before signing.
+ *
+ * Example Usage
+ * npx ts-node cli.ts signTx --file order.tx --keypair <KEYPAIR_PATH>
+ *
+ * Parameters
+ * --file (Required): File containing the base64 encoded transaction.
+ * --keypair (Required): Path to the keypair file of a required signer.
+ * --outFile (Optional): File to write the signed transaction to (default: overwrite --file).
+ */
+
+import { CommandModule } from 'yargs';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { loadKeypair } from '../utils/helper';
+import { readTransactionFile, writeTransactionFile } from '../utils/offline';
+import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
+
+/**
+ * Interface defining the arguments for the signTx command.
+ */
+interface SignTxArgs {
+  file: string;
+  keypair: string;
+  outFile?: string;
+}
+
+/**
+ * Result schema in json/csv output. In CSV, missingSignatures is a space separated list.
+ */
+interface SignTxResult {
+  file: string;
+  signer: string;
+  missingSignatures: string[];
+}
+
+/**
+ * Returns the required signers of a transaction and whether each one has signed.
+ */
+function getSignatureStatus(transaction: VersionedTransaction): { signer: PublicKey; signed: boolean }[] {
+  const { numRequiredSignatures } = transaction.message.header;
+  return transaction.message.staticAccountKeys.slice(0, numRequiredSignatures).map((signer, index) => ({
+    signer,
+    signed: transaction.signatures[index].some((byte) => byte !== 0),
+  }));
+}
+
+/**
+ * CLI command to sign an exported transaction offline.
+ */
+const signTx: CommandModule<{}, SignTxArgs> = {
+  command: 'signTx',
+  describe: 'Sign an exported transaction offline',
+  builder: (yargs) =>
+    yargs
+      .option('file', { type: 'string', demandOption: true, description: 'File containing the base64 encoded transaction' })
+      .option('keypair', { type: 'string', demandOption: true, description: 'Path to the signer keypair file' })
+      .option('outFile', {
+        type: 'string',
+        description: 'File to write the signed transaction to (default: overwrite --file)'
+      }),
+  handler: async (argv) => {
+    try {
+      const transaction = readTransactionFile(argv.file);
+      const signer = loadKeypair(argv.keypair);
+      const { message } = transaction;
+
+      // Show what is being signed
+      logger.info(`Fee Payer: ${message.staticAccountKeys[0].toBase58()}`);
+      logger.info(`Blockhash/Nonce: ${message.recentBlockhash}`);
+      logger.info('Instructions:');
+      message.compiledInstructions.forEach((ix, index) => {
+        logger.info(`  ${index + 1}. Program ${message.staticAccountKeys[ix.programIdIndex].toBase58()}`);
+      });
+
+      const status = getSignatureStatus(transaction);
+      if (!status.some((entry) => entry.signer.equals(signer.publicKey))) {
+        throw new Error(`${signer.publicKey.toBase58()} is not a required signer of this transaction.`);
+      }
+
+      transaction.sign([signer]);
+      const outputPath = argv.outFile ?? argv.file;
+      writeTransactionFile(outputPath, transaction);
+      logger.info(`Signed by ${signer.publicKey.toBase58()}. Transaction written to ${outputPath}`);
+
+      const missing = getSignatureStatus(transaction).filter((entry) => !entry.signed);
+      if (missing.length > 0) {
+        logger.warn(`Missing signatures: ${missing.map((entry) => entry.signer.toBase58()).join(', ')}`);
+      } else {
+        logger.info(`Fully signed. Broadcast it with: npx ts-node cli.ts broadcastTx --file ${outputPath}`);
+      }
+
+      const result: SignTxResult = {
+        file: outputPath,
+        signer: signer.publicKey.toBase58(),
+        missingSignatures: missing.map((entry) => entry.signer.toBase58()),
+      };
+      emitResult(result, [{ file: result.file, signer: result.signer, missingSignatures: result.missingSignatures.join(' ') }]);
+    } catch (error) {
+      logger.error(`Error occurred while signing transaction: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default signTx;
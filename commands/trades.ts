@@ -0,0 +1,140 @@
+/**
+ * CLI Command: trades
+ *
+ * Description
+ * Prints a live trade tape for a market. The market's event heap is streamed over a websocket subscription
+ * (with a polling fallback) and its fill and out events are decoded as they arrive.
+ * Events still on the heap when the command starts are printed first.
+ *
+ * Example Usage
+ * npx ts-node cli.ts trades <MARKET_PUBLIC_KEY>
+ * npx ts-node cli.ts trades <MARKET_PUBLIC_KEY> --owner <WALLET_PUBLIC_KEY>
+ * npx ts-node cli.ts trades <MARKET_PUBLIC_KEY> --openOrders <OPEN_ORDERS_PUBLIC_KEY> --fillsOnly
+ *
+ * Parameters
+ * --market (Required): Public key of the market to watch.
+ * --owner (Optional): Only show events of this wallet's OpenOrders accounts on the market.
+ * --openOrders (Optional): Only show events of these OpenOrders accounts. Can be repeated.
+ * --fillsOnly (Optional): Hide out events (orders removed from the book without a fill).
+ */
+
+import { CommandModule } from 'yargs';
+import { createConnection, createProvider, createClient, loadPublicKey, createStubWallet } from '../utils/helper';
+import { Market } from '@openbook-dex/openbook-v2';
+import logger from '../utils/logger';
+import { emitResult, isTableOutput } from '../utils/output';
+import { watchEventHeap, type TapeEvent } from '../utils/trades';
+
+/**
+ * Interface defining the arguments for the trades command.
+ */
+interface TradesArgs {
+  market: string;
+  owner?: string;
+  openOrders?: string[];
+  fillsOnly?: boolean;
+}
+
+/**
+ * Result schema in json/csv output: one TapeEvent per event, with the market added.
+ * timestamp is the on-chain event time, side is the taker's side for fills, price and taker are null for out events.
+ */
+type TradeResult = TapeEvent & { market: string };
+
+/**
+ * Prints a tape row. Accounts are shortened to fit the table.
+ */
+function printTapeRow(event: TapeEvent): void {
+  const shorten = (key: string | null) => (key ? `${key.slice(0, 4)}..${key.slice(-4)}` : 'N/A');
+  console.log(
+    `${event.timestamp.padEnd(24)} | ${event.type.toUpperCase().padEnd(4)} | ${event.side.toUpperCase().padEnd(4)} | ` +
+      `${(event.price?.toFixed(4) ?? 'N/A').padEnd(15)} | ${event.size.toFixed(4).padEnd(15)} | ` +
+      `${shorten(event.maker).padEnd(10)} | ${shorten(event.taker)}`
+  );
+}
+
+/**
+ * CLI command to print a live trade tape from the market's event heap.
+ */
+const trades: CommandModule<{}, TradesArgs> = {
+  command: 'trades <market>',
+  describe: 'Print a live trade tape from the market event heap',
+  builder: (yargs) =>
+    yargs
+      .positional('market', {
+        type: 'string',
+        demandOption: true,
+        description: 'Market public key',
+      })
+      .option('owner', {
+        type: 'string',
+        description: "Only show events of this wallet's OpenOrders accounts",
+      })
+      .option('openOrders', {
+        type: 'string',
+        array: true,
+        description: 'Only show events of these OpenOrders accounts',
+      })
+      .option('fillsOnly', {
+        type: 'boolean',
+        description: 'Hide out events',
+      }),
+  handler: async (argv) => {
+    // Establish a connection to the Solana blockchain
+    const connection = createConnection();
+
+    // Create a read-only wallet for querying market data
+    const wallet = createStubWallet();
+    const provider = createProvider(connection, wallet);
+    const client = createClient(provider);
+
+    const marketPubkey = loadPublicKey(argv.market);
+
+    try {
+      logger.info(`Loading market: ${marketPubkey.toBase58()}...`);
+      const market = await Market.load(client, marketPubkey);
+      await market.loadEventHeap();
+
+      // Resolve the OpenOrders accounts to filter on
+      const filter = new Set<string>((argv.openOrders ?? []).map((key) => loadPublicKey(key).toBase58()));
+      if (argv.owner) {
+        const ownerPubkey = loadPublicKey(argv.owner);
+        const ownerAccounts = await client.findOpenOrdersForMarket(ownerPubkey, marketPubkey);
+        if (ownerAccounts.length === 0) {
+          logger.warn(`Owner ${ownerPubkey.toBase58()} has no OpenOrders accounts on this market.`);
+        }
+        ownerAccounts.forEach((key) => filter.add(key.toBase58()));
+      }
+      const filtering = argv.owner !== undefined || filter.size > 0;
+      if (filtering) {
+        logger.info(`Filtering on ${filter.size} OpenOrders account(s).`);
+      }
+
+      logger.info('Streaming trades...');
+      if (isTableOutput()) {
+        console.log(
+          `${'Time'.padEnd(24)} | Type | Side | ${'Price'.padEnd(15)} | ${'Size'.padEnd(15)} | ${'Maker'.padEnd(10)} | Taker`
+        );
+        console.log('-'.repeat(104));
+      }
+
+      watchEventHeap(connection, market, (events) => {
+        for (const event of events) {
+          if (argv.fillsOnly && event.type !== 'fill') continue;
+          if (filtering && !filter.has(event.maker) && !(event.taker && filter.has(event.taker))) continue;
+
+          const result: TradeResult = { market: marketPubkey.toBase58(), ...event };
+          emitResult(result);
+          if (isTableOutput()) {
+            printTapeRow(event);
+          }
+        }
+      });
+    } catch (error) {
+      logger.error(`Error streaming trades: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  },
+};
+
+export default trades;
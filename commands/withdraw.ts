@@ -3,6 +3,7 @@
  * 
  * Description
  * Withdraws funds from an OpenOrders account on OpenBook. This allows users to reclaim their base and quote tokens from an active market.
+ * With --unwrap, the wSOL account is closed in the same transaction, so withdrawn wrapped SOL arrives as SOL.
  *
  * Example Usage
  * npx ts-node cli.ts withdraw --market <MARKET_PUBKEY> --openOrders <OPEN_ORDERS_PUBKEY> --ownerKeypair <KEYPAIR_PATH>
@@ -10,7 +11,9 @@
  * Parameters
  * --market (Required): Public key of the market where the OpenOrders account is located.
  * --openOrders (Required): Public key of the OpenOrders account.
- * --ownerKeypair (Required): Path to the keypair file of the account owner.
+ * --ownerKeypair (Required unless --signer): Path to the keypair file of the account owner.
+ * --unwrap (Optional): Close the wSOL account after the withdrawal, unwrapping its whole balance to SOL. Requires a wrapped SOL market.
+ * --dry-run (Optional): Simulate the withdrawal and print the result without sending it or creating token accounts.
  */
 
 import { CommandModule } from 'yargs';
@@ -18,12 +21,12 @@ import {
   createConnection,
   createProvider,
   createClient,
-  loadKeypair,
   loadPublicKey,
   sendWithRetry,
   getDynamicPriorityFee,
   validateAndFetchMarket,
-  ensureAssociatedTokenAccount
+  ensureAssociatedTokenAccount,
+  getAssociatedTokenAccountIx
 } from '../utils/helper';
 import {
   PublicKey,
@@ -32,14 +35,26 @@ import {
 } from '@solana/web3.js';
 import { Wallet } from '@coral-xyz/anchor';
 import logger from '../utils/logger';
+import { emitResult } from '../utils/output';
+import { checkOwnerArgs, exportTransaction, loadOwner, type OwnerArgs } from '../utils/offline';
+import { simulateInstructions } from '../utils/simulate';
+import { isNativeMint, unwrapSolIx } from '../utils/wsol';
 
 /**
  * Interface defining the required arguments for the withdraw command.
  */
-interface WithdrawArgs {
+interface WithdrawArgs extends OwnerArgs {
   market: string;
   openOrders: string;
-  ownerKeypair: string;
+  unwrap?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Result schema in json/csv output.
+ */
+interface WithdrawResult {
+  signature: string;
 }
 
 /**
@@ -62,15 +77,19 @@ const withdraw: CommandModule<{}, WithdrawArgs> = {
       })
       .option('ownerKeypair', {
         type: 'string',
-        demandOption: true,
-        description: 'Path to owner keypair file',
-      }),
+        description: 'Path to owner keypair file (omit with --signer)',
+      })
+      .option('unwrap', {
+        type: 'boolean',
+        description: 'Close the wSOL account after the withdrawal to unwrap it to SOL',
+      })
+      .check(checkOwnerArgs),
   handler: async (argv) => {
     // Establish connection to the Solana blockchain
     const connection: Connection = createConnection();
 
     // Load the keypair of the account owner
-    const owner = loadKeypair(argv.ownerKeypair);
+    const owner = loadOwner(argv);
 
     // Create a wallet instance with the owner's keypair
     const wallet = new Wallet(owner);
@@ -105,20 +124,50 @@ const withdraw: CommandModule<{}, WithdrawArgs> = {
         throw new Error('OpenOrders account does not belong to the specified market.');
       }
 
-      // Ensure that the associated token accounts exist
-      logger.info('Ensuring associated token accounts exist...');
-      const baseTokenAccount = await ensureAssociatedTokenAccount(
-        connection,
-        owner,
-        marketAccount.baseMint,
-        owner.publicKey
-      );
-      const quoteTokenAccount = await ensureAssociatedTokenAccount(
-        connection,
-        owner,
-        marketAccount.quoteMint,
-        owner.publicKey
-      );
+      if (argv.unwrap && !isNativeMint(marketAccount.baseMint) && !isNativeMint(marketAccount.quoteMint)) {
+        throw new Error('--unwrap requires a market with wrapped SOL as base or quote token.');
+      }
+
+      let baseTokenAccount: PublicKey;
+      let quoteTokenAccount: PublicKey;
+      const createAtaIxs: TransactionInstruction[] = [];
+      if (argv.dryRun || argv.export) {
+        // Do not create missing token accounts, include their creation in the transaction instead
+        const [baseAta, createBaseAtaIx] = await getAssociatedTokenAccountIx(
+          connection,
+          owner.publicKey,
+          marketAccount.baseMint,
+          owner.publicKey
+        );
+        const [quoteAta, createQuoteAtaIx] = await getAssociatedTokenAccountIx(
+          connection,
+          owner.publicKey,
+          marketAccount.quoteMint,
+          owner.publicKey
+        );
+        baseTokenAccount = baseAta;
+        quoteTokenAccount = quoteAta;
+        for (const ix of [createBaseAtaIx, createQuoteAtaIx]) {
+          if (ix) {
+            createAtaIxs.push(ix);
+          }
+        }
+      } else {
+        // Ensure that the associated token accounts exist
+        logger.info('Ensuring associated token accounts exist...');
+        baseTokenAccount = await ensureAssociatedTokenAccount(
+          connection,
+          owner,
+          marketAccount.baseMint,
+          owner.publicKey
+        );
+        quoteTokenAccount = await ensureAssociatedTokenAccount(
+          connection,
+          owner,
+          marketAccount.quoteMint,
+          owner.publicKey
+        );
+      }
 
       // Prepare the withdrawal instruction
       logger.info('Preparing withdrawal instruction...');
@@ -132,16 +181,50 @@ const withdraw: CommandModule<{}, WithdrawArgs> = {
         null, // No referrer account specified
         owner.publicKey // The penalty payer is the owner
       );
+      // Closing the wSOL account unwraps its whole balance, including the withdrawn amount
+      const unwrapIxs = argv.unwrap ? [unwrapSolIx(owner.publicKey)] : [];
 
       // Retrieve the dynamic priority fee for transaction processing
       const finalPriorityFee = await getDynamicPriorityFee(connection);
 
+      if (argv.dryRun) {
+        const simulation = await simulateInstructions(
+          client,
+          connection,
+          owner.publicKey,
+          [...createAtaIxs, withdrawIx, ...unwrapIxs],
+          finalPriorityFee
+        );
+        if (!simulation.success) {
+          process.exit(1);
+        }
+        return;
+      }
+
+      if (argv.export) {
+        await exportTransaction(
+          connection,
+          owner.publicKey,
+          [...createAtaIxs, withdrawIx, ...unwrapIxs],
+          finalPriorityFee,
+          argv.export,
+          argv.nonceAccount
+        );
+        return;
+      }
+
       // Execute the transaction with retry logic for better reliability
-      const signature = await sendWithRetry(provider, connection, [withdrawIx], finalPriorityFee);
+      const signature = await sendWithRetry(provider, connection, [withdrawIx, ...unwrapIxs], finalPriorityFee);
 
       logger.info(`Withdrawal transaction successful. Transaction ID: ${signature}`);
+      if (argv.unwrap) {
+        logger.info('wSOL account closed and unwrapped to SOL.');
+      }
+
+      const result: WithdrawResult = { signature };
+      emitResult(result);
     } catch (error) {
-      logger.error('Error during withdrawal:', error);
+      logger.error(`Error during withdrawal: ${error instanceof Error ? error.message : error}`);
       process.exit(1);
     }
   },
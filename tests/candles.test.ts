@@ -0,0 +1,131 @@
+import assert from 'assert';
+import { addFill, aggregateCandles, candleOpenTime } from '../utils/candles';
+import type { TapeEvent } from '../utils/trades';
+
+function fill(timestamp: string, price: number, size: number): TapeEvent {
+  return {
+    type: 'fill',
+    seqNum: '0',
+    timestamp,
+    side: 'bid',
+    price,
+    size,
+    maker: 'maker',
+    taker: 'taker',
+    makerClientOrderId: null,
+    takerClientOrderId: null,
+  };
+}
+
+function out(timestamp: string): TapeEvent {
+  return { ...fill(timestamp, 0, 1), type: 'out', price: null, taker: null };
+}
+
+describe('candleOpenTime', () => {
+  it('rounds timestamps down to the start of their bar', () => {
+    assert.strictEqual(candleOpenTime('2025-01-01T10:07:59.999Z', '5m'), Date.parse('2025-01-01T10:05:00Z'));
+    assert.strictEqual(candleOpenTime('2025-01-01T10:59:00Z', '1h'), Date.parse('2025-01-01T10:00:00Z'));
+    assert.strictEqual(candleOpenTime(Date.parse('2025-01-01T10:00:30Z'), '1m'), Date.parse('2025-01-01T10:00:00Z'));
+  });
+
+  it('keeps timestamps on a boundary in the bar they open', () => {
+    assert.strictEqual(candleOpenTime('2025-01-01T10:05:00Z', '5m'), Date.parse('2025-01-01T10:05:00Z'));
+  });
+});
+
+describe('addFill', () => {
+  it('starts a bar from the first fill', () => {
+    const candle = addFill(null, fill('2025-01-01T10:00:30Z', 100, 2), '1m');
+    assert.deepStrictEqual(candle, {
+      openTime: '2025-01-01T10:00:00.000Z',
+      closeTime: '2025-01-01T10:01:00.000Z',
+      open: 100,
+      high: 100,
+      low: 100,
+      close: 100,
+      volume: 2,
+      quoteVolume: 200,
+      trades: 1,
+    });
+  });
+
+  it('ignores out events and fills of earlier bars', () => {
+    const candle = addFill(null, fill('2025-01-01T10:01:00Z', 100, 1), '1m');
+    assert.strictEqual(addFill(candle, out('2025-01-01T10:01:10Z'), '1m'), candle);
+    assert.strictEqual(addFill(null, out('2025-01-01T10:01:10Z'), '1m'), null);
+    assert.strictEqual(addFill(candle, fill('2025-01-01T10:00:59.999Z', 90, 1), '1m'), candle);
+    assert.strictEqual(candle?.trades, 1);
+  });
+
+  it('leaves the bar untouched when a fill starts the next one', () => {
+    const candle = addFill(null, fill('2025-01-01T10:00:00Z', 100, 1), '1m');
+    const next = addFill(candle, fill('2025-01-01T10:01:00Z', 101, 1), '1m');
+    assert.notStrictEqual(next, candle);
+    assert.strictEqual(next?.openTime, '2025-01-01T10:01:00.000Z');
+    assert.strictEqual(candle?.close, 100);
+    assert.strictEqual(candle?.trades, 1);
+  });
+});
+
+describe('aggregateCandles', () => {
+  it('aggregates the fills of each bar', () => {
+    const candles = aggregateCandles(
+      [
+        fill('2025-01-01T10:00:05Z', 100, 1),
+        fill('2025-01-01T10:00:20Z', 104, 0.5),
+        fill('2025-01-01T10:00:40Z', 98, 2),
+        fill('2025-01-01T10:00:59Z', 101, 1.5),
+      ],
+      '1m'
+    );
+    assert.strictEqual(candles.length, 1);
+    const [candle] = candles;
+    assert.strictEqual(candle.open, 100);
+    assert.strictEqual(candle.high, 104);
+    assert.strictEqual(candle.low, 98);
+    assert.strictEqual(candle.close, 101);
+    assert.strictEqual(candle.volume, 5);
+    assert.strictEqual(candle.quoteVolume, 100 + 52 + 196 + 151.5);
+    assert.strictEqual(candle.trades, 4);
+  });
+
+  it('puts fills on a boundary into the bar they open', () => {
+    const candles = aggregateCandles(
+      [fill('2025-01-01T10:04:59.999Z', 100, 1), fill('2025-01-01T10:05:00Z', 102, 1)],
+      '5m'
+    );
+    assert.deepStrictEqual(
+      candles.map((candle) => [candle.openTime, candle.closeTime, candle.close]),
+      [
+        ['2025-01-01T10:00:00.000Z', '2025-01-01T10:05:00.000Z', 100],
+        ['2025-01-01T10:05:00.000Z', '2025-01-01T10:10:00.000Z', 102],
+      ]
+    );
+  });
+
+  it('has no bars for intervals without fills', () => {
+    const candles = aggregateCandles(
+      [fill('2025-01-01T10:00:10Z', 100, 1), out('2025-01-01T10:01:10Z'), fill('2025-01-01T10:03:10Z', 99, 1)],
+      '1m'
+    );
+    assert.deepStrictEqual(
+      candles.map((candle) => candle.openTime),
+      ['2025-01-01T10:00:00.000Z', '2025-01-01T10:03:00.000Z']
+    );
+  });
+
+  it('returns no bars without fills', () => {
+    assert.deepStrictEqual(aggregateCandles([], '1h'), []);
+    assert.deepStrictEqual(aggregateCandles([out('2025-01-01T10:00:00Z')], '1h'), []);
+  });
+
+  it('drops fills older than the current bar', () => {
+    const candles = aggregateCandles(
+      [fill('2025-01-01T11:00:00Z', 100, 1), fill('2025-01-01T10:59:59Z', 50, 1), fill('2025-01-01T11:30:00Z', 101, 1)],
+      '1h'
+    );
+    assert.strictEqual(candles.length, 1);
+    assert.strictEqual(candles[0].low, 100);
+    assert.strictEqual(candles[0].trades, 2);
+  });
+});
@@ -0,0 +1,210 @@
+import assert from 'assert';
+import { BN, BorshCoder } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { EventHeap, EventType, I64_MAX_BN, IDL, Market, U64_MAX_BN, type OpenBookV2Client } from '@openbook-dex/openbook-v2';
+import {
+  MAX_TIME_IN_FORCE,
+  computeOrderLots,
+  parseClientOrderId,
+  parseExpiry,
+  summarizeExecution,
+} from '../utils/order';
+
+// 2025-01-01T00:00:00Z
+const NOW = Date.UTC(2025, 0, 1);
+const NOW_SECONDS = NOW / 1000;
+
+const coder = new BorshCoder(IDL);
+
+/**
+ * A SOL/USDC-like market: 0.001 base lots, 0.000001 quote lots, 0.0004 taker fee.
+ */
+function createMarket(): Market {
+  const client = { program: { coder } } as unknown as OpenBookV2Client;
+  return new Market(client, PublicKey.unique(), {
+    baseDecimals: 9,
+    quoteDecimals: 6,
+    baseLotSize: new BN(1_000_000),
+    quoteLotSize: new BN(1),
+    takerFee: new BN(400),
+    makerFee: new BN(0),
+  } as unknown as Market['account']);
+}
+
+function encodeFill(taker: PublicKey, takerClientOrderId: number, price: number, quantity: number): number[] {
+  const buffer = coder.types.encode('FillEvent', {
+    eventType: EventType.Fill,
+    takerSide: 0,
+    makerOut: 0,
+    makerSlot: 0,
+    padding: [0, 0, 0, 0],
+    timestamp: new BN(NOW_SECONDS),
+    seqNum: new BN(0),
+    maker: PublicKey.unique(),
+    makerTimestamp: new BN(NOW_SECONDS),
+    taker,
+    takerClientOrderId: new BN(takerClientOrderId),
+    price: new BN(price),
+    pegLimit: new BN(0),
+    quantity: new BN(quantity),
+    makerClientOrderId: new BN(0),
+    reserved: new Array(8).fill(0),
+  });
+  return [...buffer];
+}
+
+function createEventHeap(market: Market, events: number[][]): EventHeap {
+  const nodes = events.map((event, index) => ({
+    event: { eventType: event[0], padding: event.slice(1) },
+    next: index + 1,
+  }));
+  const account = { header: { usedHead: 0, count: nodes.length }, nodes };
+  return new EventHeap(PublicKey.unique(), account as unknown as EventHeap['account'], market);
+}
+
+function position(bidsBaseLots: number, asksBaseLots: number) {
+  return { bidsBaseLots: new BN(bidsBaseLots), asksBaseLots: new BN(asksBaseLots) } as never;
+}
+
+describe('parseExpiry', () => {
+  it('parses durations relative to now', () => {
+    assert.strictEqual(parseExpiry('90s', NOW).toNumber(), NOW_SECONDS + 90);
+    assert.strictEqual(parseExpiry('30m', NOW).toNumber(), NOW_SECONDS + 1800);
+    assert.strictEqual(parseExpiry(' 2h ', NOW).toNumber(), NOW_SECONDS + 7200);
+  });
+
+  it('parses unix timestamps and keeps 0 as no expiry', () => {
+    assert.strictEqual(parseExpiry(String(NOW_SECONDS + 60), NOW).toNumber(), NOW_SECONDS + 60);
+    assert.ok(parseExpiry('0', NOW).isZero());
+  });
+
+  it('parses ISO dates', () => {
+    assert.strictEqual(parseExpiry('2025-01-01T12:00:00Z', NOW).toNumber(), NOW_SECONDS + 43200);
+  });
+
+  it('rejects expiries in the past', () => {
+    assert.throws(() => parseExpiry(String(NOW_SECONDS), NOW), /in the past/);
+    assert.throws(() => parseExpiry('2024-12-31T00:00:00Z', NOW), /in the past/);
+  });
+
+  it('rejects invalid values', () => {
+    assert.throws(() => parseExpiry('soon', NOW), /Invalid expiry/);
+    assert.throws(() => parseExpiry('10w', NOW), /Invalid expiry/);
+  });
+
+  it('accepts the longest time in force of the program', () => {
+    assert.strictEqual(parseExpiry(`${MAX_TIME_IN_FORCE}s`, NOW).toNumber(), NOW_SECONDS + MAX_TIME_IN_FORCE);
+    assert.strictEqual(
+      parseExpiry(String(NOW_SECONDS + MAX_TIME_IN_FORCE), NOW).toNumber(),
+      NOW_SECONDS + MAX_TIME_IN_FORCE
+    );
+  });
+
+  it('rejects expiries beyond the longest time in force', () => {
+    assert.throws(() => parseExpiry('1d', NOW), /too far out/);
+    assert.throws(() => parseExpiry(`${MAX_TIME_IN_FORCE + 1}s`, NOW), /too far out/);
+    assert.throws(() => parseExpiry(String(NOW_SECONDS + MAX_TIME_IN_FORCE + 1), NOW), /too far out/);
+    assert.throws(() => parseExpiry('2025-01-02T00:00:00Z', NOW), /too far out/);
+  });
+
+  it('rejects huge values without overflowing', () => {
+    assert.throws(() => parseExpiry('18446744073709551616', NOW), /too far out/);
+    assert.throws(() => parseExpiry('99999999999999999999999s', NOW), /too far out/);
+  });
+});
+
+describe('parseClientOrderId', () => {
+  it('parses non-negative integers up to 64 bits', () => {
+    assert.strictEqual(parseClientOrderId('42').toString(), '42');
+    assert.ok(parseClientOrderId(U64_MAX_BN.toString()).eq(U64_MAX_BN));
+  });
+
+  it('rejects values that are not integers or exceed 64 bits', () => {
+    assert.throws(() => parseClientOrderId('-1'), /non-negative integer/);
+    assert.throws(() => parseClientOrderId('1.5'), /non-negative integer/);
+    assert.throws(() => parseClientOrderId(U64_MAX_BN.addn(1).toString()), /64 bits/);
+  });
+});
+
+describe('computeOrderLots', () => {
+  const market = createMarket();
+
+  it('converts the price and size of a limit order to lots', () => {
+    const lots = computeOrderLots(market, 'ask', 'limit', 1.5, 150);
+    assert.strictEqual(lots.maxBaseLots.toNumber(), 1500);
+    assert.strictEqual(lots.priceLots.toNumber(), 150_000);
+    assert.strictEqual(lots.maxQuoteLotsIncludingFees.toNumber(), 225_000_000);
+  });
+
+  it('reserves the taker fee for bids that may take liquidity', () => {
+    const lots = computeOrderLots(market, 'bid', 'limit', 1, 100);
+    assert.strictEqual(lots.maxQuoteLotsIncludingFees.toNumber(), 100_040_000);
+  });
+
+  it('does not reserve the taker fee for post-only bids', () => {
+    const lots = computeOrderLots(market, 'bid', 'postOnly', 1, 100);
+    assert.strictEqual(lots.maxQuoteLotsIncludingFees.toNumber(), 100_000_000);
+  });
+
+  it('uses --maxQuote as the quote budget', () => {
+    const lots = computeOrderLots(market, 'bid', 'limit', 1, 100, 50);
+    assert.strictEqual(lots.maxQuoteLotsIncludingFees.toNumber(), 50_000_000);
+  });
+
+  it('uses the widest price for market orders without a price', () => {
+    const bid = computeOrderLots(market, 'bid', 'market', 1, undefined, 200);
+    assert.ok(bid.priceLots.eq(I64_MAX_BN));
+    assert.strictEqual(bid.maxQuoteLotsIncludingFees.toNumber(), 200_000_000);
+
+    const ask = computeOrderLots(market, 'ask', 'market', 1);
+    assert.strictEqual(ask.priceLots.toNumber(), 1);
+    assert.ok(ask.maxQuoteLotsIncludingFees.eq(I64_MAX_BN));
+  });
+
+  it('requires a quote bound for market bids without a price', () => {
+    assert.throws(() => computeOrderLots(market, 'bid', 'market', 1), /--price or --maxQuote/);
+  });
+
+  it('requires a price for other order types', () => {
+    assert.throws(() => computeOrderLots(market, 'ask', 'limit', 1), /price is required/);
+  });
+
+  it('rejects sizes and prices below the lot and tick size', () => {
+    assert.throws(() => computeOrderLots(market, 'ask', 'limit', 0.0001, 100), /below the market minimum/);
+    assert.throws(() => computeOrderLots(market, 'ask', 'limit', 1, 0.0001), /below the market tick size/);
+  });
+});
+
+describe('summarizeExecution', () => {
+  const openOrders = PublicKey.unique();
+
+  it('sums the fills of the order and the newly resting size', async () => {
+    const market = createMarket();
+    const eventHeap = createEventHeap(market, [
+      encodeFill(openOrders, 7, 100_000, 400),
+      encodeFill(PublicKey.unique(), 7, 100_000, 900),
+      encodeFill(openOrders, 8, 100_000, 900),
+      encodeFill(openOrders, 7, 101_000, 600),
+    ]);
+    market.loadEventHeap = async () => eventHeap;
+
+    const summary = await summarizeExecution(market, openOrders, new BN(7), 'bid', position(0, 0), position(500, 0));
+    assert.strictEqual(summary.fillCount, 2);
+    assert.strictEqual(summary.filledBase, 1);
+    assert.strictEqual(summary.filledQuote, 100.6);
+    assert.strictEqual(summary.averagePrice, 100.6);
+    assert.strictEqual(summary.restingBase, 0.5);
+  });
+
+  it('reports no fills and ignores released locks', async () => {
+    const market = createMarket();
+    const eventHeap = createEventHeap(market, []);
+    market.loadEventHeap = async () => eventHeap;
+
+    const summary = await summarizeExecution(market, openOrders, new BN(7), 'ask', position(0, 800), position(0, 300));
+    assert.strictEqual(summary.fillCount, 0);
+    assert.strictEqual(summary.filledBase, 0);
+    assert.strictEqual(summary.averagePrice, null);
+    assert.strictEqual(summary.restingBase, 0);
+  });
+});
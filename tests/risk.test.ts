@@ -0,0 +1,210 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BN, BorshCoder } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { BookSide, IDL, Market, SideUtils, type OpenBookV2Client, type OpenOrdersAccount, type Side } from '@openbook-dex/openbook-v2';
+import { RISK_CONFIG_FILE, checkOrderRisk, loadRiskConfig } from '../utils/risk';
+
+const coder = new BorshCoder(IDL);
+
+/**
+ * A SOL/USDC-like market (0.001 price ticks, 0.001 base lots) with a single bid and ask resting on the book.
+ */
+function createMarket(bestBid: number, bestAsk: number, size: number): Market {
+  const client = { program: { coder } } as unknown as OpenBookV2Client;
+  const market = new Market(client, PublicKey.unique(), {
+    baseDecimals: 9,
+    quoteDecimals: 6,
+    baseLotSize: new BN(1_000_000),
+    quoteLotSize: new BN(1),
+    takerFee: new BN(0),
+    makerFee: new BN(0),
+  } as unknown as Market['account']);
+  market.bids = createBookSide(market, SideUtils.Bid, bestBid, size);
+  market.asks = createBookSide(market, SideUtils.Ask, bestAsk, size);
+  market.loadOrderBook = async () => market;
+  return market;
+}
+
+function createBookSide(market: Market, side: Side, price: number, size: number): BookSide {
+  const leaf = coder.types.encode('LeafNode', {
+    tag: 2,
+    ownerSlot: 0,
+    timeInForce: 0,
+    padding: [0, 0, 0, 0],
+    key: new BN(Math.round(price * 1000)).ushln(64),
+    owner: PublicKey.unique(),
+    quantity: new BN(Math.round(size * 1000)),
+    timestamp: new BN(0),
+    pegLimit: new BN(0),
+    clientOrderId: new BN(0),
+  });
+  const account = {
+    roots: [
+      { maybeNode: 0, leafCount: 1 },
+      { maybeNode: 0, leafCount: 0 },
+    ],
+    nodes: { nodes: [{ tag: 2, nodeData: leaf }] },
+  };
+  return new BookSide(market, PublicKey.unique(), account as unknown as BookSide['account'], side);
+}
+
+/**
+ * An OpenOrders account with resting bids locking `bidsQuote` and resting asks of `asksBase`.
+ */
+function createAccount(bidsQuote: number = 0, asksBase: number = 0): OpenOrdersAccount {
+  return {
+    position: { bidsQuoteLots: new BN(bidsQuote * 1_000_000), asksBaseLots: new BN(asksBase * 1000) },
+  } as unknown as OpenOrdersAccount;
+}
+
+describe('loadRiskConfig', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  before(function () {
+    // The tests write the config file, so never run them against a config set through OPENBOOK_RISK_CONFIG
+    if (path.isAbsolute(RISK_CONFIG_FILE)) {
+      this.skip();
+    }
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openbook-risk-'));
+    process.chdir(dir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(config: unknown): void {
+    fs.writeFileSync(RISK_CONFIG_FILE, typeof config === 'string' ? config : JSON.stringify(config));
+  }
+
+  it('returns null without a config file', () => {
+    assert.strictEqual(loadRiskConfig(), null);
+  });
+
+  it('reads the global and per-market rules', () => {
+    const config = {
+      allowedMarkets: ['market'],
+      global: { maxOrderNotional: 1000, maxPriceDeviationBps: 0 },
+      markets: { market: { maxOrderSize: 5 } },
+    };
+    writeConfig(config);
+    assert.deepStrictEqual(loadRiskConfig(), config);
+  });
+
+  it('rejects unknown rules', () => {
+    writeConfig({ global: { maxNotional: 1000 } });
+    assert.throws(() => loadRiskConfig(), /Unknown risk rule "maxNotional"/);
+    writeConfig({ markets: { market: { maxOrderSise: 5 } } });
+    assert.throws(() => loadRiskConfig(), /Unknown risk rule "maxOrderSise"/);
+  });
+
+  it('rejects rules that are not non-negative numbers', () => {
+    for (const value of [-1, '100', null]) {
+      writeConfig({ global: { maxOrderSize: value } });
+      assert.throws(() => loadRiskConfig(), /"maxOrderSize" .* must be a non-negative number/);
+    }
+  });
+
+  it('rejects files that are not JSON', () => {
+    writeConfig('{ "global": ');
+    assert.throws(() => loadRiskConfig(), /Failed to read risk config/);
+  });
+});
+
+describe('checkOrderRisk', () => {
+  // Mid price 100
+  const market = createMarket(99, 101, 2);
+  const marketKey = market.pubkey.toBase58();
+
+  it('passes orders within the rules', async () => {
+    const breaches = await checkOrderRisk(
+      { global: { maxOrderSize: 1, maxOrderNotional: 100, maxPriceDeviationBps: 100, maxOpenNotional: 200 } },
+      market,
+      createAccount(),
+      [{ side: 'bid', size: 1, price: 99.5 }]
+    );
+    assert.deepStrictEqual(breaches, []);
+  });
+
+  it('rejects markets that are not allowed', async () => {
+    const breaches = await checkOrderRisk({ allowedMarkets: [PublicKey.unique().toBase58()] }, market, createAccount(), [
+      { side: 'bid', size: 1, price: 100 },
+    ]);
+    assert.deepStrictEqual(breaches, [`Market ${marketKey} is not in the allowed markets.`]);
+  });
+
+  it('overrides the global rules field by field with the rules of the market', async () => {
+    const config = {
+      global: { maxOrderSize: 1, maxOrderNotional: 150 },
+      markets: { [marketKey]: { maxOrderSize: 5 } },
+    };
+    const breaches = await checkOrderRisk(config, market, createAccount(), [{ side: 'ask', size: 2, price: 100 }]);
+    assert.strictEqual(breaches.length, 1);
+    assert.match(breaches[0], /notional 200\.0000 exceeds the maximum order notional of 150/);
+
+    const otherMarket = await checkOrderRisk(
+      { markets: { [PublicKey.unique().toBase58()]: { maxOrderSize: 0 } } },
+      market,
+      createAccount(),
+      [{ side: 'ask', size: 2, price: 100 }]
+    );
+    assert.deepStrictEqual(otherMarket, []);
+  });
+
+  it('checks the price deviation from the mid price, except for pegged orders', async () => {
+    const config = { global: { maxPriceDeviationBps: 50 } };
+    const breaches = await checkOrderRisk(config, market, createAccount(), [
+      { side: 'bid', size: 1, price: 100.5 },
+      { side: 'ask', size: 1, price: 101 },
+      { side: 'bid', size: 1, price: 90, pegged: true },
+    ]);
+    assert.strictEqual(breaches.length, 1);
+    assert.match(breaches[0], /^ASK 1 @ 101: price 101 deviates 100\.00 bps from the reference price 100\.0000/);
+  });
+
+  it('values orders without a price at their estimated fill', async () => {
+    const config = { global: { maxOrderNotional: 150, maxPriceDeviationBps: 50 } };
+    const breaches = await checkOrderRisk(config, market, createAccount(), [{ side: 'bid', size: 2 }]);
+    assert.deepStrictEqual(
+      breaches.map((breach) => breach.split(':')[1].trim()),
+      [
+        'notional 202.0000 exceeds the maximum order notional of 150.',
+        'price 101 deviates 100.00 bps from the reference price 100.0000, more than the maximum of 50 bps.',
+      ]
+    );
+
+    const bounded = await checkOrderRisk(config, market, createAccount(), [{ side: 'bid', size: 2, maxQuote: 150 }]);
+    assert.strictEqual(bounded.length, 1);
+    assert.match(bounded[0], /deviates/);
+  });
+
+  it('adds the resting orders of the account to the open notional', async () => {
+    const config = { global: { maxOpenNotional: 300 } };
+    const orders = [{ side: 'bid' as const, size: 1, price: 100 }];
+    // 150 locked by bids and 1 base of asks at the mid price
+    const account = createAccount(150, 1);
+
+    const breaches = await checkOrderRisk(config, market, account, orders);
+    assert.deepStrictEqual(breaches, [
+      'Open notional of the OpenOrders account would be 350.0000 (250.0000 resting + 100.0000 new), more than the maximum of 300.',
+    ]);
+    assert.deepStrictEqual(await checkOrderRisk(config, market, account, orders, { replacedNotional: 50 }), []);
+    assert.deepStrictEqual(await checkOrderRisk(config, market, account, orders, { replacesAllOrders: true }), []);
+  });
+
+  it('does not load the book without rules', async () => {
+    const bare = createMarket(99, 101, 2);
+    bare.loadOrderBook = async () => {
+      throw new Error('unexpected book load');
+    };
+    assert.deepStrictEqual(await checkOrderRisk({}, bare, createAccount(), [{ side: 'bid', size: 100, price: 1 }]), []);
+  });
+});
@@ -0,0 +1,160 @@
+import assert from 'assert';
+import logger from '../utils/logger';
+import { RpcPool } from '../utils/rpcPool';
+
+type Reply = number | Error | { status: number; retryAfter: string };
+
+const originalFetch = globalThis.fetch;
+
+/**
+ * Replaces the global fetch with one that answers each endpoint from its queue of replies
+ * (an HTTP status, a status with Retry-After, or a network error). Endpoints without replies left answer 200.
+ */
+function stubFetch(replies: Record<string, Reply[]>): string[] {
+  const calls: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = String(input);
+    calls.push(url);
+    const reply = replies[url]?.shift() ?? 200;
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    if (typeof reply === 'number') {
+      return new Response(url, { status: reply });
+    }
+    return new Response(url, { status: reply.status, headers: { 'retry-after': reply.retryAfter } });
+  }) as typeof globalThis.fetch;
+  return calls;
+}
+
+function statsOf(pool: RpcPool, url: string) {
+  const stats = pool.getStats().find((entry) => entry.url === url);
+  assert.ok(stats);
+  return stats;
+}
+
+describe('RpcPool', () => {
+  const a = 'https://a.example';
+  const b = 'https://b.example';
+
+  // Keep the failover warnings out of the test output
+  before(() => {
+    logger.silent = true;
+  });
+
+  after(() => {
+    logger.silent = false;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('needs at least one endpoint and ignores duplicates', () => {
+    assert.throws(() => new RpcPool([]), /at least one endpoint/);
+    assert.deepStrictEqual(
+      new RpcPool([a, b, a]).getStats().map((entry) => entry.url),
+      [a, b]
+    );
+  });
+
+  it('sends requests to the first healthy endpoint', async () => {
+    const calls = stubFetch({});
+    const pool = new RpcPool([a, b]);
+    const response = await pool.fetch('https://ignored.example', {});
+    assert.strictEqual(await response.text(), a);
+    assert.deepStrictEqual(calls, [a]);
+    assert.strictEqual(statsOf(pool, a).requests, 1);
+    assert.notStrictEqual(statsOf(pool, a).avgLatencyMs, null);
+  });
+
+  it('fails over on 429, 5xx and network errors', async () => {
+    for (const reply of [429, 503, new Error('connect ECONNREFUSED')]) {
+      const calls = stubFetch({ [a]: [reply] });
+      const pool = new RpcPool([a, b]);
+      const response = await pool.fetch(a, {});
+      assert.strictEqual(await response.text(), b);
+      assert.deepStrictEqual(calls, [a, b]);
+      assert.strictEqual(statsOf(pool, a).errors, 1);
+      assert.strictEqual(statsOf(pool, b).errors, 0);
+      assert.strictEqual(statsOf(pool, a).lastError, reply instanceof Error ? reply.message : `HTTP ${reply}`);
+    }
+  });
+
+  it('does not fail over on client errors', async () => {
+    const calls = stubFetch({ [a]: [400] });
+    const pool = new RpcPool([a, b]);
+    const response = await pool.fetch(a, {});
+    assert.strictEqual(response.status, 400);
+    assert.deepStrictEqual(calls, [a]);
+    assert.strictEqual(statsOf(pool, a).errors, 0);
+  });
+
+  it('returns the last response or rethrows the last error when every endpoint fails', async () => {
+    stubFetch({ [a]: [503], [b]: [502] });
+    const response = await new RpcPool([a, b]).fetch(a, {});
+    assert.strictEqual(response.status, 502);
+
+    stubFetch({ [a]: [new Error('first')], [b]: [new Error('second')] });
+    await assert.rejects(new RpcPool([a, b]).fetch(a, {}), /second/);
+  });
+
+  it('puts failed endpoints on cooldown and tries them last', async () => {
+    const calls = stubFetch({ [a]: [503] });
+    const pool = new RpcPool([a, b]);
+    await pool.fetch(a, {});
+    const now = Date.now();
+    assert.ok(statsOf(pool, a).cooldownUntil > now);
+
+    calls.length = 0;
+    const response = await pool.fetch(a, {});
+    assert.strictEqual(await response.text(), b);
+    assert.deepStrictEqual(calls, [b]);
+  });
+
+  it('doubles the cooldown for consecutive failures and honors Retry-After', async () => {
+    stubFetch({ [a]: [503, 503] });
+    const pool = new RpcPool([a]);
+    let start = Date.now();
+    await pool.fetch(a, {});
+    assert.ok(Math.abs(statsOf(pool, a).cooldownUntil - start - 1000) < 100);
+    start = Date.now();
+    await pool.fetch(a, {});
+    assert.ok(Math.abs(statsOf(pool, a).cooldownUntil - start - 2000) < 100);
+    assert.strictEqual(statsOf(pool, a).consecutiveErrors, 2);
+
+    stubFetch({ [a]: [{ status: 429, retryAfter: '30' }] });
+    const limited = new RpcPool([a]);
+    start = Date.now();
+    await limited.fetch(a, {});
+    assert.ok(Math.abs(statsOf(limited, a).cooldownUntil - start - 30_000) < 100);
+  });
+
+  it('clears the cooldown after a success', async () => {
+    stubFetch({ [a]: [503] });
+    const pool = new RpcPool([a]);
+    await pool.fetch(a, {});
+    await pool.fetch(a, {});
+    const stats = statsOf(pool, a);
+    assert.strictEqual(stats.cooldownUntil, 0);
+    assert.strictEqual(stats.consecutiveErrors, 0);
+    assert.strictEqual(stats.errors, 1);
+  });
+
+  it('spaces requests to an endpoint by its rate limit', async () => {
+    stubFetch({});
+    const pool = new RpcPool([a], 20);
+    const start = Date.now();
+    await Promise.all([pool.fetch(a, {}), pool.fetch(a, {}), pool.fetch(a, {})]);
+    // Three requests at 20 per second need two 50 ms intervals
+    assert.ok(Date.now() - start >= 95);
+  });
+
+  it('does not wait without a rate limit', async () => {
+    stubFetch({});
+    const pool = new RpcPool([a]);
+    const start = Date.now();
+    await Promise.all([pool.fetch(a, {}), pool.fetch(a, {}), pool.fetch(a, {})]);
+    assert.ok(Date.now() - start < 50);
+  });
+});
@@ -0,0 +1,259 @@
+import logger from './logger';
+import { emitResult, isTableOutput } from './output';
+import { diffL2, type L2Level, type L3Order } from './orderBook';
+
+// Default number of levels per side shown by the book views
+export const DEFAULT_BOOK_DEPTH = 10;
+// Highlight of our own orders in the L3 table
+const HIGHLIGHT = '\x1b[1;32m';
+const RESET = '\x1b[0m';
+
+/**
+ * Views of the order book, as selected with `--bestbidask`, `--book` and `--diff`.
+ */
+export interface BookViewOptions {
+  bestbidask?: boolean;
+  book?: boolean;
+  diff?: boolean;
+  depth?: number;
+}
+
+/**
+ * Result schemas in json/csv output. One result is emitted per change.
+ * --bestbidask emits a BestBidAskUpdate. --book emits a BookUpdate with [price, size] levels, best first;
+ * its CSV output has one row per level (timestamp, side, level, price, size, amount).
+ * --diff emits one L2DiffUpdate per changed price level. The first updates describe the whole book (oldSize 0).
+ */
+interface BestBidAskUpdate {
+  timestamp: string;
+  market: string;
+  bestBid: number | null;
+  bestAsk: number | null;
+}
+
+interface BookUpdate {
+  timestamp: string;
+  market: string;
+  bids: [number, number][];
+  asks: [number, number][];
+}
+
+/**
+ * Result schema of the L3 view: every listed order with `ours` set for the highlighted accounts.
+ * Its CSV output has one row per order (timestamp, market and the order fields).
+ */
+interface L3Update {
+  timestamp: string;
+  market: string;
+  orders: (L3Order & { ours: boolean })[];
+}
+
+interface L2DiffUpdate {
+  timestamp: string;
+  market: string;
+  side: 'bid' | 'ask';
+  price: number;
+  oldSize: number;
+  newSize: number;
+}
+
+/**
+ * Creates the live order book display shared by `marketData` and `replay`.
+ * The returned function is called with the full aggregated book after every update and only refreshes
+ * the selected views when they changed.
+ * @param market Public key of the market, included in the results.
+ * @param options Views to display.
+ * @returns A function taking the bids and asks (best first) and the time of the update.
+ */
+export function createBookView(
+  market: string,
+  options: BookViewOptions
+): (bids: L2Level[], asks: L2Level[], timestamp: string) => void {
+  // Last displayed state of each view, so that unchanged updates are skipped
+  let lastBestBidAsk: string | null = null;
+  let lastBook: string | null = null;
+  let previousBids: L2Level[] = [];
+  let previousAsks: L2Level[] = [];
+  const depth = options.depth ?? DEFAULT_BOOK_DEPTH;
+
+  if (options.diff && isTableOutput()) {
+    console.log(`${'Timestamp'.padEnd(24)} | Side | ${'Price'.padEnd(15)} | Old Size -> New Size`);
+  }
+
+  return (bids, asks, timestamp) => {
+    // Best bid/ask prices
+    if (options.bestbidask) {
+      const update: BestBidAskUpdate = {
+        timestamp,
+        market,
+        bestBid: bids[0]?.[0] ?? null,
+        bestAsk: asks[0]?.[0] ?? null,
+      };
+      const state = `${update.bestBid}|${update.bestAsk}`;
+      if (state !== lastBestBidAsk) {
+        lastBestBidAsk = state;
+        logger.info(`Best Bid: ${update.bestBid?.toFixed(4) ?? 'N/A'} | Best Ask: ${update.bestAsk?.toFixed(4) ?? 'N/A'}`);
+        emitResult(update);
+      }
+    }
+
+    // Order book liquidity
+    if (options.book) {
+      const update: BookUpdate = {
+        timestamp,
+        market,
+        bids: bids.slice(0, depth),
+        asks: asks.slice(0, depth),
+      };
+      const state = JSON.stringify([update.bids, update.asks]);
+      if (state !== lastBook) {
+        lastBook = state;
+        const toRows = (side: 'bid' | 'ask', levels: L2Level[]) =>
+          levels.map(([price, size], index) => ({
+            timestamp,
+            side,
+            level: index + 1,
+            price,
+            size,
+            amount: price * size,
+          }));
+        emitResult(update, [...toRows('bid', update.bids), ...toRows('ask', update.asks)]);
+        if (isTableOutput()) {
+          printBook(update.bids, update.asks, depth);
+        }
+      }
+    }
+
+    // L2 diffs of the whole book
+    if (options.diff) {
+      const diffs = [...diffL2('bid', previousBids, bids), ...diffL2('ask', previousAsks, asks)];
+      previousBids = bids;
+      previousAsks = asks;
+
+      for (const diff of diffs) {
+        const update: L2DiffUpdate = { timestamp, market, ...diff };
+        emitResult(update);
+        if (isTableOutput()) {
+          console.log(
+            `${timestamp} | ${diff.side.toUpperCase().padEnd(4)} | ${diff.price.toFixed(4).padEnd(15)} | ` +
+              `${diff.oldSize.toFixed(4)} -> ${diff.newSize.toFixed(4)}`
+          );
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Redraws the order book table with bids and asks side by side.
+ */
+function printBook(bids: L2Level[], asks: L2Level[], depth: number): void {
+  // Clear the console for a real-time order book display
+  console.clear();
+  console.log(
+    'Price (Bid)     | Size (Bid)      | Amount (Bid)    || Price (Ask)     | Size (Ask)      | Amount (Ask)'
+  );
+  console.log(
+    '--------------- | --------------- | --------------- || --------------- | --------------- | ---------------'
+  );
+
+  // Iterate through the order book and display bid/ask levels
+  for (let i = 0; i < depth; i++) {
+    const bid = bids[i] || [null, null];
+    const ask = asks[i] || [null, null];
+
+    const bidPrice = bid[0]?.toFixed(4) || 'N/A';
+    const bidSize = bid[1]?.toFixed(4) || 'N/A';
+    const bidAmount = bid[0] && bid[1] ? (bid[0] * bid[1]).toFixed(4) : 'N/A';
+
+    const askPrice = ask[0]?.toFixed(4) || 'N/A';
+    const askSize = ask[1]?.toFixed(4) || 'N/A';
+    const askAmount = ask[0] && ask[1] ? (ask[0] * ask[1]).toFixed(4) : 'N/A';
+
+    console.log(
+      `${bidPrice.padEnd(15)} | ${bidSize.padEnd(15)} | ${bidAmount.padEnd(15)} || ${askPrice.padEnd(15)} | ${askSize.padEnd(15)} | ${askAmount.padEnd(15)}`
+    );
+  }
+}
+
+/**
+ * Creates the L3 order book display of `marketData --l3`. The returned function is called with the
+ * individual orders of each side (see `getL3Orders`) and only refreshes the display when they changed.
+ * Orders of the given OpenOrders accounts are highlighted and their queue positions summarized.
+ * @param market Public key of the market, included in the results.
+ * @param ourAccounts OpenOrders accounts whose orders are highlighted.
+ * @returns A function taking the bid and ask orders and the time of the update.
+ */
+export function createL3View(
+  market: string,
+  ourAccounts: Set<string>
+): (bids: L3Order[], asks: L3Order[], timestamp: string) => void {
+  let lastOrders: string | null = null;
+
+  return (bids, asks, timestamp) => {
+    const orders = [...bids, ...asks].map((order) => ({ ...order, ours: ourAccounts.has(order.owner) }));
+    const state = JSON.stringify(orders);
+    if (state === lastOrders) {
+      return;
+    }
+    lastOrders = state;
+
+    const update: L3Update = { timestamp, market, orders };
+    emitResult(
+      update,
+      orders.map((order) => ({ timestamp, market, ...order }))
+    );
+    if (isTableOutput()) {
+      printL3Book(orders, timestamp);
+    }
+  };
+}
+
+/**
+ * Redraws the L3 table: asks from the worst to the best price above the bids from the best to the worst price,
+ * followed by the queue positions of our orders.
+ */
+function printL3Book(orders: (L3Order & { ours: boolean })[], timestamp: string): void {
+  const shorten = (key: string) => `${key.slice(0, 4)}..${key.slice(-4)}`;
+  const formatPrice = (order: L3Order) =>
+    order.pegged ? `PEG ${order.pegOffset! >= 0 ? '+' : ''}${order.pegOffset!.toFixed(4)}` : order.price!.toFixed(4);
+  const highlight = process.stdout.isTTY;
+
+  // Number of orders at each level, for "position x of y"
+  const levelKey = (order: L3Order) => `${order.side}|${order.pegged}|${order.level}`;
+  const levelCounts = new Map<string, number>();
+  for (const order of orders) {
+    levelCounts.set(levelKey(order), (levelCounts.get(levelKey(order)) ?? 0) + 1);
+  }
+
+  const printRow = (order: L3Order & { ours: boolean }) => {
+    const row =
+      `${order.ours ? '*' : ' '} ${order.side.toUpperCase().padEnd(4)} | ${String(order.level).padEnd(5)} | ` +
+      `${`${order.queuePosition}/${levelCounts.get(levelKey(order))}`.padEnd(7)} | ${formatPrice(order).padEnd(16)} | ` +
+      `${order.size.toFixed(4).padEnd(12)} | ${order.sizeAhead.toFixed(4).padEnd(12)} | ${shorten(order.owner).padEnd(10)} | ` +
+      `${order.clientOrderId.padEnd(20)} | ${order.placedAt.padEnd(24)} | ${order.timeInForce > 0 ? `${order.timeInForce}s` : 'GTC'}`;
+    console.log(order.ours && highlight ? `${HIGHLIGHT}${row}${RESET}` : row);
+  };
+
+  console.clear();
+  console.log(`L3 Order Book - ${timestamp}`);
+  console.log(
+    `  Side | Level | Queue   | ${'Price'.padEnd(16)} | ${'Size'.padEnd(12)} | ${'Size Ahead'.padEnd(12)} | ` +
+      `${'Owner'.padEnd(10)} | ${'Client Order ID'.padEnd(20)} | ${'Placed'.padEnd(24)} | TIF`
+  );
+  console.log('-'.repeat(160));
+  orders.filter((order) => order.side === 'ask').reverse().forEach(printRow);
+  console.log('-'.repeat(160));
+  orders.filter((order) => order.side === 'bid').forEach(printRow);
+
+  const ours = orders.filter((order) => order.ours);
+  if (ours.length > 0) {
+    console.log('\nOur Queue Positions');
+    for (const order of ours) {
+      console.log(
+        `${order.side.toUpperCase()} level ${order.level} @ ${formatPrice(order)}: position ${order.queuePosition} of ` +
+          `${levelCounts.get(levelKey(order))}, ${order.sizeAhead.toFixed(4)} ahead (order ${order.orderId})`
+      );
+    }
+  }
+}
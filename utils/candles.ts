@@ -0,0 +1,95 @@
+import type { TapeEvent } from './trades';
+
+// Supported candle intervals and their length in milliseconds
+export const CANDLE_INTERVALS = {
+  '1m': 60_000,
+  '5m': 300_000,
+  '1h': 3_600_000,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+/**
+ * An OHLCV bar. Times are ISO 8601, openTime inclusive and closeTime exclusive.
+ * volume is in base units, quoteVolume the sum of price * size of the fills.
+ */
+export interface Candle {
+  openTime: string;
+  closeTime: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  quoteVolume: number;
+  trades: number;
+}
+
+/**
+ * Returns the start time (in ms) of the bar that contains a timestamp.
+ */
+export function candleOpenTime(timestamp: string | number, interval: CandleInterval): number {
+  const time = typeof timestamp === 'number' ? timestamp : Date.parse(timestamp);
+  return Math.floor(time / CANDLE_INTERVALS[interval]) * CANDLE_INTERVALS[interval];
+}
+
+/**
+ * Adds a fill to a bar. If the fill belongs to a later interval, a new bar is started instead and
+ * the given one is left untouched. Out events and fills of earlier intervals are ignored.
+ * @param candle The current bar, or null before the first fill.
+ * @param fill A fill event.
+ * @param interval Bar interval.
+ * @returns The bar that contains the fill, or the given one if the fill was ignored.
+ */
+export function addFill(candle: Candle | null, fill: TapeEvent, interval: CandleInterval): Candle | null {
+  if (fill.type !== 'fill' || fill.price === null) {
+    return candle;
+  }
+
+  const openTime = candleOpenTime(fill.timestamp, interval);
+  if (candle !== null) {
+    const currentOpenTime = Date.parse(candle.openTime);
+    if (openTime < currentOpenTime) {
+      return candle;
+    }
+    if (openTime === currentOpenTime) {
+      candle.high = Math.max(candle.high, fill.price);
+      candle.low = Math.min(candle.low, fill.price);
+      candle.close = fill.price;
+      candle.volume += fill.size;
+      candle.quoteVolume += fill.price * fill.size;
+      candle.trades++;
+      return candle;
+    }
+  }
+
+  return {
+    openTime: new Date(openTime).toISOString(),
+    closeTime: new Date(openTime + CANDLE_INTERVALS[interval]).toISOString(),
+    open: fill.price,
+    high: fill.price,
+    low: fill.price,
+    close: fill.price,
+    volume: fill.size,
+    quoteVolume: fill.price * fill.size,
+    trades: 1,
+  };
+}
+
+/**
+ * Builds the bars of a list of fills, oldest first. Intervals without fills have no bar.
+ * @param fills Fill events, oldest first. Out events are ignored.
+ * @param interval Bar interval.
+ */
+export function aggregateCandles(fills: TapeEvent[], interval: CandleInterval): Candle[] {
+  const candles: Candle[] = [];
+  let current: Candle | null = null;
+  for (const fill of fills) {
+    const next = addFill(current, fill, interval);
+    if (next !== current && next !== null) {
+      candles.push(next);
+      current = next;
+    }
+  }
+  return candles;
+}
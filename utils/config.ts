@@ -1,5 +1,8 @@
-import { PublicKey } from '@solana/web3.js';
+import { Commitment, PublicKey } from '@solana/web3.js';
 import dotenv from 'dotenv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Load environment variables
 dotenv.config();
@@ -7,6 +10,9 @@ dotenv.config();
 // RPC Configuration
 export const RPC_CONFIG = {
   MAINNET_URL: process.env.MAINNET_RPC_URL || 'https://api.mainnet-beta.solana.com',
+  DEVNET_URL: process.env.DEVNET_RPC_URL || 'https://api.devnet.solana.com',
+  LOCALNET_URL: process.env.LOCALNET_RPC_URL || 'http://127.0.0.1:8899',
+  REQUESTS_PER_SECOND: Number(process.env.RPC_REQUESTS_PER_SECOND || 0), // 0 = no rate limit
 };
 
 // Program IDs
@@ -16,11 +22,125 @@ export const PROGRAM_IDS = {
 
 // Defaults and Limits
 export const DEFAULTS = {
-  ORDER_LIMIT: 16, // Default limit for fetching orders
+  ORDER_LIMIT: 16, // Maximum number of resting orders matched by a single order placement
   REFRESH_INTERVAL_MS: 1000, // Default interval for refreshing market data
 };
 
+// Network profile file, looked up in the working directory unless OPENBOOK_CONFIG points elsewhere
+export const PROFILE_CONFIG_FILE = process.env.OPENBOOK_CONFIG || 'openbook.config.json';
+
+/**
+ * A named network profile.
+ */
+export interface NetworkProfile {
+  name: string;
+  rpcUrl: string;
+  rpcUrls: string[]; // rpcUrl followed by the fallback endpoints
+  requestsPerSecond: number;
+  wsUrl?: string;
+  programId: PublicKey;
+  commitment: Commitment;
+  keypair?: string;
+}
+
+/**
+ * A profile as written in the config file. All fields are optional for built-in profiles.
+ */
+interface ProfileConfig {
+  rpcUrl?: string;
+  fallbackRpcUrls?: string[];
+  requestsPerSecond?: number;
+  wsUrl?: string;
+  programId?: string;
+  commitment?: Commitment;
+  keypair?: string;
+}
+
+// Built-in profiles, available without a config file
+const BUILTIN_PROFILES: Record<string, ProfileConfig> = {
+  mainnet: {
+    rpcUrl: RPC_CONFIG.MAINNET_URL,
+    fallbackRpcUrls: process.env.MAINNET_FALLBACK_RPC_URLS?.split(',').map((url) => url.trim()).filter(Boolean),
+    wsUrl: process.env.MAINNET_WS_URL,
+  },
+  devnet: { rpcUrl: RPC_CONFIG.DEVNET_URL, wsUrl: process.env.DEVNET_WS_URL },
+  localnet: { rpcUrl: RPC_CONFIG.LOCALNET_URL, wsUrl: process.env.LOCALNET_WS_URL || 'ws://127.0.0.1:8900' },
+};
+
+const DEFAULT_PROFILE = 'mainnet';
+
+let activeProfile: NetworkProfile | null = null;
+
+/**
+ * Reads the profile config file, if present.
+ */
+function readProfileConfig(): { defaultProfile?: string; profiles: Record<string, ProfileConfig> } {
+  if (!fs.existsSync(PROFILE_CONFIG_FILE)) {
+    return { profiles: {} };
+  }
+  try {
+    const parsed = JSON.parse(fs.readFileSync(PROFILE_CONFIG_FILE, 'utf-8'));
+    return { defaultProfile: parsed.defaultProfile, profiles: parsed.profiles ?? {} };
+  } catch (error) {
+    throw new Error(`Failed to read profile config: ${PROFILE_CONFIG_FILE}. Error: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Expands a leading `~` in a path to the home directory.
+ */
+function expandHome(filePath: string): string {
+  return filePath.startsWith('~') ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+}
+
+/**
+ * Resolves a profile by name. Profiles from the config file override the fields of built-in profiles with the same name.
+ * @param name Profile name. Defaults to `defaultProfile` from the config file, or mainnet.
+ */
+export function loadProfile(name?: string): NetworkProfile {
+  const config = readProfileConfig();
+  const profileName = name ?? config.defaultProfile ?? DEFAULT_PROFILE;
+  const profile = { ...BUILTIN_PROFILES[profileName], ...config.profiles[profileName] };
+
+  if (!BUILTIN_PROFILES[profileName] && !config.profiles[profileName]) {
+    const available = [...new Set([...Object.keys(BUILTIN_PROFILES), ...Object.keys(config.profiles)])];
+    throw new Error(`Unknown profile: ${profileName}. Available profiles: ${available.join(', ')}`);
+  }
+  if (!profile.rpcUrl) {
+    throw new Error(`Profile ${profileName} has no rpcUrl.`);
+  }
+
+  return {
+    name: profileName,
+    rpcUrl: profile.rpcUrl,
+    rpcUrls: [profile.rpcUrl, ...(profile.fallbackRpcUrls ?? [])],
+    requestsPerSecond: profile.requestsPerSecond ?? RPC_CONFIG.REQUESTS_PER_SECOND,
+    wsUrl: profile.wsUrl,
+    programId: profile.programId ? new PublicKey(profile.programId) : PROGRAM_IDS.OPENBOOK_V2_PROGRAM_ID,
+    commitment: profile.commitment ?? 'confirmed',
+    keypair: profile.keypair ? expandHome(profile.keypair) : undefined,
+  };
+}
+
+/**
+ * Selects the profile used by all commands of this run.
+ */
+export function setActiveProfile(name?: string): NetworkProfile {
+  activeProfile = loadProfile(name);
+  return activeProfile;
+}
+
+/**
+ * Returns the profile selected with `--profile`, or the default profile.
+ */
+export function getActiveProfile(): NetworkProfile {
+  if (!activeProfile) {
+    activeProfile = loadProfile();
+  }
+  return activeProfile;
+}
+
 // Utility Functions
 export function getRpcUrl(): string {
-  return RPC_CONFIG.MAINNET_URL;
+  return getActiveProfile().rpcUrl;
 }
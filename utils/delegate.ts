@@ -0,0 +1,130 @@
+import { Keypair, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { type OpenBookV2Client, type OpenOrdersAccount } from '@openbook-dex/openbook-v2';
+import logger from './logger';
+import { loadKeypair, loadPublicKey } from './helper';
+import { getOpenBookErrorCode } from './error';
+import { checkOwnerArgs, loadOwner, type OwnerArgs } from './offline';
+
+/**
+ * Arguments of commands that a delegate may sign instead of the owner.
+ * `owner` names the owner of the OpenOrders account when `delegateKeypair` signs.
+ */
+export interface DelegateArgs extends OwnerArgs {
+  delegateKeypair?: string;
+  owner?: string;
+}
+
+/**
+ * Validates the signer arguments of a command that a delegate may sign: either the owner's arguments
+ * (see `checkOwnerArgs`), or `--delegateKeypair` together with `--owner`. Meant to be called from a command's `check()`.
+ */
+export function checkDelegateArgs(argv: DelegateArgs): true {
+  if (!argv.delegateKeypair) {
+    if (argv.owner) {
+      throw new Error('--owner is only used together with --delegateKeypair.');
+    }
+    return checkOwnerArgs(argv);
+  }
+  if (argv.ownerKeypair || argv.signer) {
+    throw new Error('Specify either --delegateKeypair or --ownerKeypair/--signer, but not both.');
+  }
+  if (!argv.owner) {
+    throw new Error('--delegateKeypair requires --owner, the public key of the OpenOrders account owner.');
+  }
+  if (argv.nonceAccount && !argv.export) {
+    throw new Error('--nonceAccount is only used together with --export.');
+  }
+  return true;
+}
+
+/**
+ * Loads the keypair that signs the command: the delegate with `--delegateKeypair`, the owner otherwise.
+ * The signer also pays the transaction fees.
+ */
+export function loadSigner(argv: DelegateArgs): Keypair {
+  return argv.delegateKeypair ? loadKeypair(argv.delegateKeypair) : loadOwner(argv);
+}
+
+/**
+ * Returns the delegate of an OpenOrders account, or null if it has none.
+ */
+export function getDelegate(openOrdersAccount: OpenOrdersAccount): PublicKey | null {
+  const { key } = openOrdersAccount.delegate;
+  return key.equals(PublicKey.default) ? null : key;
+}
+
+/**
+ * Checks before signing that a delegate may act for the named owner on an OpenOrders account.
+ * Does nothing when the owner signs, as the program reports a wrong owner itself.
+ */
+export function verifyDelegate(argv: DelegateArgs, openOrdersAccount: OpenOrdersAccount, signer: PublicKey): void {
+  if (!argv.delegateKeypair) {
+    return;
+  }
+  const owner = loadPublicKey(argv.owner!);
+  if (!openOrdersAccount.owner.equals(owner)) {
+    throw new Error(
+      `The OpenOrders account is owned by ${openOrdersAccount.owner.toBase58()}, not by ${owner.toBase58()}.`
+    );
+  }
+  const delegate = getDelegate(openOrdersAccount);
+  if (!delegate || !delegate.equals(signer)) {
+    throw new Error(
+      `${signer.toBase58()} is not the delegate of the OpenOrders account ` +
+        `(current delegate: ${delegate?.toBase58() ?? 'none'}). The owner can change it with setDelegate.`
+    );
+  }
+  logger.info(`Signing as delegate ${signer.toBase58()} for owner ${owner.toBase58()}.`);
+}
+
+/**
+ * The SDK's cancel instructions always name the account owner as signer, so a delegate could not sign them.
+ * Replaces the owner by the actual signer in the signer account of an instruction.
+ */
+export function replaceSigner(ix: TransactionInstruction, owner: PublicKey, signer: PublicKey): TransactionInstruction {
+  for (const key of ix.keys) {
+    if (key.isSigner && key.pubkey.equals(owner)) {
+      key.pubkey = signer;
+    }
+  }
+  return ix;
+}
+
+/**
+ * Builds the instruction that sets or, with a null delegate, removes the delegate of an OpenOrders account.
+ * The SDK has no builder for it, so it is built from the program directly.
+ */
+export async function setDelegateIx(
+  client: OpenBookV2Client,
+  owner: PublicKey,
+  openOrders: PublicKey,
+  delegate: PublicKey | null
+): Promise<TransactionInstruction> {
+  return client.program.methods
+    .setDelegate()
+    .accounts({ owner, openOrdersAccount: openOrders, delegateAccount: delegate })
+    .instruction();
+}
+
+/**
+ * Explains the permission errors of the OpenBook program (250: wrong owner or delegate, 251: wrong owner).
+ * @returns Whether the error was a permission error.
+ */
+export function explainPermissionError(error: unknown): boolean {
+  const errorCode = getOpenBookErrorCode(error);
+  if (errorCode === 250) {
+    logger.error(
+      'Permission denied: the signer is neither the owner nor the delegate of the OpenOrders account. ' +
+        'Check the keypair, and that the delegate was set with setDelegate.'
+    );
+    return true;
+  }
+  if (errorCode === 251) {
+    logger.error(
+      'Permission denied: only the owner of the OpenOrders account may do this. ' +
+        'Delegates can place and cancel orders, but cannot close the account or change its delegate.'
+    );
+    return true;
+  }
+  return false;
+}
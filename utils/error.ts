@@ -1,3 +1,5 @@
+import logger from './logger';
+
 export const OpenBookErrors: Record<number, string> = {
     100: 'Cannot close the OpenOrders indexer because there are still active OpenOrders accounts.',
     101: 'Name length above limit.',
@@ -28,6 +30,41 @@ export const OpenBookErrors: Record<number, string> = {
     304: 'Fill-Or-Kill order would generate a partial execution.',
     // Add more OpenBook error codes as needed
   };
+
+  /**
+   * The program reports Anchor custom error codes (6000 + variant index).
+   * Maps those on-chain codes onto the keys used in `OpenBookErrors`.
+   */
+  const OnChainErrorCodes: Record<number, number> = {
+    6001: 101,
+    6002: 102,
+    6003: 103,
+    6004: 104,
+    6005: 105,
+    6006: 106,
+    6007: 108,
+    6008: 107,
+    6009: 109,
+    6010: 110,
+    6011: 111,
+    6012: 112,
+    6013: 113,
+    6014: 114,
+    6019: 202,
+    6020: 100,
+    6025: 302,
+    6029: 303,
+    6030: 200,
+    6032: 301,
+    6033: 201,
+    6034: 250,
+    6035: 251,
+    6036: 252,
+    6038: 302,
+    6040: 300,
+    6041: 150,
+    6043: 304,
+  };
   
   /**
    * Translates OpenBook error codes into human-readable error messages.
@@ -37,4 +74,46 @@ export const OpenBookErrors: Record<number, string> = {
   export function getOpenBookErrorMessage(errorCode: number): string {
     return OpenBookErrors[errorCode] || `Unknown OpenBook error: ${errorCode}`;
   }
-  
\ No newline at end of file
+
+  /**
+   * Extracts the OpenBook error code from a failed transaction error.
+   * On-chain Anchor codes are normalized to the keys used in `OpenBookErrors`.
+   * @param error The error thrown while sending or confirming a transaction
+   * @returns The OpenBook error code, or null if the error is not an OpenBook error
+   */
+  export function getOpenBookErrorCode(error: any): number | null {
+    const instructionError = error?.err?.InstructionError;
+    if (!Array.isArray(instructionError)) {
+      return null;
+    }
+
+    const [, errorData] = instructionError;
+    if (typeof errorData === 'object' && errorData !== null && 'Custom' in errorData) {
+      const errorCode = Number(errorData.Custom);
+      return OnChainErrorCodes[errorCode] ?? errorCode;
+    }
+    return null;
+  }
+
+  /**
+   * Parses OpenBook errors and logs a human-readable message.
+   * Returns `true` if an OpenBook error was identified and handled; otherwise, returns false.
+   */
+  export function handleOpenBookError(error: any): boolean {
+    try {
+      if (!error || typeof error !== 'object') {
+        logger.error(`Invalid error format.`);
+        return false;
+      }
+
+      const errorCode = getOpenBookErrorCode(error);
+      if (errorCode !== null) {
+        logger.error(`OpenBook Error (${errorCode}): ${getOpenBookErrorMessage(errorCode)}`);
+        return true;
+      }
+      return false;
+    } catch (e) {
+      logger.error('Error processing OpenBook error.');
+      return false;
+    }
+  }
@@ -1,18 +1,22 @@
 import {
+  type AccountInfo,
   Connection,
   Keypair,
   PublicKey,
   TransactionInstruction,
   Transaction,
   SystemProgram,
+  MessageV0,
+  VersionedTransaction,
 } from '@solana/web3.js';
 import { AnchorProvider, Wallet } from '@coral-xyz/anchor';
 import fs from 'fs';
 import { Buffer } from 'buffer';
 import { OpenBookV2Client } from '@openbook-dex/openbook-v2';
-import { RPC_CONFIG, PROGRAM_IDS } from './config';
+import { getActiveProfile } from './config';
+import { RpcPool } from './rpcPool';
 import logger from './logger';
-import { sendTransaction } from './rpc';
+import { sendTransaction, createComputeBudgetIx } from './rpc';
 import {
   TOKEN_PROGRAM_ID,
   ASSOCIATED_TOKEN_PROGRAM_ID,
@@ -23,10 +27,28 @@ import {
 // Constants
 const BASE_PRIORITY_FEE = BigInt(100_000); // Minimum priority fee
 const MAX_RETRIES = 10; // Maximum retry attempts for transactions
+const MAX_TRANSACTION_SIZE = 1232; // Maximum serialized transaction size in bytes
+const MAX_ACCOUNTS_PER_REQUEST = 100; // Maximum accounts per getMultipleAccountsInfo request
 
-// Initialize Solana Connection
-export function createConnection(url: string = RPC_CONFIG.MAINNET_URL): Connection {
-  return new Connection(url, 'confirmed');
+// Shared by all connections of the active profile so health stats and rate limits apply process-wide
+let rpcPool: RpcPool | null = null;
+
+// Initialize Solana Connection for the active profile, or for an explicit RPC URL
+export function createConnection(url?: string): Connection {
+  const profile = getActiveProfile();
+  if (url) {
+    return new Connection(url, profile.commitment);
+  }
+
+  // Route requests through the failover pool when there is more than one endpoint or a rate limit
+  if (profile.rpcUrls.length > 1 || profile.requestsPerSecond > 0) {
+    rpcPool = rpcPool ?? new RpcPool(profile.rpcUrls, profile.requestsPerSecond);
+  }
+  return new Connection(profile.rpcUrl, {
+    commitment: profile.commitment,
+    wsEndpoint: profile.wsUrl,
+    fetch: rpcPool?.fetch,
+  });
 }
 
 // Create a Read-Only Wallet
@@ -38,13 +60,13 @@ export function createStubWallet(): Wallet {
 // Create AnchorProvider
 export function createProvider(connection: Connection, wallet: Wallet): AnchorProvider {
   return new AnchorProvider(connection, wallet, {
-    preflightCommitment: 'confirmed',
+    preflightCommitment: getActiveProfile().commitment,
   });
 }
 
 // Initialize OpenBookV2 Client
 export function createClient(provider: AnchorProvider): OpenBookV2Client {
-  return new OpenBookV2Client(provider, PROGRAM_IDS.OPENBOOK_V2_PROGRAM_ID);
+  return new OpenBookV2Client(provider, getActiveProfile().programId);
 }
 
 // Load Signer Keypair from a File
@@ -72,6 +94,24 @@ export function loadPublicKey(key: string): PublicKey {
   }
 }
 
+/**
+ * Fetches many accounts with as few requests as possible, splitting them into getMultipleAccountsInfo
+ * requests of at most 100 accounts.
+ * @param connection Solana connection object.
+ * @param pubkeys Accounts to fetch.
+ * @returns The account infos in the order of `pubkeys`, null for accounts that do not exist.
+ */
+export async function getMultipleAccountsBatched(
+  connection: Connection,
+  pubkeys: PublicKey[]
+): Promise<(AccountInfo<Buffer> | null)[]> {
+  const accounts: (AccountInfo<Buffer> | null)[] = [];
+  for (let i = 0; i < pubkeys.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    accounts.push(...(await connection.getMultipleAccountsInfo(pubkeys.slice(i, i + MAX_ACCOUNTS_PER_REQUEST))));
+  }
+  return accounts;
+}
+
 /**
  * Fetches the dynamic priority fee based on recent network activity.
  * Uses the mean value of non-zero prioritization fees from the last 150 blocks.
@@ -199,6 +239,59 @@ export async function sendWithRetry(
   throw new Error('Transaction failed after multiple retries.');
 }
 
+/**
+ * Splits instructions into groups that each fit into a single transaction.
+ * The size check includes the compute budget instruction that `sendTransaction` prepends.
+ * @param payer Fee payer of the transactions.
+ * @param instructions Instructions to pack, in execution order.
+ * @returns Groups of instructions, one per transaction.
+ */
+export function packInstructions(
+  payer: PublicKey,
+  instructions: TransactionInstruction[]
+): TransactionInstruction[][] {
+  const groups: TransactionInstruction[][] = [];
+  let current: TransactionInstruction[] = [];
+
+  for (const instruction of instructions) {
+    const candidate = [...current, instruction];
+    if (fitsInTransaction(payer, candidate)) {
+      current = candidate;
+      continue;
+    }
+    if (current.length === 0) {
+      throw new Error('A single instruction exceeds the maximum transaction size.');
+    }
+    groups.push(current);
+    current = [instruction];
+    if (!fitsInTransaction(payer, current)) {
+      throw new Error('A single instruction exceeds the maximum transaction size.');
+    }
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+  return groups;
+}
+
+/**
+ * Checks whether the given instructions fit into one transaction.
+ */
+function fitsInTransaction(payer: PublicKey, instructions: TransactionInstruction[]): boolean {
+  try {
+    const message = MessageV0.compile({
+      payerKey: payer,
+      instructions: [createComputeBudgetIx(1), ...instructions],
+      recentBlockhash: PublicKey.default.toBase58(),
+    });
+    return new VersionedTransaction(message).serialize().length <= MAX_TRANSACTION_SIZE;
+  } catch {
+    // Serialization fails outright when the transaction is far too large
+    return false;
+  }
+}
+
 /**
  * Confirms a transaction using getSignatureStatus() with polling.
  * This function provides a more reliable confirmation strategy compared to confirmTransaction().
@@ -248,6 +341,38 @@ export async function validateAndFetchMarket(
   return client.decodeMarket(marketDataRaw.data);
 }
 
+/**
+ * Returns the Associated Token Account (ATA) for a given mint and wallet without sending anything.
+ * If the ATA does not exist, an idempotent creation instruction is returned alongside it.
+ * @param connection Solana connection object.
+ * @param payer Payer of the account creation.
+ * @param mint Token mint public key.
+ * @param owner Wallet public key to associate the token account with.
+ * @returns Public key of the associated token account and its creation instruction, if needed.
+ */
+export async function getAssociatedTokenAccountIx(
+  connection: Connection,
+  payer: PublicKey,
+  mint: PublicKey,
+  owner: PublicKey
+): Promise<[PublicKey, TransactionInstruction | null]> {
+  const ata = await getAssociatedTokenAddress(mint, owner, true);
+  const ataInfo = await connection.getAccountInfo(ata);
+  if (ataInfo) {
+    return [ata, null];
+  }
+
+  const createAtaIx = createAssociatedTokenAccountIdempotentInstruction(
+    payer,
+    ata,
+    owner,
+    mint,
+    TOKEN_PROGRAM_ID,
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return [ata, createAtaIx];
+}
+
 /**
  * Ensures an Associated Token Account (ATA) exists for a given mint and wallet.
  * If the ATA does not exist, it creates one.
@@ -0,0 +1,46 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { type OpenBookV2Client, type OpenOrdersIndexerAccount } from '@openbook-dex/openbook-v2';
+
+/**
+ * The OpenOrdersIndexer of an owner together with its rent.
+ */
+export interface LoadedIndexer {
+  pubkey: PublicKey;
+  account: OpenOrdersIndexerAccount;
+  lamports: number;
+}
+
+/**
+ * Loads the OpenOrdersIndexer of an owner. Returns null if the owner has none.
+ */
+export async function loadOpenOrdersIndexer(client: OpenBookV2Client, owner: PublicKey): Promise<LoadedIndexer | null> {
+  const pubkey = client.findOpenOrdersIndexer(owner);
+  const info = await client.connection.getAccountInfo(pubkey);
+  if (!info) {
+    return null;
+  }
+  return {
+    pubkey,
+    account: client.program.coder.accounts.decode('openOrdersIndexer', info.data),
+    lamports: info.lamports,
+  };
+}
+
+/**
+ * Builds the instruction that closes the OpenOrdersIndexer of an owner and returns its rent to the owner.
+ * The program only closes an indexer that no longer lists any OpenOrders account.
+ * The SDK's closeOpenOrdersIndexerIx passes the market's book sides as indexer and rent destination,
+ * so the instruction is built from the program directly.
+ */
+export async function closeOpenOrdersIndexerIx(client: OpenBookV2Client, owner: PublicKey): Promise<TransactionInstruction> {
+  return client.program.methods
+    .closeOpenOrdersIndexer()
+    .accounts({
+      owner,
+      openOrdersIndexer: client.findOpenOrdersIndexer(owner),
+      solDestination: owner,
+      tokenProgram: TOKEN_PROGRAM_ID,
+    })
+    .instruction();
+}
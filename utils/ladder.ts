@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A single order of a ladder, in UI units.
+ */
+export interface LadderOrder {
+  side: 'bid' | 'ask';
+  price: number;
+  size: number;
+  expiry?: string;
+}
+
+/**
+ * Parameters of an evenly spaced price grid.
+ */
+export interface GridSpec {
+  side: 'bid' | 'ask';
+  startPrice: number;
+  endPrice: number;
+  levels: number;
+  sizePerLevel: number;
+}
+
+/**
+ * Validates a raw order entry read from a file and converts it into a `LadderOrder`.
+ */
+function toLadderOrder(raw: Record<string, unknown>, index: number): LadderOrder {
+  const side = String(raw.side ?? '').trim().toLowerCase();
+  const price = Number(raw.price);
+  const size = Number(raw.size);
+
+  if (side !== 'bid' && side !== 'ask') {
+    throw new Error(`Order #${index + 1}: side must be 'bid' or 'ask' (got '${raw.side}').`);
+  }
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new Error(`Order #${index + 1}: price must be a positive number (got '${raw.price}').`);
+  }
+  if (!Number.isFinite(size) || size <= 0) {
+    throw new Error(`Order #${index + 1}: size must be a positive number (got '${raw.size}').`);
+  }
+
+  const expiry = raw.expiry !== undefined && String(raw.expiry).trim() !== '' ? String(raw.expiry).trim() : undefined;
+  return { side, price, size, expiry };
+}
+
+/**
+ * Parses CSV content with a header row. Required columns: side, price, size. Optional: expiry.
+ */
+function parseCsv(content: string): Record<string, unknown>[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const headers = lines[0].split(',').map((header) => header.trim());
+  for (const required of ['side', 'price', 'size']) {
+    if (!headers.includes(required)) {
+      throw new Error(`CSV header is missing the '${required}' column.`);
+    }
+  }
+
+  return lines.slice(1).map((line) => {
+    const values = line.split(',').map((value) => value.trim());
+    const row: Record<string, unknown> = {};
+    headers.forEach((header, i) => {
+      row[header] = values[i];
+    });
+    return row;
+  });
+}
+
+/**
+ * Loads a list of orders from a JSON or CSV file.
+ * JSON files contain an array of `{ side, price, size, expiry? }` objects.
+ * CSV files have a `side,price,size[,expiry]` header row.
+ */
+export function loadOrdersFromFile(filePath: string): LadderOrder[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Failed to read orders file: ${filePath}. Error: ${(error as Error).message}`);
+  }
+
+  let rows: Record<string, unknown>[];
+  if (path.extname(filePath).toLowerCase() === '.csv') {
+    rows = parseCsv(content);
+  } else {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Orders file must contain a JSON array of orders.');
+    }
+    rows = parsed;
+  }
+
+  if (rows.length === 0) {
+    throw new Error(`No orders found in ${filePath}.`);
+  }
+  return rows.map(toLadderOrder);
+}
+
+/**
+ * Builds an evenly spaced ladder of orders between start and end price (both inclusive).
+ */
+export function buildGridOrders(spec: GridSpec): LadderOrder[] {
+  if (!Number.isInteger(spec.levels) || spec.levels < 1) {
+    throw new Error('Grid levels must be a positive integer.');
+  }
+  if (spec.startPrice <= 0 || spec.endPrice <= 0) {
+    throw new Error('Grid start and end prices must be positive.');
+  }
+  if (spec.sizePerLevel <= 0) {
+    throw new Error('Grid size per level must be positive.');
+  }
+
+  const step = spec.levels > 1 ? (spec.endPrice - spec.startPrice) / (spec.levels - 1) : 0;
+  const orders: LadderOrder[] = [];
+  for (let i = 0; i < spec.levels; i++) {
+    orders.push({
+      side: spec.side,
+      price: spec.startPrice + step * i,
+      size: spec.sizePerLevel,
+    });
+  }
+  return orders;
+}
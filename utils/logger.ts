@@ -27,6 +27,19 @@ const errorFormat = format((info) => {
   return info;
 });
 
+// Console output format
+const consoleFormat = format.combine(
+  format.colorize(),
+  format.printf(({ level, message, stack, details }) => {
+    if (stack) {
+      return `[${level.toUpperCase()}]: ${message}\nStack: ${stack}\nDetails: ${details}`;
+    }
+    return `[${level.toUpperCase()}]: ${message}`;
+  })
+);
+
+const consoleTransport = new transports.Console({ format: consoleFormat });
+
 // Create a logger instance with custom formatting
 const logger = createLogger({
   level: process.env.LOG_LEVEL || 'info', // Dynamic log level
@@ -41,17 +54,7 @@ const logger = createLogger({
     })
   ),
   transports: [
-    new transports.Console({
-      format: format.combine(
-        format.colorize(),
-        format.printf(({ level, message, stack, details }) => {
-          if (stack) {
-            return `[${level.toUpperCase()}]: ${message}\nStack: ${stack}\nDetails: ${details}`;
-          }
-          return `[${level.toUpperCase()}]: ${message}`;
-        })
-      ),
-    }),
+    consoleTransport,
     new transports.File({
       filename: 'logs/app.log',
       maxsize: 5 * 1024 * 1024, // 5MB
@@ -63,4 +66,12 @@ const logger = createLogger({
   ],
 });
 
+/**
+ * Sends all console logging to stderr, keeping stdout free for machine-readable output.
+ */
+export function routeLogsToStderr(): void {
+  logger.remove(consoleTransport);
+  logger.add(new transports.Console({ format: consoleFormat, stderrLevels: Object.keys(logger.levels) }));
+}
+
 export default logger;
@@ -0,0 +1,153 @@
+import {
+  Connection,
+  Keypair,
+  MessageV0,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import fs from 'fs';
+import { Buffer } from 'buffer';
+import logger from './logger';
+import { createComputeBudgetIx } from './rpc';
+import { loadKeypair, loadPublicKey } from './helper';
+import { getActiveProfile } from './config';
+import { emitResult } from './output';
+
+/**
+ * Owner-related arguments shared by all write commands.
+ */
+export interface OwnerArgs {
+  ownerKeypair?: string;
+  signer?: string;
+  export?: string;
+  nonceAccount?: string;
+}
+
+/**
+ * Validates that a write command either has a keypair or exports an unsigned transaction for `--signer`.
+ * The keypair defaults to the one of the active profile. Meant to be called from a command's `check()`.
+ */
+export function checkOwnerArgs(argv: OwnerArgs): true {
+  if (argv.ownerKeypair && argv.signer) {
+    throw new Error('Specify either --ownerKeypair or --signer, but not both.');
+  }
+  if (!argv.ownerKeypair && !argv.signer && !getActiveProfile().keypair) {
+    throw new Error('Missing required argument: ownerKeypair (or a profile keypair, or --signer with --export for offline signing).');
+  }
+  if (argv.signer && !argv.export) {
+    throw new Error('--signer requires --export: transactions without a keypair can only be exported.');
+  }
+  if (argv.nonceAccount && !argv.export) {
+    throw new Error('--nonceAccount is only used together with --export.');
+  }
+  return true;
+}
+
+/**
+ * Loads the owner of a write command.
+ * With `--signer`, only the public key is known. The returned keypair can build instructions
+ * but cannot produce valid signatures, which is all an exported transaction needs.
+ */
+export function loadOwner(argv: OwnerArgs): Keypair {
+  if (argv.signer) {
+    const publicKey = loadPublicKey(argv.signer);
+    return new Keypair({ publicKey: publicKey.toBytes(), secretKey: new Uint8Array(64) });
+  }
+  return loadKeypair(argv.ownerKeypair ?? getActiveProfile().keypair!);
+}
+
+/**
+ * Writes a base64 encoded transaction to a file.
+ */
+export function writeTransactionFile(filePath: string, transaction: VersionedTransaction): void {
+  fs.writeFileSync(filePath, Buffer.from(transaction.serialize()).toString('base64') + '\n');
+}
+
+/**
+ * Reads a base64 encoded transaction from a file.
+ */
+export function readTransactionFile(filePath: string): VersionedTransaction {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8').trim();
+  } catch (error) {
+    throw new Error(`Failed to read transaction file: ${filePath}. Error: ${(error as Error).message}`);
+  }
+  try {
+    return VersionedTransaction.deserialize(Buffer.from(content, 'base64'));
+  } catch (error) {
+    throw new Error(`Invalid transaction file: ${filePath}. Error: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Builds an unsigned transaction from the given instructions and writes it to a file.
+ * Without a nonce account, the transaction uses a recent blockhash and must be signed and broadcast
+ * before it expires (about a minute). With a durable nonce account, the first instruction advances
+ * the nonce and the transaction stays valid until the nonce is used.
+ * @param connection Solana connection object.
+ * @param payer Fee payer and signer of the transaction (also the nonce authority).
+ * @param instructions Instructions to export, in execution order.
+ * @param prioritizationFee Priority fee in microLamports, added as a compute budget instruction.
+ * @param filePath File to write the base64 encoded transaction to.
+ * @param nonceAccount Optional public key of a durable nonce account.
+ */
+export async function exportTransaction(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  prioritizationFee: bigint,
+  filePath: string,
+  nonceAccount?: string
+): Promise<void> {
+  const noncePubkey = nonceAccount ? loadPublicKey(nonceAccount) : undefined;
+  let recentBlockhash: string;
+  let allInstructions = [createComputeBudgetIx(Number(prioritizationFee)), ...instructions];
+
+  if (noncePubkey) {
+    const nonce = await connection.getNonce(noncePubkey, 'confirmed');
+    if (!nonce) {
+      throw new Error(`Nonce account not found: ${noncePubkey.toBase58()}`);
+    }
+    if (!nonce.authorizedPubkey.equals(payer)) {
+      throw new Error(
+        `Nonce authority ${nonce.authorizedPubkey.toBase58()} does not match the signer ${payer.toBase58()}.`
+      );
+    }
+    // The nonce advance must be the first instruction of a durable nonce transaction
+    recentBlockhash = nonce.nonce;
+    allInstructions = [
+      SystemProgram.nonceAdvance({ noncePubkey, authorizedPubkey: payer }),
+      ...allInstructions,
+    ];
+  } else {
+    recentBlockhash = (await connection.getLatestBlockhash('confirmed')).blockhash;
+  }
+
+  const message = MessageV0.compile({
+    payerKey: payer,
+    instructions: allInstructions,
+    recentBlockhash,
+  });
+  const transaction = new VersionedTransaction(message);
+  writeTransactionFile(filePath, transaction);
+
+  logger.info(`Unsigned transaction written to ${filePath}`);
+  logger.info(`  Signer: ${payer.toBase58()}`);
+  if (noncePubkey) {
+    logger.info(`  Durable nonce: ${noncePubkey.toBase58()} (valid until the nonce is advanced)`);
+  } else {
+    logger.warn('  Uses a recent blockhash: sign and broadcast within about a minute, or use --nonceAccount.');
+  }
+  logger.info(`Sign it with: npx ts-node cli.ts signTx --file ${filePath} --keypair <KEYPAIR_PATH>`);
+
+  // Result of every write command run with --export
+  emitResult({
+    exported: filePath,
+    signer: payer.toBase58(),
+    nonceAccount: noncePubkey?.toBase58() ?? null,
+    recentBlockhash,
+  });
+}
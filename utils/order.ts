@@ -0,0 +1,346 @@
+import { BN } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import {
+  EventType,
+  I64_MAX_BN,
+  U64_MAX_BN,
+  type FillEvent,
+  type Market,
+  type OpenOrdersAccount,
+  type PlaceOrderType,
+  type SelfTradeBehavior,
+} from '@openbook-dex/openbook-v2';
+import { parseEvents } from './trades';
+import type { L3Order } from './orderBook';
+
+// Fees on OpenBook markets are expressed in millionths (1_000_000 = 100%)
+export const FEES_SCALE = 1_000_000;
+
+/**
+ * Order types accepted by the `--orderType` option.
+ * Each name maps onto the matching variant of `PlaceOrderArgs.orderType`.
+ */
+export const ORDER_TYPE_CHOICES = [
+  'limit',
+  'market',
+  'immediateOrCancel',
+  'fillOrKill',
+  'postOnly',
+  'postOnlySlide',
+] as const;
+
+export type OrderTypeName = (typeof ORDER_TYPE_CHOICES)[number];
+
+/**
+ * Converts a CLI order type name into the OpenBook `PlaceOrderType` variant.
+ */
+export function toPlaceOrderType(orderType: OrderTypeName): PlaceOrderType {
+  return { [orderType]: {} } as PlaceOrderType;
+}
+
+/**
+ * Self-trade behaviors accepted by the `--selfTrade` option.
+ */
+export const SELF_TRADE_CHOICES = ['decrementTake', 'cancelProvide', 'abortTransaction'] as const;
+
+export type SelfTradeName = (typeof SELF_TRADE_CHOICES)[number];
+
+/**
+ * Converts a CLI self-trade behavior name into the OpenBook `SelfTradeBehavior` variant.
+ */
+export function toSelfTradeBehavior(selfTrade: SelfTradeName): SelfTradeBehavior {
+  return { [selfTrade]: {} } as SelfTradeBehavior;
+}
+
+// Seconds per unit for durations such as `30m` or `2h`
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+// The program stores the time in force of an order as a u16, so orders expire at most this many seconds from now
+export const MAX_TIME_IN_FORCE = 65_535;
+
+/**
+ * Parses a good-till value into a unix timestamp in seconds.
+ * Accepts a duration relative to now (`90s`, `30m`, `2h`), a unix timestamp in seconds,
+ * or an ISO 8601 date. The value `0` means the order never expires.
+ * Expiries more than `MAX_TIME_IN_FORCE` seconds from now are rejected, as the program would cut them short.
+ */
+export function parseExpiry(value: string, now: number = Date.now()): BN {
+  const trimmed = value.trim();
+  const nowSeconds = Math.floor(now / 1000);
+  const latest = new BN(nowSeconds + MAX_TIME_IN_FORCE);
+
+  let expiry: BN;
+  const duration = /^(\d+)([smhd])$/.exec(trimmed);
+  if (duration) {
+    expiry = new BN(duration[1]).muln(DURATION_UNITS[duration[2]]).add(new BN(nowSeconds));
+  } else if (/^\d+$/.test(trimmed)) {
+    expiry = new BN(trimmed);
+    if (expiry.isZero()) {
+      return expiry;
+    }
+    if (expiry.lte(new BN(nowSeconds))) {
+      throw new Error(`Expiry timestamp ${trimmed} is in the past.`);
+    }
+  } else {
+    const date = Date.parse(trimmed);
+    if (Number.isNaN(date)) {
+      throw new Error(`Invalid expiry: ${value}. Use a duration (e.g. 30m), a unix timestamp or an ISO date.`);
+    }
+    if (date <= now) {
+      throw new Error(`Expiry ${value} is in the past.`);
+    }
+    expiry = new BN(Math.floor(date / 1000));
+  }
+
+  if (expiry.gt(latest)) {
+    throw new Error(
+      `Expiry ${value} is too far out. OpenBook orders expire at most ${MAX_TIME_IN_FORCE} seconds (about 18h) from now.`
+    );
+  }
+  return expiry;
+}
+
+/**
+ * Parses a client order ID, which must fit into an unsigned 64-bit integer.
+ */
+export function parseClientOrderId(value: string): BN {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`Invalid client order ID: ${value}. It must be a non-negative integer.`);
+  }
+  const clientOrderId = new BN(value.trim());
+  if (clientOrderId.gt(U64_MAX_BN)) {
+    throw new Error(`Invalid client order ID: ${value}. It must fit into 64 bits.`);
+  }
+  return clientOrderId;
+}
+
+/**
+ * Returns true if the order type never rests on the book (it can only take liquidity).
+ */
+export function isTakerOnly(orderType: OrderTypeName): boolean {
+  return orderType === 'market' || orderType === 'immediateOrCancel' || orderType === 'fillOrKill';
+}
+
+/**
+ * Returns true if the order type never takes liquidity.
+ */
+export function isPostOnly(orderType: OrderTypeName): boolean {
+  return orderType === 'postOnly' || orderType === 'postOnlySlide';
+}
+
+/**
+ * Native lot values for a single order, as expected by `PlaceOrderArgs`.
+ */
+export interface OrderLots {
+  priceLots: BN;
+  maxBaseLots: BN;
+  maxQuoteLotsIncludingFees: BN;
+}
+
+/**
+ * Converts UI order parameters into native lots for the given market.
+ *
+ * Market orders ignore the price on-chain, so when no price is given the price lots are
+ * set to the widest possible value for the side. Bids that may take liquidity reserve
+ * the market's taker fee on top of `price * size`, so a fully matched bid is not cut short
+ * by its own fees. `maxQuote` (UI units, fees included) overrides the computed bid budget.
+ */
+export function computeOrderLots(
+  market: Market,
+  side: 'bid' | 'ask',
+  orderType: OrderTypeName,
+  size: number,
+  price?: number,
+  maxQuote?: number
+): OrderLots {
+  const maxBaseLots = market.baseUiToLots(size);
+  if (maxBaseLots.lten(0)) {
+    throw new Error(`Order size ${size} is below the market minimum of ${market.minOrderSize.toString()}.`);
+  }
+
+  let priceLots: BN;
+  if (price !== undefined) {
+    priceLots = market.priceUiToLots(price);
+    if (priceLots.lten(0)) {
+      throw new Error(`Order price ${price} is below the market tick size of ${market.tickSize.toString()}.`);
+    }
+  } else if (orderType === 'market') {
+    priceLots = side === 'bid' ? I64_MAX_BN : new BN(1);
+  } else {
+    throw new Error(`A price is required for ${orderType} orders.`);
+  }
+
+  let maxQuoteLotsIncludingFees: BN;
+  if (maxQuote !== undefined) {
+    maxQuoteLotsIncludingFees = market.quoteUiToLots(maxQuote);
+  } else if (price === undefined) {
+    if (side === 'bid') {
+      throw new Error('Market bids require either --price or --maxQuote to bound the quote spent.');
+    }
+    maxQuoteLotsIncludingFees = I64_MAX_BN;
+  } else if (side === 'bid' && !isPostOnly(orderType)) {
+    const takerFeeRate = Number(market.account.takerFee.toString()) / FEES_SCALE;
+    maxQuoteLotsIncludingFees = market.quoteUiToLots(price * size * (1 + takerFeeRate));
+  } else {
+    maxQuoteLotsIncludingFees = market.quoteUiToLots(price * size);
+  }
+
+  return { priceLots, maxBaseLots, maxQuoteLotsIncludingFees };
+}
+
+/**
+ * Summary of what an order did once it landed.
+ */
+export interface ExecutionSummary {
+  filledBase: number;
+  filledQuote: number;
+  averagePrice: number | null;
+  fillCount: number;
+  restingBase: number;
+}
+
+/**
+ * Summarizes the execution of a placed order.
+ *
+ * Fills are read from the market's event heap (matched by taker account and client order id);
+ * the resting size is the change in the account's locked base lots on the order's side.
+ * Fills that were already consumed by a crank before the heap was read are not counted.
+ */
+export async function summarizeExecution(
+  market: Market,
+  openOrdersPubkey: PublicKey,
+  clientOrderId: BN,
+  side: 'bid' | 'ask',
+  positionBefore: OpenOrdersAccount['position'],
+  positionAfter: OpenOrdersAccount['position']
+): Promise<ExecutionSummary> {
+  const eventHeap = await market.loadEventHeap();
+
+  let baseLots = new BN(0);
+  let quoteLots = new BN(0);
+  let fillCount = 0;
+  for (const event of parseEvents(eventHeap)) {
+    if (event.eventType !== EventType.Fill) continue;
+    const fill = event as FillEvent;
+    if (!fill.taker.equals(openOrdersPubkey) || !fill.takerClientOrderId.eq(clientOrderId)) continue;
+    baseLots = baseLots.add(fill.quantity);
+    quoteLots = quoteLots.add(fill.quantity.mul(fill.price));
+    fillCount++;
+  }
+
+  const restingLots =
+    side === 'bid'
+      ? positionAfter.bidsBaseLots.sub(positionBefore.bidsBaseLots)
+      : positionAfter.asksBaseLots.sub(positionBefore.asksBaseLots);
+
+  const filledBase = market.baseLotsToUi(baseLots);
+  const filledQuote = market.quoteLotsToUi(quoteLots);
+
+  return {
+    filledBase,
+    filledQuote,
+    averagePrice: fillCount > 0 ? filledQuote / filledBase : null,
+    fillCount,
+    restingBase: market.baseLotsToUi(BN.max(restingLots, new BN(0))),
+  };
+}
+
+/**
+ * Estimated fills of a taker order against the current book. Prices and sizes are UI units, filledQuote is
+ * the quote notional before fees. filledSizeWithinLimit is what the first `matchLimit` matched orders fill,
+ * i.e. what a single order placement would fill before it stops matching.
+ */
+export interface FillEstimate {
+  filledSize: number;
+  filledQuote: number;
+  averagePrice: number | null;
+  bestPrice: number | null;
+  worstPrice: number | null;
+  levelsConsumed: number;
+  ordersMatched: number;
+  filledSizeWithinLimit: number;
+  fullyFilled: boolean;
+}
+
+/**
+ * Walks the resting orders of the opposite side of the book, best first, and estimates how a taker order
+ * of the given base size or quote amount (before fees) would fill.
+ * Oracle-pegged orders are skipped, as their price depends on the oracle.
+ * @param orders Resting orders of the side the taker order matches against (see `getL3Orders`).
+ * @param amount Base size or quote amount of the taker order.
+ * @param matchLimit Maximum number of orders matched by one order placement.
+ */
+export function estimateTakerFill(
+  orders: L3Order[],
+  amount: { size: number } | { quoteAmount: number },
+  matchLimit: number
+): FillEstimate {
+  // Tolerance for floating point leftovers of the remaining amount
+  const EPSILON = 1e-12;
+
+  let remaining = 'size' in amount ? amount.size : amount.quoteAmount;
+  let filledSize = 0;
+  let filledQuote = 0;
+  let filledSizeWithinLimit = 0;
+  let ordersMatched = 0;
+  let bestPrice: number | null = null;
+  let worstPrice: number | null = null;
+  let levelsConsumed = 0;
+
+  for (const order of orders) {
+    if (order.pegged || order.price === null) continue;
+    if (remaining <= EPSILON) break;
+
+    const available = 'size' in amount ? order.size : order.size * order.price;
+    const taken = Math.min(remaining, available);
+    const size = 'size' in amount ? taken : taken / order.price;
+    remaining -= taken;
+
+    filledSize += size;
+    filledQuote += size * order.price;
+    ordersMatched++;
+    if (ordersMatched <= matchLimit) {
+      filledSizeWithinLimit += size;
+    }
+    if (order.price !== worstPrice) {
+      levelsConsumed++;
+    }
+    bestPrice ??= order.price;
+    worstPrice = order.price;
+  }
+
+  return {
+    filledSize,
+    filledQuote,
+    averagePrice: filledSize > 0 ? filledQuote / filledSize : null,
+    bestPrice,
+    worstPrice,
+    levelsConsumed,
+    ordersMatched,
+    filledSizeWithinLimit,
+    fullyFilled: remaining <= EPSILON,
+  };
+}
+
+/**
+ * Converts a signed price offset in UI units into price lots.
+ * Negative offsets price the order below the oracle, positive offsets above it.
+ */
+export function priceOffsetUiToLots(market: Market, offset: number): BN {
+  const offsetLots = market.priceUiToLots(Math.abs(offset));
+  return offset < 0 ? offsetLots.neg() : offsetLots;
+}
+
+/**
+ * Returns the market's OpenOrders admin, or null if the market has none.
+ */
+export function getOpenOrdersAdmin(market: Market): PublicKey | null {
+  return market.account.openOrdersAdmin.key.equals(PublicKey.default) ? null : market.account.openOrdersAdmin.key;
+}
+
+/**
+ * Returns true if the market has a primary oracle configured.
+ */
+export function hasOracle(market: Market): boolean {
+  return !market.account.oracleA.key.equals(PublicKey.default);
+}
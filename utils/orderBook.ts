@@ -0,0 +1,262 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { BN } from '@coral-xyz/anchor';
+import {
+  BookSide,
+  EventHeap,
+  Market,
+  SideUtils,
+  type InnerNode,
+  type LeafNode,
+  type OpenBookV2Client,
+} from '@openbook-dex/openbook-v2';
+import { DEFAULTS } from './config';
+import { getMultipleAccountsBatched } from './helper';
+import { subscribeWithFallback, type UpdateSource } from './stream';
+
+/**
+ * An aggregated price level: [price, size] in UI units.
+ */
+export type L2Level = [number, number];
+
+/**
+ * A change of the size resting at one price level. A new level has oldSize 0, a removed level has newSize 0.
+ */
+export interface L2Diff {
+  side: 'bid' | 'ask';
+  price: number;
+  oldSize: number;
+  newSize: number;
+}
+
+/**
+ * Returns the aggregated levels of one side of the loaded order book, best first.
+ * @param depth Maximum number of levels. Defaults to the whole side.
+ */
+export function getL2Levels(market: Market, side: 'bid' | 'ask', depth: number = Number.POSITIVE_INFINITY): L2Level[] {
+  const bookSide = side === 'bid' ? market.bids : market.asks;
+  return (bookSide?.getL2(depth) ?? []).map(([price, size]) => [price, size]);
+}
+
+/**
+ * An individual resting order, in price-time priority.
+ * Oracle-pegged orders have no fixed price: price is null and pegOffset is their offset from the oracle price.
+ * level is the 1-based price level of the order within its tree (fixed or pegged), queuePosition its 1-based
+ * place in the queue of that level and sizeAhead the size resting before it at the same level.
+ * placedAt is the placement time and timeInForce its lifetime in seconds (0 = until cancelled).
+ */
+export interface L3Order {
+  side: 'bid' | 'ask';
+  orderId: string;
+  price: number | null;
+  pegOffset: number | null;
+  size: number;
+  owner: string;
+  ownerSlot: number;
+  clientOrderId: string;
+  placedAt: string;
+  timeInForce: number;
+  pegged: boolean;
+  level: number;
+  queuePosition: number;
+  sizeAhead: number;
+}
+
+// Node tags of the order tree
+const INNER_NODE_TAG = 1;
+const LEAF_NODE_TAG = 2;
+// Pegged order keys store the price offset shifted by 2^63 so that it is unsigned
+const PEG_OFFSET_BIAS = new BN(1).ushln(63);
+
+/**
+ * Walks an order tree best first and yields its leaves.
+ * `BookSide.items()` cannot be used here: it constructs `Order` objects, which throw for oracle-pegged orders.
+ */
+function* walkOrderTree(bookSide: BookSide, side: 'bid' | 'ask', pegged: boolean): Generator<LeafNode> {
+  const root = pegged ? bookSide.rootOraclePegged : bookSide.rootFixed;
+  if (root.leafCount === 0) {
+    return;
+  }
+
+  const coder = bookSide.market.client.program.coder.types;
+  const [left, right] = side === 'bid' ? [1, 0] : [0, 1];
+  const stack = [root.maybeNode];
+  while (stack.length > 0) {
+    // Nodes decoded with decodeAccountfromBuffer carry their raw bytes, nodes decoded by Anchor do not
+    const node = bookSide.account.nodes.nodes[stack.pop() as number] as { tag: number; data?: number[]; nodeData?: Buffer };
+    const buffer = node.nodeData ?? Buffer.from([node.tag, ...(node.data ?? [])]);
+    if (node.tag === INNER_NODE_TAG) {
+      const inner: InnerNode = coder.decode('InnerNode', buffer);
+      stack.push(inner.children[right], inner.children[left]);
+    } else if (node.tag === LEAF_NODE_TAG) {
+      yield coder.decode('LeafNode', buffer);
+    }
+  }
+}
+
+/**
+ * Returns the individual orders of one side of the loaded order book: fixed-price orders best first,
+ * followed by oracle-pegged orders ordered by their offset.
+ * @param depth Maximum number of price levels of each tree. Defaults to the whole side.
+ */
+export function getL3Orders(market: Market, side: 'bid' | 'ask', depth: number = Number.POSITIVE_INFINITY): L3Order[] {
+  const bookSide = side === 'bid' ? market.bids : market.asks;
+  if (!bookSide) {
+    return [];
+  }
+
+  const orders: L3Order[] = [];
+  for (const pegged of [false, true]) {
+    let level = 0;
+    let levelKey: BN | null = null;
+    let queuePosition = 0;
+    let sizeAhead = 0;
+
+    for (const leaf of walkOrderTree(bookSide, side, pegged)) {
+      const priceData = leaf.key.ushrn(64);
+      if (levelKey === null || !priceData.eq(levelKey)) {
+        if (level === depth) break;
+        level++;
+        levelKey = priceData;
+        queuePosition = 0;
+        sizeAhead = 0;
+      }
+      queuePosition++;
+
+      const size = market.baseLotsToUi(leaf.quantity);
+      orders.push({
+        side,
+        orderId: leaf.key.toString(),
+        price: pegged ? null : market.priceLotsToUi(priceData),
+        pegOffset: pegged ? market.priceLotsToUi(priceData.sub(PEG_OFFSET_BIAS)) : null,
+        size,
+        owner: leaf.owner.toBase58(),
+        ownerSlot: leaf.ownerSlot,
+        clientOrderId: leaf.clientOrderId.toString(),
+        placedAt: new Date(leaf.timestamp.toNumber() * 1000).toISOString(),
+        timeInForce: leaf.timeInForce,
+        pegged,
+        level,
+        queuePosition,
+        sizeAhead,
+      });
+      sizeAhead += size;
+    }
+  }
+  return orders;
+}
+
+/**
+ * Compares two snapshots of one side of the book and returns the levels whose size changed.
+ */
+export function diffL2(side: 'bid' | 'ask', previous: L2Level[], next: L2Level[]): L2Diff[] {
+  const previousSizes = new Map(previous);
+  const nextSizes = new Map(next);
+  const diffs: L2Diff[] = [];
+
+  for (const [price, newSize] of next) {
+    const oldSize = previousSizes.get(price) ?? 0;
+    if (oldSize !== newSize) {
+      diffs.push({ side, price, oldSize, newSize });
+    }
+  }
+  for (const [price, oldSize] of previous) {
+    if (!nextSizes.has(price)) {
+      diffs.push({ side, price, oldSize, newSize: 0 });
+    }
+  }
+  return diffs;
+}
+
+/**
+ * Loads several markets with batched account fetches instead of one request per market.
+ * @param client OpenBook client.
+ * @param pubkeys Market public keys.
+ * @returns The markets, in the order of `pubkeys`.
+ */
+export async function loadMarkets(client: OpenBookV2Client, pubkeys: PublicKey[]): Promise<Market[]> {
+  const accounts = await getMultipleAccountsBatched(client.connection, pubkeys);
+  return accounts.map((account, index) => {
+    if (!account) {
+      throw new Error(`Market not found: ${pubkeys[index].toBase58()}`);
+    }
+    return new Market(client, pubkeys[index], client.decodeMarket(account.data));
+  });
+}
+
+/**
+ * Loads (or reloads) the order books of several markets with batched account fetches.
+ * @param connection Solana connection object.
+ * @param markets Markets whose `bids` and `asks` are replaced.
+ * @param withEventHeaps Whether to load the event heaps as well.
+ */
+export async function loadOrderBooks(connection: Connection, markets: Market[], withEventHeaps = false): Promise<void> {
+  const pubkeys = markets.flatMap((market) => [
+    market.account.bids,
+    market.account.asks,
+    ...(withEventHeaps ? [market.account.eventHeap] : []),
+  ]);
+  const accounts = await getMultipleAccountsBatched(connection, pubkeys);
+
+  const stride = withEventHeaps ? 3 : 2;
+  markets.forEach((market, index) => {
+    const [bids, asks, eventHeap] = accounts.slice(index * stride, (index + 1) * stride);
+    if (!bids || !asks || (withEventHeaps && !eventHeap)) {
+      throw new Error(`Order book accounts of market ${market.pubkey.toBase58()} not found.`);
+    }
+    market.bids = new BookSide(market, market.account.bids, BookSide.decodeAccountfromBuffer(bids.data), SideUtils.Bid);
+    market.asks = new BookSide(market, market.account.asks, BookSide.decodeAccountfromBuffer(asks.data), SideUtils.Ask);
+    if (eventHeap) {
+      market.eventHeap = new EventHeap(
+        market.account.eventHeap,
+        market.client.program.coder.accounts.decode('eventHeap', eventHeap.data),
+        market
+      );
+    }
+  });
+}
+
+/**
+ * Keeps the loaded order book of a market up to date and calls `onUpdate` after every change.
+ * The bids and asks accounts are streamed with websocket subscriptions and decoded as they arrive,
+ * with a polling fallback while the websocket is down.
+ * The order book must be loaded before calling this function.
+ * @param connection Solana connection object, with a websocket endpoint.
+ * @param market Market whose `bids` and `asks` are updated in place.
+ * @param onUpdate Called after each update of either side, with the slot of the data.
+ * @param pollIntervalMs Polling interval while the websocket is down.
+ * @returns A function that stops all subscriptions and timers.
+ */
+export function watchOrderBook(
+  connection: Connection,
+  market: Market,
+  onUpdate: (source: UpdateSource, slot: number) => void,
+  pollIntervalMs: number = DEFAULTS.REFRESH_INTERVAL_MS
+): () => Promise<void> {
+  if (!market.bids || !market.asks) {
+    throw new Error('Order book must be loaded before it can be watched.');
+  }
+
+  // Polling replaces market.bids and market.asks, so updates are applied to whichever side object is current
+  return subscribeWithFallback(
+    connection,
+    [
+      {
+        pubkey: market.account.bids,
+        onData: (data) => {
+          (market.bids as BookSide).account = BookSide.decodeAccountfromBuffer(data);
+        },
+      },
+      {
+        pubkey: market.account.asks,
+        onData: (data) => {
+          (market.asks as BookSide).account = BookSide.decodeAccountfromBuffer(data);
+        },
+      },
+    ],
+    async () => {
+      await market.loadOrderBook();
+    },
+    onUpdate,
+    pollIntervalMs
+  );
+}
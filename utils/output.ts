@@ -0,0 +1,95 @@
+import { BN } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { routeLogsToStderr } from './logger';
+
+export const OUTPUT_FORMATS = ['table', 'json', 'csv'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+
+let outputFormat: OutputFormat = 'table';
+let csvHeader: string | null = null;
+
+/**
+ * Selects the output format of this run. In json and csv mode, all logging moves to stderr
+ * so that stdout carries only the command results.
+ */
+export function setOutputFormat(format: OutputFormat): void {
+  outputFormat = format;
+  if (format !== 'table') {
+    routeLogsToStderr();
+  }
+}
+
+/**
+ * Returns whether commands print their human-readable output (tables, live views) on stdout.
+ */
+export function isTableOutput(): boolean {
+  return outputFormat === 'table';
+}
+
+/**
+ * Converts values that JSON cannot represent faithfully: BN and bigint become decimal strings,
+ * public keys become base58 strings.
+ */
+function toPlainValue(value: unknown): unknown {
+  if (BN.isBN(value)) {
+    return (value as BN).toString();
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof PublicKey) {
+    return value.toBase58();
+  }
+  return value;
+}
+
+/**
+ * Escapes a single CSV field.
+ */
+function toCsvField(value: unknown): string {
+  const plain = toPlainValue(value);
+  if (plain === null || plain === undefined) {
+    return '';
+  }
+  const text = String(plain);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Prints a command result on stdout in json or csv mode. Does nothing in table mode, where commands
+ * report through their logs and tables.
+ * JSON results are written as one object per line, so streaming commands produce JSON Lines.
+ * CSV rows are preceded by a header row, printed again only when the columns change.
+ * @param result Structured result of the command, following its documented schema.
+ * @param rows Flat CSV rows with the same keys. Defaults to the result itself, which must then be flat.
+ */
+export function emitResult(result: object, rows?: object[]): void {
+  if (outputFormat === 'json') {
+    process.stdout.write(
+      JSON.stringify(result, function (key, value) {
+        // Convert from the raw value, since BN.toJSON() would already have turned it into hex
+        const raw = this[key];
+        const plain = toPlainValue(raw);
+        return plain !== raw ? plain : value;
+      }) + '\n'
+    );
+    return;
+  }
+
+  if (outputFormat === 'csv') {
+    const csvRows = (rows ?? [result]) as Record<string, unknown>[];
+    if (csvRows.length === 0) {
+      return;
+    }
+    const columns = Object.keys(csvRows[0]);
+    const header = columns.join(',');
+    if (header !== csvHeader) {
+      process.stdout.write(header + '\n');
+      csvHeader = header;
+    }
+    for (const row of csvRows) {
+      process.stdout.write(columns.map((column) => toCsvField(row[column])).join(',') + '\n');
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { Market, type OpenBookV2Client, type OpenOrdersAccount } from '@openbook-dex/openbook-v2';
+import logger from './logger';
+import { getAssociatedTokenAccountIx, getMultipleAccountsBatched } from './helper';
+import { loadMarkets, loadOrderBooks } from './orderBook';
+
+/**
+ * An OpenOrders account of a wallet together with its market. lamports is the account's rent.
+ */
+export interface WalletOpenOrders {
+  pubkey: PublicKey;
+  account: OpenOrdersAccount;
+  market: Market;
+  lamports: number;
+}
+
+/**
+ * Loads every OpenOrders account of a wallet (from its OpenOrdersIndexer) and their markets with batched
+ * account fetches. Markets shared by several accounts are loaded once and share the same Market object.
+ * @param client OpenBook client.
+ * @param owner Wallet that owns the accounts.
+ * @param withOrderBooks Whether to load the order books of the markets as well.
+ * @returns The accounts in indexer order. Accounts listed by the indexer that no longer exist are skipped.
+ */
+export async function loadWalletOpenOrders(
+  client: OpenBookV2Client,
+  owner: PublicKey,
+  withOrderBooks = false
+): Promise<WalletOpenOrders[]> {
+  const pubkeys = await client.findAllOpenOrders(owner);
+  const infos = await getMultipleAccountsBatched(client.connection, pubkeys);
+
+  const accounts: { pubkey: PublicKey; account: OpenOrdersAccount; lamports: number }[] = [];
+  infos.forEach((info, index) => {
+    if (!info) {
+      logger.warn(`OpenOrders account ${pubkeys[index].toBase58()} not found, skipping.`);
+      return;
+    }
+    accounts.push({
+      pubkey: pubkeys[index],
+      account: client.program.coder.accounts.decode('openOrdersAccount', info.data),
+      lamports: info.lamports,
+    });
+  });
+
+  const marketKeys = [...new Set(accounts.map(({ account }) => account.market.toBase58()))];
+  const markets = await loadMarkets(client, marketKeys.map((key) => new PublicKey(key)));
+  if (withOrderBooks && markets.length > 0) {
+    await loadOrderBooks(client.connection, markets);
+  }
+
+  const marketsByKey = new Map(markets.map((market) => [market.pubkey.toBase58(), market]));
+  return accounts.map((entry) => ({ ...entry, market: marketsByKey.get(entry.account.market.toBase58())! }));
+}
+
+/**
+ * Returns the amounts that settling an OpenOrders account releases, in UI units.
+ * The quote amount includes the referrer rebates, which go to the owner when settling without a referrer.
+ */
+export function getSettleableAmounts({ account, market }: WalletOpenOrders): { base: number; quote: number } {
+  const { position } = account;
+  return {
+    base: market.baseNativeToUi(position.baseFreeNative),
+    quote: market.quoteNativeToUi(position.quoteFreeNative.add(position.referrerRebatesAvailable)),
+  };
+}
+
+/**
+ * Returns whether an OpenOrders account has no orders, no locked or free funds and no pending penalties,
+ * i.e. whether it can be closed.
+ */
+export function isOpenOrdersEmpty(account: OpenOrdersAccount): boolean {
+  const { position } = account;
+  return (
+    account.openOrders.every((slot) => slot.isFree) &&
+    [
+      position.bidsBaseLots,
+      position.asksBaseLots,
+      position.bidsQuoteLots,
+      position.baseFreeNative,
+      position.quoteFreeNative,
+      position.lockedMakerFees,
+      position.referrerRebatesAvailable,
+      position.penaltyHeapCount,
+    ].every((value) => value.isZero())
+  );
+}
+
+/**
+ * Builds the instructions that settle the free balances of OpenOrders accounts to the owner's associated
+ * token accounts. No referrer is passed, so referrer rebates go to the owner, who also pays any penalty.
+ * @param client OpenBook client.
+ * @param owner Owner of the accounts, who receives the funds and pays for missing token accounts.
+ * @param entries Accounts to settle.
+ * @returns Creation instructions for the missing token accounts, and one settle instruction per entry in order.
+ */
+export async function buildSettleInstructions(
+  client: OpenBookV2Client,
+  owner: PublicKey,
+  entries: WalletOpenOrders[]
+): Promise<{ createAtaIxs: TransactionInstruction[]; settleIxs: TransactionInstruction[] }> {
+  // Token accounts of every mint involved
+  const tokenAccounts = new Map<string, PublicKey>();
+  const createAtaIxs: TransactionInstruction[] = [];
+  for (const { market } of entries) {
+    for (const mint of [market.account.baseMint, market.account.quoteMint]) {
+      if (tokenAccounts.has(mint.toBase58())) continue;
+      const [ata, createAtaIx] = await getAssociatedTokenAccountIx(client.connection, owner, mint, owner);
+      tokenAccounts.set(mint.toBase58(), ata);
+      if (createAtaIx) {
+        logger.info(`Creating associated token account for mint: ${mint.toBase58()}`);
+        createAtaIxs.push(createAtaIx);
+      }
+    }
+  }
+
+  const settleIxs: TransactionInstruction[] = [];
+  for (const { pubkey, account, market } of entries) {
+    const [settleIx] = await client.settleFundsIx(
+      pubkey,
+      account,
+      market.pubkey,
+      market.account,
+      tokenAccounts.get(market.account.baseMint.toBase58())!,
+      tokenAccounts.get(market.account.quoteMint.toBase58())!,
+      null,
+      owner
+    );
+    settleIxs.push(settleIx);
+  }
+  return { createAtaIxs, settleIxs };
+}
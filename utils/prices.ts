@@ -0,0 +1,72 @@
+import fs from 'fs';
+import logger from './logger';
+
+// Price source that queries Jupiter's Price API
+export const JUPITER_PRICE_SOURCE = 'jupiter';
+
+/**
+ * Batch fetches USD prices from Jupiter's Price API with rate limiting.
+ * Processes tokens in batches of 50 and waits 2 seconds between batches.
+ * @returns Prices by mint. Mints without a price are 0.
+ */
+export async function fetchJupiterPrices(mintIds: string[]): Promise<{ [id: string]: number }> {
+  const result: { [id: string]: number } = {};
+  const chunkSize = 50;
+  for (let i = 0; i < mintIds.length; i += chunkSize) {
+    const chunk = mintIds.slice(i, i + chunkSize);
+    const url = `https://api.jup.ag/price/v2?ids=${chunk.join(',')}`;
+    try {
+      const response = await fetch(url);
+      const data = await response.json();
+      if (data && data.data) {
+        for (const id in data.data) {
+          result[id] = data.data[id] && data.data[id].price
+            ? parseFloat(data.data[id].price)
+            : 0;
+        }
+      }
+    } catch (err) {
+      logger.error(`Error fetching price for tokens: ${(err as Error).message}`);
+    }
+    // Wait 2 seconds before the next batch.
+    if (i + chunkSize < mintIds.length) {
+      await new Promise(res => setTimeout(res, 2000));
+    }
+  }
+  return result;
+}
+
+/**
+ * Reads USD prices from a JSON file mapping mint addresses to prices, e.g. `{ "<MINT>": 1.0 }`.
+ */
+export function readPriceFile(filePath: string): { [id: string]: number } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read price file: ${filePath}. Error: ${(error as Error).message}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Price file ${filePath} must map mint addresses to prices.`);
+  }
+
+  const prices: { [id: string]: number } = {};
+  for (const [mint, price] of Object.entries(parsed)) {
+    if (typeof price !== 'number' || !(price >= 0)) {
+      throw new Error(`Price of ${mint} in ${filePath} must be a non-negative number.`);
+    }
+    prices[mint] = price;
+  }
+  return prices;
+}
+
+/**
+ * Loads USD prices of the given mints from a price source: `jupiter`, or the path of a price file.
+ * @returns Prices by mint. Mints without a known price are missing or 0.
+ */
+export async function loadPrices(source: string, mintIds: string[]): Promise<{ [id: string]: number }> {
+  if (source === JUPITER_PRICE_SOURCE) {
+    return fetchJupiterPrices(mintIds);
+  }
+  return readPriceFile(source);
+}
@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import logger from './logger';
+import type { L2Diff, L2Level } from './orderBook';
+import type { TapeEvent } from './trades';
+
+/**
+ * Entries of a market data recording. Each line of a recording file is one entry.
+ * `timestamp` is the local time of the update (ISO 8601) and `slot` the slot of the data it was read at.
+ * - market: static market information, written at the start of every file.
+ * - snapshot: the full aggregated book, written at the start of every file and periodically after.
+ * - diff: the price levels that changed since the previous snapshot or diff of the same market.
+ * - event: a fill or out event from the event heap.
+ */
+export type RecordingEntry =
+  | {
+      type: 'market';
+      timestamp: string;
+      slot: number;
+      market: string;
+      name: string;
+      baseMint: string;
+      quoteMint: string;
+    }
+  | { type: 'snapshot'; timestamp: string; slot: number; market: string; bids: L2Level[]; asks: L2Level[] }
+  | { type: 'diff'; timestamp: string; slot: number; market: string; changes: L2Diff[] }
+  | { type: 'event'; timestamp: string; slot: number | null; market: string; event: TapeEvent };
+
+/**
+ * Options of a rotating recording.
+ */
+export interface RecordingOptions {
+  outDir: string;
+  prefix: string;
+  maxFileBytes: number;
+  rotateMs: number;
+}
+
+/**
+ * Writes recording entries to NDJSON files, starting a new file when the current one exceeds its size
+ * or age limit. Every file starts with the entries returned by `fileHeader`, so it can be read on its own.
+ */
+export class RecordingWriter {
+  private filePath: string | null = null;
+  private fileBytes = 0;
+  private fileOpenedAt = 0;
+  private readonly files: string[] = [];
+  private entries = 0;
+
+  /**
+   * @param options Output directory, file name prefix and rotation limits.
+   * @param fileHeader Returns the entries that make a new file self-contained (market info and snapshots),
+   * stamped with the given time so that a file's entries stay in chronological order.
+   */
+  constructor(
+    private readonly options: RecordingOptions,
+    private readonly fileHeader: (timestamp: string) => RecordingEntry[]
+  ) {
+    fs.mkdirSync(options.outDir, { recursive: true });
+  }
+
+  /**
+   * Appends an entry, rotating to a new file first if needed.
+   */
+  write(entry: RecordingEntry): void {
+    if (
+      this.filePath === null ||
+      this.fileBytes >= this.options.maxFileBytes ||
+      Date.now() - this.fileOpenedAt >= this.options.rotateMs
+    ) {
+      this.rotate(entry.timestamp);
+    }
+    this.append(entry);
+  }
+
+  /**
+   * Returns the files written so far and the number of entries.
+   */
+  getSummary(): { files: string[]; entries: number } {
+    return { files: [...this.files], entries: this.entries };
+  }
+
+  private rotate(timestamp: string): void {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    this.filePath = path.join(this.options.outDir, `${this.options.prefix}-${stamp}.ndjson`);
+    this.fileBytes = 0;
+    this.fileOpenedAt = Date.now();
+    this.files.push(this.filePath);
+    logger.info(`Recording to ${this.filePath}`);
+
+    for (const entry of this.fileHeader(timestamp)) {
+      this.append(entry);
+    }
+  }
+
+  private append(entry: RecordingEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+    fs.appendFileSync(this.filePath!, line);
+    this.fileBytes += Buffer.byteLength(line);
+    this.entries++;
+  }
+}
+
+/**
+ * Reads the entries of a recording file one by one, without loading the whole file.
+ * Lines that are not valid JSON (e.g. a partially written last line) are skipped with a warning.
+ */
+export async function* readRecording(filePath: string): AsyncGenerator<RecordingEntry> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Recording not found: ${filePath}`);
+  }
+
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line) as RecordingEntry;
+    } catch {
+      logger.warn(`Skipping invalid line ${lineNumber} of ${filePath}`);
+    }
+  }
+}
+
+/**
+ * Applies the changes of a diff entry to one side of a book, keeping it sorted best first.
+ */
+export function applyL2Changes(levels: L2Level[], changes: L2Diff[], side: 'bid' | 'ask'): L2Level[] {
+  const sizes = new Map(levels);
+  for (const change of changes) {
+    if (change.side !== side) continue;
+    if (change.newSize === 0) {
+      sizes.delete(change.price);
+    } else {
+      sizes.set(change.price, change.newSize);
+    }
+  }
+  return [...sizes.entries()].sort(([a], [b]) => (side === 'bid' ? b - a : a - b));
+}
@@ -0,0 +1,218 @@
+import fs from 'fs';
+import { Market, type OpenOrdersAccount } from '@openbook-dex/openbook-v2';
+import logger from './logger';
+import { DEFAULTS } from './config';
+import { getL3Orders } from './orderBook';
+import { estimateTakerFill } from './order';
+
+// Risk config file, looked up in the working directory unless OPENBOOK_RISK_CONFIG points elsewhere
+export const RISK_CONFIG_FILE = process.env.OPENBOOK_RISK_CONFIG || 'openbook.risk.json';
+
+/**
+ * Limits applied to new orders. Notionals are in quote UI units, sizes in base UI units.
+ */
+export interface RiskRules {
+  maxOrderNotional?: number;
+  maxOrderSize?: number;
+  maxPriceDeviationBps?: number;
+  maxOpenNotional?: number;
+}
+
+/**
+ * The risk config file. Rules of a market override the global rules field by field.
+ */
+interface RiskConfig {
+  allowedMarkets?: string[];
+  global?: RiskRules;
+  markets?: Record<string, RiskRules>;
+}
+
+/**
+ * An order checked against the risk rules. Price is in UI units and omitted for market orders;
+ * maxQuote bounds the quote a market bid may spend. Pegged orders pass their peg limit as price.
+ */
+export interface RiskOrder {
+  side: 'bid' | 'ask';
+  size: number;
+  price?: number;
+  maxQuote?: number;
+  pegged?: boolean;
+}
+
+/**
+ * Adjustments of the account's open notional for orders cancelled in the same transaction.
+ */
+export interface RiskCheckOptions {
+  replacesAllOrders?: boolean;
+  replacedNotional?: number;
+}
+
+const RULE_FIELDS: (keyof RiskRules)[] = ['maxOrderNotional', 'maxOrderSize', 'maxPriceDeviationBps', 'maxOpenNotional'];
+
+/**
+ * Reads the risk config file. Returns null if there is none, in which case no rules apply.
+ */
+export function loadRiskConfig(): RiskConfig | null {
+  if (!fs.existsSync(RISK_CONFIG_FILE)) {
+    return null;
+  }
+
+  let config: RiskConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(RISK_CONFIG_FILE, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read risk config: ${RISK_CONFIG_FILE}. Error: ${(error as Error).message}`);
+  }
+
+  // Reject typos instead of silently running without a limit
+  const ruleSets = [config.global ?? {}, ...Object.values(config.markets ?? {})];
+  for (const rules of ruleSets) {
+    for (const [field, value] of Object.entries(rules)) {
+      if (!RULE_FIELDS.includes(field as keyof RiskRules)) {
+        throw new Error(`Unknown risk rule "${field}" in ${RISK_CONFIG_FILE}. Supported rules: ${RULE_FIELDS.join(', ')}`);
+      }
+      if (typeof value !== 'number' || !(value >= 0)) {
+        throw new Error(`Risk rule "${field}" in ${RISK_CONFIG_FILE} must be a non-negative number.`);
+      }
+    }
+  }
+  return config;
+}
+
+/**
+ * Returns the rules that apply to a market: the global rules overridden by the market's own.
+ */
+function rulesForMarket(config: RiskConfig, market: string): RiskRules {
+  return { ...config.global, ...config.markets?.[market] };
+}
+
+/**
+ * Checks new orders of an OpenOrders account against the risk rules of their market.
+ * The reference price for deviations is the mid price, or the best price if only one side has orders.
+ * Orders without a price are valued at their estimated fill against the current book.
+ * Pegged orders are only checked for size and notional (at their peg limit), as their price follows the oracle.
+ * @returns A message for every breached rule. Empty if all orders pass.
+ */
+export async function checkOrderRisk(
+  config: RiskConfig,
+  market: Market,
+  openOrdersAccount: OpenOrdersAccount,
+  orders: RiskOrder[],
+  options: RiskCheckOptions = {}
+): Promise<string[]> {
+  const marketKey = market.pubkey.toBase58();
+  const breaches: string[] = [];
+
+  if (config.allowedMarkets && !config.allowedMarkets.includes(marketKey)) {
+    breaches.push(`Market ${marketKey} is not in the allowed markets.`);
+  }
+
+  const rules = rulesForMarket(config, marketKey);
+  if (Object.keys(rules).length === 0) {
+    return breaches;
+  }
+
+  await market.loadOrderBook();
+  const bids = getL3Orders(market, 'bid');
+  const asks = getL3Orders(market, 'ask');
+  const bestBid = bids.find((order) => !order.pegged)?.price ?? null;
+  const bestAsk = asks.find((order) => !order.pegged)?.price ?? null;
+  const reference = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : bestBid ?? bestAsk;
+
+  let newNotional = 0;
+  for (const order of orders) {
+    const label = `${order.side.toUpperCase()} ${order.size}${order.price !== undefined ? ` @ ${order.price}` : ''}`;
+
+    // Orders without a price execute against the opposite side of the book
+    let notional: number;
+    let price: number | null;
+    if (order.price !== undefined) {
+      notional = order.price * order.size;
+      price = order.price;
+    } else {
+      const estimate = estimateTakerFill(order.side === 'bid' ? asks : bids, { size: order.size }, DEFAULTS.ORDER_LIMIT);
+      notional = order.maxQuote !== undefined ? Math.min(order.maxQuote, estimate.filledQuote) : estimate.filledQuote;
+      price = estimate.worstPrice;
+    }
+    newNotional += notional;
+
+    if (rules.maxOrderSize !== undefined && order.size > rules.maxOrderSize) {
+      breaches.push(`${label}: size ${order.size} exceeds the maximum order size of ${rules.maxOrderSize}.`);
+    }
+    if (rules.maxOrderNotional !== undefined && notional > rules.maxOrderNotional) {
+      breaches.push(
+        `${label}: notional ${notional.toFixed(4)} exceeds the maximum order notional of ${rules.maxOrderNotional}.`
+      );
+    }
+    if (rules.maxPriceDeviationBps !== undefined && !order.pegged && price !== null && reference !== null) {
+      const deviationBps = (Math.abs(price - reference) / reference) * 10_000;
+      if (deviationBps > rules.maxPriceDeviationBps) {
+        breaches.push(
+          `${label}: price ${price} deviates ${deviationBps.toFixed(2)} bps from the reference price ` +
+            `${reference.toFixed(4)}, more than the maximum of ${rules.maxPriceDeviationBps} bps.`
+        );
+      }
+    }
+  }
+
+  if (rules.maxOpenNotional !== undefined) {
+    // Resting bids lock their quote; resting asks are valued at the reference price
+    const { bidsQuoteLots, asksBaseLots } = openOrdersAccount.position;
+    const openNotional = options.replacesAllOrders
+      ? 0
+      : Math.max(
+          market.quoteLotsToUi(bidsQuoteLots) +
+            market.baseLotsToUi(asksBaseLots) * (reference ?? 0) -
+            (options.replacedNotional ?? 0),
+          0
+        );
+    const totalNotional = openNotional + newNotional;
+    if (totalNotional > rules.maxOpenNotional) {
+      breaches.push(
+        `Open notional of the OpenOrders account would be ${totalNotional.toFixed(4)} ` +
+          `(${openNotional.toFixed(4)} resting + ${newNotional.toFixed(4)} new), ` +
+          `more than the maximum of ${rules.maxOpenNotional}.`
+      );
+    }
+  }
+
+  return breaches;
+}
+
+/**
+ * Checks new orders against the risk config before they are signed. Does nothing without a config file.
+ * A breach rejects the orders with an error listing every breached rule, unless `force` is set,
+ * in which case the breaches are only logged as warnings.
+ */
+export async function enforceRiskRules(
+  market: Market,
+  openOrdersAccount: OpenOrdersAccount,
+  orders: RiskOrder[],
+  force: boolean = false,
+  options: RiskCheckOptions = {}
+): Promise<void> {
+  const config = loadRiskConfig();
+  if (!config) {
+    return;
+  }
+
+  logger.info(`Checking order(s) against the risk rules in ${RISK_CONFIG_FILE}...`);
+  const breaches = await checkOrderRisk(config, market, openOrdersAccount, orders, options);
+  if (breaches.length === 0) {
+    return;
+  }
+
+  if (force) {
+    for (const breach of breaches) {
+      logger.warn(`Risk rule breached: ${breach}`);
+    }
+    logger.warn(`Proceeding despite ${breaches.length} risk rule breach(es) because --force was given.`);
+    return;
+  }
+
+  throw new Error(
+    `Order rejected by risk rules (${RISK_CONFIG_FILE}):\n` +
+      breaches.map((breach) => `  - ${breach}`).join('\n') +
+      '\nReview the order, or add --force to place it anyway.'
+  );
+}
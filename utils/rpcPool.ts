@@ -0,0 +1,157 @@
+import logger from './logger';
+
+// Cooldown applied to an endpoint after a failure, doubled for every consecutive failure
+const BASE_COOLDOWN_MS = 1000;
+const MAX_COOLDOWN_MS = 60_000;
+// Weight of the newest sample in the moving average latency
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Health statistics of a single RPC endpoint.
+ */
+export interface EndpointStats {
+  url: string;
+  requests: number;
+  errors: number;
+  consecutiveErrors: number;
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  cooldownUntil: number;
+}
+
+/**
+ * Returns whether an HTTP status should make the pool try another endpoint.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Pool of RPC endpoints behind a single `fetch` function for `Connection`.
+ * Requests go to the healthiest endpoint (fewest consecutive errors, then lowest latency).
+ * On a network error, 429 or 5xx response, the endpoint is put on cooldown and the request
+ * fails over to the next endpoint. Each endpoint is limited to a requests-per-second budget.
+ */
+export class RpcPool {
+  private readonly stats: EndpointStats[];
+  private readonly nextSlot = new Map<string, number>();
+  private readonly minIntervalMs: number;
+
+  /**
+   * @param urls RPC endpoints of the pool.
+   * @param requestsPerSecond Request budget per endpoint. 0 disables rate limiting.
+   */
+  constructor(urls: string[], requestsPerSecond: number = 0) {
+    if (urls.length === 0) {
+      throw new Error('RPC pool needs at least one endpoint.');
+    }
+    this.stats = [...new Set(urls)].map((url) => ({
+      url,
+      requests: 0,
+      errors: 0,
+      consecutiveErrors: 0,
+      avgLatencyMs: null,
+      lastError: null,
+      cooldownUntil: 0,
+    }));
+    this.minIntervalMs = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+  }
+
+  /**
+   * Returns a snapshot of the statistics of every endpoint.
+   */
+  getStats(): EndpointStats[] {
+    return this.stats.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * `fetch` implementation to pass to `new Connection(url, { fetch })`. The URL chosen by
+   * `Connection` is ignored in favor of the pool's endpoints.
+   */
+  readonly fetch: typeof globalThis.fetch = async (_input, init) => {
+    let lastResponse: Response | null = null;
+    let lastError: unknown = null;
+
+    for (const endpoint of this.rankEndpoints()) {
+      await this.acquireSlot(endpoint.url);
+      const start = Date.now();
+      endpoint.requests++;
+      try {
+        const response = await globalThis.fetch(endpoint.url, init);
+        if (!isRetryableStatus(response.status)) {
+          this.recordSuccess(endpoint, Date.now() - start);
+          return response;
+        }
+        this.recordFailure(endpoint, `HTTP ${response.status}`, response.headers.get('retry-after'));
+        lastResponse = response;
+      } catch (error) {
+        this.recordFailure(endpoint, error instanceof Error ? error.message : String(error), null);
+        lastError = error;
+      }
+    }
+
+    // Every endpoint failed: hand the last response to Connection so its own retry logic applies
+    if (lastResponse) {
+      return lastResponse;
+    }
+    throw lastError;
+  };
+
+  /**
+   * Orders endpoints by health. Endpoints on cooldown go last but are still tried as a last resort.
+   */
+  private rankEndpoints(): EndpointStats[] {
+    const now = Date.now();
+    return [...this.stats].sort((a, b) => {
+      const aCooling = a.cooldownUntil > now ? 1 : 0;
+      const bCooling = b.cooldownUntil > now ? 1 : 0;
+      if (aCooling !== bCooling) {
+        return aCooling - bCooling;
+      }
+      if (a.consecutiveErrors !== b.consecutiveErrors) {
+        return a.consecutiveErrors - b.consecutiveErrors;
+      }
+      return (a.avgLatencyMs ?? 0) - (b.avgLatencyMs ?? 0);
+    });
+  }
+
+  /**
+   * Waits until the endpoint's request budget allows another request.
+   */
+  private async acquireSlot(url: string): Promise<void> {
+    if (this.minIntervalMs === 0) {
+      return;
+    }
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(url) ?? 0);
+    this.nextSlot.set(url, slot + this.minIntervalMs);
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+
+  private recordSuccess(endpoint: EndpointStats, latencyMs: number): void {
+    endpoint.consecutiveErrors = 0;
+    endpoint.cooldownUntil = 0;
+    endpoint.avgLatencyMs =
+      endpoint.avgLatencyMs === null
+        ? latencyMs
+        : endpoint.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+  }
+
+  private recordFailure(endpoint: EndpointStats, reason: string, retryAfter: string | null): void {
+    endpoint.errors++;
+    endpoint.consecutiveErrors++;
+    endpoint.lastError = reason;
+
+    // Honor Retry-After (in seconds) when the endpoint sends one
+    const retryAfterMs = retryAfter && !isNaN(Number(retryAfter)) ? Number(retryAfter) * 1000 : null;
+    const cooldownMs =
+      retryAfterMs ?? Math.min(BASE_COOLDOWN_MS * 2 ** (endpoint.consecutiveErrors - 1), MAX_COOLDOWN_MS);
+    endpoint.cooldownUntil = Date.now() + cooldownMs;
+
+    if (this.stats.length > 1) {
+      logger.warn(`RPC endpoint ${endpoint.url} failed (${reason}). Failing over for ${cooldownMs} ms.`);
+    }
+  }
+}
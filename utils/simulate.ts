@@ -0,0 +1,139 @@
+import {
+  Connection,
+  ComputeBudgetProgram,
+  MessageV0,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { BorshInstructionCoder } from '@coral-xyz/anchor';
+import { TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { OpenBookV2Client } from '@openbook-dex/openbook-v2';
+import logger from './logger';
+import { createComputeBudgetIx } from './rpc';
+import { getOpenBookErrorCode, getOpenBookErrorMessage } from './error';
+import { emitResult } from './output';
+
+// Display names for programs that commonly appear next to OpenBook instructions
+const KNOWN_PROGRAMS: Record<string, string> = {
+  [ComputeBudgetProgram.programId.toBase58()]: 'ComputeBudget',
+  [SystemProgram.programId.toBase58()]: 'System',
+  [TOKEN_PROGRAM_ID.toBase58()]: 'Token',
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: 'AssociatedToken',
+};
+
+/**
+ * Outcome of a simulated transaction. This is also the json/csv result of every command run with `--dry-run`.
+ */
+export interface SimulationResult {
+  dryRun: true;
+  success: boolean;
+  unitsConsumed: number | null;
+  errorCode: number | null;
+  error: string | null;
+  logs: string[];
+}
+
+/**
+ * Simulates the given instructions exactly as `sendWithRetry` would send them, without sending anything.
+ * Logs the decoded instruction list, the accounts touched, compute units used, program logs
+ * and the mapped OpenBook error if the simulation fails.
+ * @param client OpenBookV2 client used to decode OpenBook instructions.
+ * @param connection Solana connection object.
+ * @param payer Fee payer of the transaction.
+ * @param instructions Instructions to simulate, in execution order.
+ * @param prioritizationFee Priority fee in microLamports, added as a compute budget instruction.
+ * @returns Outcome of the simulation.
+ */
+export async function simulateInstructions(
+  client: OpenBookV2Client,
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  prioritizationFee: bigint
+): Promise<SimulationResult> {
+  const allInstructions = [createComputeBudgetIx(Number(prioritizationFee)), ...instructions];
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const message = MessageV0.compile({
+    payerKey: payer,
+    instructions: allInstructions,
+    recentBlockhash: blockhash,
+  });
+  const transaction = new VersionedTransaction(message);
+
+  logger.info('Dry run: simulating transaction (nothing will be sent)...');
+  logger.info(`Transaction size: ${transaction.serialize().length} bytes`);
+
+  // Decoded instruction list
+  const coder = new BorshInstructionCoder(client.program.idl);
+  const openBookProgramId = client.program.programId;
+  logger.info('Instructions:');
+  allInstructions.forEach((ix, index) => {
+    const programId = ix.programId.toBase58();
+    if (ix.programId.equals(openBookProgramId)) {
+      const decoded = coder.decode(ix.data);
+      logger.info(`  ${index + 1}. OpenBook: ${decoded?.name ?? 'unknown instruction'}`);
+      const display = decoded ? coder.format(decoded, ix.keys) : null;
+      for (const arg of display?.args ?? []) {
+        logger.info(`       ${arg.name}: ${arg.data}`);
+      }
+      return;
+    }
+    logger.info(`  ${index + 1}. ${KNOWN_PROGRAMS[programId] ?? programId}`);
+  });
+
+  // Accounts touched by the transaction
+  logger.info('Accounts:');
+  const accountKeys = message.staticAccountKeys;
+  accountKeys.forEach((key, index) => {
+    const flags = [
+      message.isAccountSigner(index) ? 'signer' : null,
+      message.isAccountWritable(index) ? 'writable' : 'readonly',
+    ].filter((flag) => flag !== null);
+    logger.info(`  ${key.toBase58()} (${flags.join(', ')})`);
+  });
+
+  const { value } = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: 'confirmed',
+  });
+
+  logger.info(`Compute units used: ${value.unitsConsumed ?? 'N/A'}`);
+  logger.info('Program logs:');
+  for (const line of value.logs ?? []) {
+    logger.info(`  ${line}`);
+  }
+
+  const result: SimulationResult = {
+    dryRun: true,
+    success: !value.err,
+    unitsConsumed: value.unitsConsumed ?? null,
+    errorCode: null,
+    error: null,
+    logs: value.logs ?? [],
+  };
+
+  if (value.err) {
+    result.errorCode = getOpenBookErrorCode({ err: value.err });
+    result.error =
+      result.errorCode !== null
+        ? `OpenBook Error (${result.errorCode}): ${getOpenBookErrorMessage(result.errorCode)}`
+        : JSON.stringify(value.err);
+    logger.error(`Simulation failed. ${result.error}`);
+  } else {
+    logger.info('Simulation succeeded. No transaction was sent.');
+  }
+
+  emitResult(result, [
+    {
+      dryRun: true,
+      success: result.success,
+      unitsConsumed: result.unitsConsumed,
+      errorCode: result.errorCode,
+      error: result.error,
+    },
+  ]);
+  return result;
+}
@@ -0,0 +1,93 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import logger from './logger';
+import { DEFAULTS } from './config';
+
+// Without a slot notification for this long, the websocket is considered down
+const WEBSOCKET_STALE_MS = 5000;
+
+/**
+ * Where an account update came from.
+ */
+export type UpdateSource = 'websocket' | 'poll';
+
+/**
+ * An account streamed over a websocket subscription.
+ */
+export interface StreamedAccount {
+  pubkey: PublicKey;
+  // Decodes the new account data and applies it
+  onData: (data: Buffer) => void;
+}
+
+/**
+ * Subscribes to account changes over the websocket and calls `onUpdate` after each applied change.
+ * While the websocket is down (no slot notification for a few seconds), `poll` is called instead
+ * every `pollIntervalMs`, until the websocket recovers.
+ * @param connection Solana connection object, with a websocket endpoint.
+ * @param accounts Accounts to subscribe to.
+ * @param poll Reloads all accounts over HTTP.
+ * @param onUpdate Called after each websocket update or successful poll, with the slot of the data.
+ * @param pollIntervalMs Polling interval while the websocket is down.
+ * @returns A function that stops all subscriptions and timers.
+ */
+export function subscribeWithFallback(
+  connection: Connection,
+  accounts: StreamedAccount[],
+  poll: () => Promise<void>,
+  onUpdate: (source: UpdateSource, slot: number) => void,
+  pollIntervalMs: number = DEFAULTS.REFRESH_INTERVAL_MS
+): () => Promise<void> {
+  const subscriptions = accounts.map((account) =>
+    connection.onAccountChange(
+      account.pubkey,
+      (accountInfo, context) => {
+        account.onData(accountInfo.data);
+        onUpdate('websocket', context.slot);
+      },
+      { commitment: connection.commitment }
+    )
+  );
+
+  // Slot notifications arrive several times per second, so their absence reveals a dead websocket
+  let lastSlotAt = Date.now();
+  const slotSubscription = connection.onSlotChange(() => {
+    lastSlotAt = Date.now();
+  });
+
+  let polling = false;
+  let loading = false;
+  const watchdog = setInterval(async () => {
+    const websocketDown = Date.now() - lastSlotAt > WEBSOCKET_STALE_MS;
+    if (websocketDown !== polling) {
+      polling = websocketDown;
+      if (polling) {
+        logger.warn(`Websocket unavailable. Polling every ${pollIntervalMs} ms.`);
+      } else {
+        logger.info('Websocket connected. Streaming updates.');
+      }
+    }
+    if (!polling || loading) {
+      return;
+    }
+
+    loading = true;
+    try {
+      // The slot is read first, so the polled data is at least as recent
+      const slot = await connection.getSlot();
+      await poll();
+      onUpdate('poll', slot);
+    } catch (error) {
+      logger.warn(`Failed to poll: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      loading = false;
+    }
+  }, pollIntervalMs);
+
+  return async () => {
+    clearInterval(watchdog);
+    await connection.removeSlotChangeListener(slotSubscription);
+    for (const subscription of subscriptions) {
+      await connection.removeAccountChangeListener(subscription);
+    }
+  };
+}
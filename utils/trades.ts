@@ -0,0 +1,200 @@
+import { Connection, type ConfirmedSignatureInfo } from '@solana/web3.js';
+import { BN, EventParser, type IdlEvents } from '@coral-xyz/anchor';
+import { EventHeap, EventType, Market, type FillEvent, type OpenbookV2, type OutEvent } from '@openbook-dex/openbook-v2';
+import { DEFAULTS } from './config';
+import logger from './logger';
+import { subscribeWithFallback, type UpdateSource } from './stream';
+
+/**
+ * A decoded event heap entry.
+ * For fills, side is the taker's side ('bid' means the taker bought) and maker/taker are OpenOrders accounts.
+ * For out events (an order left the book without a fill, e.g. expired), maker is the order's OpenOrders
+ * account and price and taker are null.
+ */
+export interface TapeEvent {
+  type: 'fill' | 'out';
+  seqNum: string;
+  timestamp: string;
+  side: 'bid' | 'ask';
+  price: number | null;
+  size: number;
+  maker: string;
+  taker: string | null;
+  makerClientOrderId: string | null;
+  takerClientOrderId: string | null;
+}
+
+/**
+ * Decodes the fill and out events of an event heap.
+ * Replaces `EventHeap.parsedEvents()`, which calls the Anchor type decoder without its `this` and always throws.
+ */
+export function parseEvents(eventHeap: EventHeap): (FillEvent | OutEvent)[] {
+  const coder = eventHeap.market.client.program.coder.types;
+  const events: (FillEvent | OutEvent)[] = [];
+  for (const event of eventHeap.rawEvents()) {
+    const buffer = Buffer.from([event.eventType, ...event.padding]);
+    if (event.eventType === EventType.Fill) {
+      events.push(coder.decode('FillEvent', buffer));
+    } else if (event.eventType === EventType.Out) {
+      events.push(coder.decode('OutEvent', buffer));
+    }
+  }
+  return events;
+}
+
+/**
+ * Decodes the events of an event heap, oldest first.
+ */
+export function decodeEventHeap(eventHeap: EventHeap): TapeEvent[] {
+  const { market } = eventHeap;
+  const events: TapeEvent[] = [];
+
+  for (const event of parseEvents(eventHeap)) {
+    if (event.eventType === EventType.Fill) {
+      const fill = event as FillEvent;
+      events.push({
+        type: 'fill',
+        seqNum: fill.seqNum.toString(),
+        timestamp: new Date(fill.timestamp.toNumber() * 1000).toISOString(),
+        side: fill.takerSide === 0 ? 'bid' : 'ask',
+        price: market.priceLotsToUi(fill.price),
+        size: market.baseLotsToUi(fill.quantity),
+        maker: fill.maker.toBase58(),
+        taker: fill.taker.toBase58(),
+        makerClientOrderId: fill.makerClientOrderId.toString(),
+        takerClientOrderId: fill.takerClientOrderId.toString(),
+      });
+    } else if (event.eventType === EventType.Out) {
+      const out = event as OutEvent;
+      events.push({
+        type: 'out',
+        seqNum: out.seqNum.toString(),
+        timestamp: new Date(out.timestamp.toNumber() * 1000).toISOString(),
+        side: out.side === 0 ? 'bid' : 'ask',
+        price: null,
+        size: market.baseLotsToUi(out.quantity),
+        maker: out.owner.toBase58(),
+        taker: null,
+        makerClientOrderId: null,
+        takerClientOrderId: null,
+      });
+    }
+  }
+
+  return events.sort((a, b) => new BN(a.seqNum).cmp(new BN(b.seqNum)));
+}
+
+// Maximum number of signatures returned by a single getSignaturesForAddress request
+const SIGNATURES_PER_REQUEST = 1000;
+
+/**
+ * Fetches past fills of a market from the `FillLog` events in the program logs of its recent transactions.
+ * Unlike the event heap, which only holds fills until they are consumed, this reaches back as far as the
+ * RPC node keeps transaction history. Transactions are fetched one by one to respect the RPC rate limit.
+ * @param connection Solana connection object.
+ * @param market Market to fetch the fills of.
+ * @param limit Number of most recent market transactions to scan.
+ * @returns The fills, oldest first.
+ */
+export async function fetchFillHistory(connection: Connection, market: Market, limit: number): Promise<TapeEvent[]> {
+  const signatures: ConfirmedSignatureInfo[] = [];
+  while (signatures.length < limit) {
+    const page = await connection.getSignaturesForAddress(
+      market.pubkey,
+      {
+        limit: Math.min(SIGNATURES_PER_REQUEST, limit - signatures.length),
+        before: signatures[signatures.length - 1]?.signature,
+      },
+      'confirmed'
+    );
+    signatures.push(...page);
+    if (page.length < SIGNATURES_PER_REQUEST) break;
+  }
+
+  const successful = signatures.filter((info) => info.err === null);
+  logger.info(`Scanning ${successful.length} transaction(s) of market ${market.pubkey.toBase58()} for fills...`);
+
+  const parser = new EventParser(market.client.programId, market.client.program.coder);
+  const fills = new Map<string, TapeEvent>();
+  for (const [index, info] of successful.entries()) {
+    const transaction = await connection.getTransaction(info.signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    for (const event of parser.parseLogs(transaction?.meta?.logMessages ?? [])) {
+      if (event.name !== 'FillLog') continue;
+      const fill = event.data as IdlEvents<OpenbookV2>['FillLog'];
+      if (!fill.market.equals(market.pubkey)) continue;
+      fills.set(fill.seqNum.toString(), {
+        type: 'fill',
+        seqNum: fill.seqNum.toString(),
+        timestamp: new Date(fill.timestamp.toNumber() * 1000).toISOString(),
+        side: fill.takerSide === 0 ? 'bid' : 'ask',
+        price: market.priceLotsToUi(fill.price),
+        size: market.baseLotsToUi(fill.quantity),
+        maker: fill.maker.toBase58(),
+        taker: fill.taker.toBase58(),
+        makerClientOrderId: fill.makerClientOrderId.toString(),
+        takerClientOrderId: fill.takerClientOrderId.toString(),
+      });
+    }
+    if ((index + 1) % 100 === 0) {
+      logger.info(`Scanned ${index + 1}/${successful.length} transactions, ${fills.size} fill(s) found.`);
+    }
+  }
+
+  return [...fills.values()].sort((a, b) => new BN(a.seqNum).cmp(new BN(b.seqNum)));
+}
+
+/**
+ * Keeps the event heap of a market up to date and calls `onEvents` with the events that were not seen before.
+ * Events are consumed from the heap by cranks, so each update only reports events with a higher sequence number
+ * than the last reported one. The first call reports every event currently on the heap.
+ * @param connection Solana connection object, with a websocket endpoint.
+ * @param market Market with a loaded event heap.
+ * @param onEvents Called with the new events, oldest first, and the slot of the data (null for the initial events).
+ * @param pollIntervalMs Polling interval while the websocket is down.
+ * @returns A function that stops all subscriptions and timers.
+ */
+export function watchEventHeap(
+  connection: Connection,
+  market: Market,
+  onEvents: (events: TapeEvent[], source: UpdateSource | 'initial', slot: number | null) => void,
+  pollIntervalMs: number = DEFAULTS.REFRESH_INTERVAL_MS
+): () => Promise<void> {
+  if (!market.eventHeap) {
+    throw new Error('Event heap must be loaded before it can be watched.');
+  }
+
+  let lastSeqNum: BN | null = null;
+  const report = (source: UpdateSource | 'initial', slot: number | null = null) => {
+    const events = decodeEventHeap(market.eventHeap as EventHeap).filter(
+      (event) => lastSeqNum === null || new BN(event.seqNum).gt(lastSeqNum)
+    );
+    if (events.length > 0) {
+      lastSeqNum = new BN(events[events.length - 1].seqNum);
+      onEvents(events, source, slot);
+    } else if (lastSeqNum === null) {
+      // Nothing on the heap yet: every future event is new
+      lastSeqNum = new BN(-1);
+    }
+  };
+
+  report('initial');
+  return subscribeWithFallback(
+    connection,
+    [
+      {
+        pubkey: market.account.eventHeap,
+        onData: (data) => {
+          (market.eventHeap as EventHeap).account = market.client.program.coder.accounts.decode('eventHeap', data);
+        },
+      },
+    ],
+    async () => {
+      await market.loadEventHeap();
+    },
+    report,
+    pollIntervalMs
+  );
+}
@@ -0,0 +1,98 @@
+import { Connection, LAMPORTS_PER_SOL, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  NATIVE_MINT,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  getAssociatedTokenAddressSync,
+  unpackAccount,
+} from '@solana/spl-token';
+import { BN } from '@coral-xyz/anchor';
+import { toUiDecimals } from '@openbook-dex/openbook-v2';
+
+/**
+ * Returns whether a mint is wrapped SOL.
+ */
+export function isNativeMint(mint: PublicKey): boolean {
+  return mint.equals(NATIVE_MINT);
+}
+
+/**
+ * The token account a deposit draws from, with the instructions that prepare it before the deposit
+ * (token account creation, SOL wrapping) and clean it up afterwards (closing a temporary wSOL account).
+ * wrappedLamports is the SOL wrapped for the deposit.
+ */
+export interface DepositSource {
+  tokenAccount: PublicKey;
+  setupIxs: TransactionInstruction[];
+  cleanupIxs: TransactionInstruction[];
+  wrappedLamports: number;
+}
+
+/**
+ * Prepares the owner's associated token account of a mint for a deposit of `amount` native units,
+ * and checks the wallet balance before anything is signed.
+ * A missing token account is created idempotently, as the deposit needs both token accounts even for a zero amount.
+ * For wrapped SOL, the shortfall of the wSOL balance is wrapped from the wallet's SOL. A wSOL account created
+ * for the deposit is temporary and closed in the same transaction unless `keepWsol` is set; an existing one
+ * stays open, so wSOL the owner already held is not unwrapped.
+ * @throws If the wallet holds less than the deposit needs.
+ */
+export async function prepareDepositSource(
+  connection: Connection,
+  owner: PublicKey,
+  mint: PublicKey,
+  amount: BN,
+  decimals: number,
+  keepWsol: boolean = false
+): Promise<DepositSource> {
+  const tokenAccount = getAssociatedTokenAddressSync(mint, owner, true);
+  const info = await connection.getAccountInfo(tokenAccount);
+  const balance = info ? unpackAccount(tokenAccount, info).amount : 0n;
+  const needed = BigInt(amount.toString());
+  const source: DepositSource = { tokenAccount, setupIxs: [], cleanupIxs: [], wrappedLamports: 0 };
+
+  if (!info) {
+    source.setupIxs.push(createAssociatedTokenAccountIdempotentInstruction(owner, tokenAccount, owner, mint));
+  }
+
+  if (!isNativeMint(mint)) {
+    if (balance < needed) {
+      throw new Error(
+        `Insufficient balance of ${mint.toBase58()}: the wallet holds ${toUiDecimals(Number(balance), decimals)}, ` +
+          `the deposit needs ${toUiDecimals(Number(needed), decimals)}.`
+      );
+    }
+    return source;
+  }
+
+  const wrap = needed > balance ? needed - balance : 0n;
+  if (wrap > 0n) {
+    const rent = info ? 0 : await connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE);
+    const lamports = await connection.getBalance(owner);
+    if (BigInt(lamports) < wrap + BigInt(rent)) {
+      throw new Error(
+        `Insufficient SOL: the wallet holds ${lamports / LAMPORTS_PER_SOL} SOL, wrapping for the deposit needs ` +
+          `${Number(wrap + BigInt(rent)) / LAMPORTS_PER_SOL} SOL (including token account rent) plus fees.`
+      );
+    }
+    source.setupIxs.push(
+      SystemProgram.transfer({ fromPubkey: owner, toPubkey: tokenAccount, lamports: wrap }),
+      createSyncNativeInstruction(tokenAccount)
+    );
+    source.wrappedLamports = Number(wrap);
+  }
+  if (!info && !keepWsol) {
+    source.cleanupIxs.push(createCloseAccountInstruction(tokenAccount, owner, owner));
+  }
+  return source;
+}
+
+/**
+ * Builds the instruction that closes the owner's wSOL account, unwrapping its whole balance to SOL.
+ */
+export function unwrapSolIx(owner: PublicKey): TransactionInstruction {
+  const tokenAccount = getAssociatedTokenAddressSync(NATIVE_MINT, owner, true);
+  return createCloseAccountInstruction(tokenAccount, owner, owner);
+}